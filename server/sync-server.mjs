@@ -0,0 +1,176 @@
+// Reference sync server for the HTTP progress backend. Node built-ins only —
+// run with `npm run sync-server` and point Settings → Progress storage at it.
+//
+//   GET  /progress/:profile         → { revision, envelope }
+//   PUT  /progress/:profile         ← { baseRevision, force, envelope }
+//                                   → 200 { revision } | 409 { revision, envelope }
+//                                     | 413 { error } when the body is over 5 MB
+//   GET  /progress/:profile/events  → server-sent events, one per write
+//
+// Conflicts are resolved by the client: a PUT whose baseRevision is stale is
+// rejected with the current copy so the client can merge and retry. `force`
+// (import, reset) is last-writer-wins.
+import { createServer } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PROFILE_PATTERN = /^[\w-]{1,64}$/;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Discard the rest rather than destroying the socket, so the 413 can still be sent
+        req.removeAllListeners('data');
+        req.resume();
+        reject(Object.assign(new Error('Body too large'), { code: 'BODY_TOO_LARGE' }));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function isEnvelope(value) {
+  return typeof value === 'object' && value !== null && typeof value.version === 'number' && 'data' in value;
+}
+
+export function createSyncServer({ dataDir }) {
+  /** profile → Set of open SSE responses */
+  const subscribers = new Map();
+
+  const fileFor = (profile) => path.join(dataDir, `${profile}.json`);
+
+  async function load(profile) {
+    try {
+      return JSON.parse(await readFile(fileFor(profile), 'utf8'));
+    } catch (err) {
+      if (err.code === 'ENOENT') return { revision: 0, envelope: null };
+      throw err;
+    }
+  }
+
+  async function store(profile, record) {
+    await mkdir(dataDir, { recursive: true });
+    const file = fileFor(profile);
+    // Write-then-rename so a crash never leaves a half-written file behind
+    await writeFile(`${file}.tmp`, JSON.stringify(record));
+    await rename(`${file}.tmp`, file);
+  }
+
+  function broadcast(profile, change) {
+    for (const res of subscribers.get(profile) ?? []) {
+      res.write(`data: ${JSON.stringify(change)}\n\n`);
+    }
+  }
+
+  // Requests for one profile run one at a time so revision checks can't race
+  const queues = new Map();
+  function serialized(profile, task) {
+    const next = (queues.get(profile) ?? Promise.resolve()).then(task, task);
+    queues.set(profile, next.catch(() => {}));
+    return next;
+  }
+
+  async function handlePut(req, res, profile) {
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (err) {
+      if (err.code === 'BODY_TOO_LARGE') {
+        // Close the connection once answered so the client stops uploading
+        send(res, 413, { error: `Progress is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB` }, { Connection: 'close' });
+      } else {
+        send(res, 400, { error: 'Expected a JSON body' });
+      }
+      return;
+    }
+    if (!isEnvelope(body?.envelope)) {
+      send(res, 400, { error: 'Missing progress envelope' });
+      return;
+    }
+
+    await serialized(profile, async () => {
+      const current = await load(profile);
+      if (!body.force && body.baseRevision !== current.revision) {
+        send(res, 409, current);
+        return;
+      }
+      const record = { revision: current.revision + 1, envelope: body.envelope, updatedAt: new Date().toISOString() };
+      await store(profile, record);
+      send(res, 200, { revision: record.revision });
+      broadcast(profile, { revision: record.revision, envelope: record.envelope, replaced: Boolean(body.force) });
+    });
+  }
+
+  async function handleEvents(req, res, profile) {
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    // Current state first, so a reconnecting client catches up on anything it missed
+    const current = await load(profile);
+    res.write(`data: ${JSON.stringify({ ...current, replaced: false })}\n\n`);
+
+    if (!subscribers.has(profile)) subscribers.set(profile, new Set());
+    subscribers.get(profile).add(res);
+    req.on('close', () => subscribers.get(profile)?.delete(res));
+  }
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+      }
+
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      const match = pathname.match(/^\/progress\/([^/]+)(\/events)?$/);
+      const profile = match && decodeURIComponent(match[1]);
+      if (!match || !PROFILE_PATTERN.test(profile)) {
+        send(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      if (req.method === 'GET' && match[2]) await handleEvents(req, res, profile);
+      else if (req.method === 'GET') send(res, 200, await load(profile));
+      else if (req.method === 'PUT' && !match[2]) await handlePut(req, res, profile);
+      else send(res, 405, { error: 'Method not allowed' });
+    } catch (err) {
+      console.error(err);
+      if (!res.headersSent) send(res, 500, { error: 'Internal error' });
+      else res.end();
+    }
+  });
+
+  return server;
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT ?? 8787);
+  const dataDir = path.resolve(process.env.SYNC_DATA_DIR ?? '.sync-data');
+  createSyncServer({ dataDir }).listen(port, () => {
+    console.log(`Progress sync server on http://localhost:${port} (data in ${dataDir})`);
+  });
+}
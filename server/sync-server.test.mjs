@@ -0,0 +1,82 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createSyncServer } from './sync-server.mjs';
+
+const envelope = (completedIds) => ({ version: 1, data: { completedIds, completionTimes: {}, attempts: {} } });
+
+describe('sync server', () => {
+  let dataDir;
+  let server;
+  let url;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'ril-sync-'));
+    server = createSyncServer({ dataDir });
+    await new Promise((resolve) => server.listen(0, resolve));
+    url = `http://localhost:${server.address().port}/progress/alice`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  const put = (body) => fetch(url, { method: 'PUT', body: JSON.stringify(body) });
+
+  it('starts empty at revision 0', async () => {
+    expect(await (await fetch(url)).json()).toEqual({ revision: 0, envelope: null });
+  });
+
+  it('accepts a write based on the current revision and persists it', async () => {
+    const res = await put({ baseRevision: 0, envelope: envelope([1]) });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ revision: 1 });
+
+    // A fresh server over the same directory sees the write
+    const reopened = createSyncServer({ dataDir });
+    await new Promise((resolve) => reopened.listen(0, resolve));
+    const body = await (await fetch(`http://localhost:${reopened.address().port}/progress/alice`)).json();
+    await new Promise((resolve) => reopened.close(resolve));
+    expect(body.envelope).toEqual(envelope([1]));
+  });
+
+  it('rejects a stale write with the current copy', async () => {
+    await put({ baseRevision: 0, envelope: envelope([1]) });
+    const res = await put({ baseRevision: 0, envelope: envelope([2]) });
+
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.revision).toBe(1);
+    expect(body.envelope).toEqual(envelope([1]));
+  });
+
+  it('lets a forced write overwrite regardless of revision', async () => {
+    await put({ baseRevision: 0, envelope: envelope([1]) });
+    const res = await put({ baseRevision: null, force: true, envelope: envelope([]) });
+    expect(res.status).toBe(200);
+    expect((await (await fetch(url)).json()).envelope).toEqual(envelope([]));
+  });
+
+  it('keeps profiles separate and rejects unsafe names', async () => {
+    await put({ baseRevision: 0, envelope: envelope([1]) });
+    const other = await (await fetch(url.replace('alice', 'bob'))).json();
+    expect(other.revision).toBe(0);
+    expect((await fetch(url.replace('alice', '..%2Fetc'))).status).toBe(404);
+  });
+
+  it('rejects bodies without an envelope', async () => {
+    expect((await put({ baseRevision: 0 })).status).toBe(400);
+    expect((await fetch(url, { method: 'PUT', body: '{not json' })).status).toBe(400);
+  });
+
+  it('tells an oversize body apart from malformed JSON', async () => {
+    const res = await put({ baseRevision: 0, envelope: envelope([1]), padding: 'x'.repeat(6 * 1024 * 1024) });
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toMatch(/larger than 5 MB/);
+    expect((await (await fetch(url)).json()).revision).toBe(0);
+  });
+});
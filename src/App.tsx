@@ -1,15 +1,31 @@
+import { useState } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { ChallengeGrid } from '@/components/challenges/ChallengeGrid';
 import { ChallengeViewRoute } from '@/components/challenges/ChallengeViewRoute';
+import { StatsView } from '@/components/stats/StatsView';
+import { SessionView } from '@/components/session/SessionView';
+import { InterviewerView } from '@/components/interview/InterviewerView';
+import { ProgressProvider } from '@/components/progress/ProgressProvider';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { loadSettings } from '@/hooks/useSettings';
+import { createProgressAdapter } from '@/utils/progressAdapters';
 
 export default function App() {
+  const [adapter] = useState(() => createProgressAdapter(loadSettings()));
+
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<ChallengeGrid />} />
-        <Route path="/challenge/:id" element={<ChallengeViewRoute />} />
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
-    </BrowserRouter>
+    <ProgressProvider total={ALL_CHALLENGES.length} adapter={adapter}>
+      <BrowserRouter>
+        <Routes>
+          <Route path="/" element={<ChallengeGrid />} />
+          <Route path="/challenge/:id" element={<ChallengeViewRoute />} />
+          <Route path="/stats" element={<StatsView />} />
+          <Route path="/session" element={<SessionView />} />
+          <Route path="/interview/:id" element={<ChallengeViewRoute mode="interview" />} />
+          <Route path="/interview/:id/interviewer" element={<InterviewerView />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </BrowserRouter>
+    </ProgressProvider>
   );
 }
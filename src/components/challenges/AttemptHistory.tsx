@@ -0,0 +1,104 @@
+import { cn } from '@/utils/cn';
+import { formatTime } from '@/utils/time';
+import { bestCompletedTime, hintsUsed } from '@/utils/attempts';
+import type { Attempt, AttemptStatus } from '@/types/progress';
+
+interface AttemptHistoryProps {
+  attempts: Attempt[];
+  isCurrentCompleted: boolean;
+  onRestart: () => void;
+}
+
+const STATUS_LABELS: Record<AttemptStatus, string> = {
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+  'in-progress': 'Unfinished',
+};
+
+const STATUS_STYLES: Record<AttemptStatus, string> = {
+  completed: 'text-accent',
+  abandoned: 'text-muted',
+  'in-progress': 'text-warning',
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function AttemptHistory({ attempts, isCurrentCompleted, onRestart }: AttemptHistoryProps) {
+  if (attempts.length === 0 && !isCurrentCompleted) return null;
+
+  const best = bestCompletedTime(attempts);
+  const newestFirst = [...attempts].sort((a, b) => b.startedAt - a.startedAt);
+
+  return (
+    <div className="pt-5">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="m-0 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+          Previous Attempts {best !== undefined && <span className="normal-case tracking-normal">· best {formatTime(best)}</span>}
+        </h3>
+        <button
+          onClick={onRestart}
+          className="text-xs text-accent border border-accent/30 hover:border-accent/60 px-2 py-1 rounded
+                     transition-colors cursor-pointer bg-transparent font-[inherit]"
+        >
+          ↻ Start new attempt
+        </button>
+      </div>
+      {newestFirst.length > 0 && (
+        <table className="w-full text-xs font-ui border-collapse">
+          <thead>
+            <tr className="text-left text-muted">
+              <th className="font-semibold pb-1.5">Started</th>
+              <th className="font-semibold pb-1.5">Time</th>
+              <th className="font-semibold pb-1.5">Tests</th>
+              <th className="font-semibold pb-1.5">Assists</th>
+              <th className="font-semibold pb-1.5">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {newestFirst.map((a) => (
+              <tr key={a.id} className="border-t border-border text-[#bbb]">
+                <td className="py-1.5">{formatDate(a.startedAt)}</td>
+                <td className="py-1.5 tabular-nums">
+                  {formatTime(a.elapsedSeconds)}
+                  {a.status === 'completed' && a.elapsedSeconds === best && (
+                    <span className="ml-1.5 text-accent">★</span>
+                  )}
+                  {a.countdown && (
+                    <span
+                      title={`${formatTime(a.countdown.durationSeconds)} countdown`}
+                      className={cn('ml-1.5', a.countdown.overrunSeconds > 0 ? 'text-error' : 'text-accent')}
+                    >
+                      ⏳ {a.countdown.overrunSeconds > 0 ? `+${formatTime(a.countdown.overrunSeconds)}` : 'in time'}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1.5 tabular-nums">
+                  {a.testsTotal > 0 ? `${a.testsPassed}/${a.testsTotal}` : '—'}
+                  {a.assessment && <span title="Self-assessment" className="ml-1.5 text-accent">· {a.assessment.score}%</span>}
+                </td>
+                <td className="py-1.5">
+                  {[
+                    a.hintsRevealed && `${hintsUsed(a)} ${hintsUsed(a) === 1 ? 'hint' : 'hints'}`,
+                    a.solutionRevealed && (a.solutionRevealedAt === undefined
+                      ? 'solution'
+                      : `solution at ${formatTime(a.solutionRevealedAt)}`),
+                  ].filter(Boolean).join(', ') || '—'}
+                </td>
+                <td className={cn('py-1.5 font-semibold', STATUS_STYLES[a.status])}>
+                  {STATUS_LABELS[a.status]}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ const mockChallenge: Challenge = {
   category: 'Hooks & State',
   difficulty: 'Expert',
   title: 'Test Challenge Title',
-  timeEstimate: '25 min',
+  timeEstimate: { minutes: 25 },
   description: 'A test challenge description that is long enough to be truncated at 120 characters for the card view display.',
   realWorld: 'Real world context',
   requirements: ['Requirement 1'],
@@ -63,4 +63,25 @@ describe('ChallengeCard', () => {
     render(<ChallengeCard challenge={mockChallenge} isCompleted={true} onStart={() => {}} />);
     expect(screen.getByText('Review →')).toBeInTheDocument();
   });
+
+  it('shows the attempt count alongside the best time', () => {
+    render(
+      <ChallengeCard challenge={mockChallenge} isCompleted={true} completionTime={95} attemptCount={3} onStart={() => {}} />,
+    );
+    expect(screen.getByText('✓ Completed in 1:35')).toBeInTheDocument();
+    expect(screen.getByText('· 3 attempts', { exact: false })).toBeInTheDocument();
+  });
+
+  it('marks completions that relied on hints or the solution as assisted', () => {
+    const { rerender } = render(<ChallengeCard challenge={mockChallenge} isCompleted={true} assisted onStart={() => {}} />);
+    expect(screen.getByText('Assisted')).toBeInTheDocument();
+
+    rerender(<ChallengeCard challenge={mockChallenge} isCompleted={true} onStart={() => {}} />);
+    expect(screen.queryByText('Assisted')).not.toBeInTheDocument();
+  });
+
+  it('shows the latest self-assessment score', () => {
+    render(<ChallengeCard challenge={mockChallenge} isCompleted={true} assessmentScore={83} onStart={() => {}} />);
+    expect(screen.getByTitle('Latest self-assessment')).toHaveTextContent('83% rubric');
+  });
 });
@@ -1,17 +1,30 @@
 import { cn } from '@/utils/cn';
 import { CategoryBadge, DifficultyBadge } from '@/components/ui/Badge';
 import { CATEGORY_STYLES } from '@/constants/theme';
-import { formatTime } from '@/utils/time';
+import { formatTime, formatEstimate } from '@/utils/time';
 import type { Challenge } from '@/types/challenge';
 
 interface ChallengeCardProps {
   challenge: Challenge;
   isCompleted: boolean;
   completionTime?: number;
+  attemptCount?: number;
+  /** Latest self-assessment score, 0–100 */
+  assessmentScore?: number;
+  /** Every completion used hints or the solution */
+  assisted?: boolean;
   onStart: (challenge: Challenge) => void;
 }
 
-export function ChallengeCard({ challenge, isCompleted, completionTime, onStart }: ChallengeCardProps) {
+export function ChallengeCard({
+  challenge,
+  isCompleted,
+  completionTime,
+  attemptCount = 0,
+  assessmentScore,
+  assisted = false,
+  onStart,
+}: ChallengeCardProps) {
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
@@ -46,9 +59,25 @@ export function ChallengeCard({ challenge, isCompleted, completionTime, onStart
       </p>
       <div className="flex justify-between items-center">
         <span className="text-xs text-[#555]">
-          {isCompleted && completionTime !== undefined
-            ? `✓ Completed in ${formatTime(completionTime)}`
-            : `⏱ ${challenge.timeEstimate}`}
+          <span>
+            {isCompleted && completionTime !== undefined
+              ? `✓ Completed in ${formatTime(completionTime)}`
+              : `⏱ ${formatEstimate(challenge.timeEstimate)}`}
+          </span>
+          {isCompleted && assisted && (
+            <span
+              title="Completed only with hints or the solution revealed"
+              className="ml-1.5 text-[11px] font-semibold text-warning bg-warning/10 px-1.5 py-0.5 rounded"
+            >
+              Assisted
+            </span>
+          )}
+          {attemptCount > 0 && (
+            <span> · {attemptCount} {attemptCount === 1 ? 'attempt' : 'attempts'}</span>
+          )}
+          {assessmentScore !== undefined && (
+            <span title="Latest self-assessment" className="text-accent/80"> · {assessmentScore}% rubric</span>
+          )}
         </span>
         <span className="text-[13px] text-accent font-semibold">
           {isCompleted ? 'Review →' : 'Start →'}
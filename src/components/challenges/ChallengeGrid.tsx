@@ -1,37 +1,79 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ALL_CHALLENGES } from '@/data/challenges';
 import { useProgress } from '@/hooks/useProgress';
 import { ChallengeCard } from './ChallengeCard';
 import { ProgressBar } from '@/components/ui/ProgressBar';
+import { StorageRecoveryBanner } from '@/components/progress/StorageRecoveryBanner';
+import { ProgressTransferActions } from '@/components/progress/ProgressTransferActions';
+import { UndoResetToast } from '@/components/progress/UndoResetToast';
+import { StorageSettingsDialog } from '@/components/progress/StorageSettingsDialog';
 import { FilterBar } from '@/components/filters/FilterBar';
 import { SearchInput } from '@/components/filters/SearchInput';
+import { SortSelect } from '@/components/filters/SortSelect';
+import { filterChallenges, sortChallenges, type ChallengeSort } from '@/utils/challengeFilters';
+import { latestAssessmentScore } from '@/utils/rubric';
+import { onlyAssistedCompletions } from '@/utils/attempts';
+import { clearAllSittings, listSittings, writeSittings, type Sitting } from '@/utils/sittings';
 import type { Challenge, Category, Difficulty } from '@/types/challenge';
+import type { ProgressData } from '@/types/progress';
 
 export function ChallengeGrid() {
   const navigate = useNavigate();
-  const { completedIds, completionTimes, progress, resetProgress } = useProgress(ALL_CHALLENGES.length);
+  const {
+    data,
+    completedIds,
+    completionTimes,
+    attempts,
+    progress,
+    replaceProgress,
+    resetProgress,
+    storageIssue,
+    dismissStorageIssue,
+  } = useProgress();
   const [activeCategory, setActiveCategory] = useState<'All' | Category>('All');
   const [activeDifficulty, setActiveDifficulty] = useState<'All' | Difficulty>('All');
+  const [maxMinutes, setMaxMinutes] = useState<number | null>(null);
+  const [sort, setSort] = useState<ChallengeSort>('default');
   const [query, setQuery] = useState('');
+  const [undoSnapshot, setUndoSnapshot] = useState<{ progress: ProgressData; sittings: Record<number, Sitting> } | null>(null);
+  const [showStorage, setShowStorage] = useState(false);
 
   const filtered = useMemo(() => {
-    return ALL_CHALLENGES
-      .filter((c) => activeCategory === 'All' || c.category === activeCategory)
-      .filter((c) => activeDifficulty === 'All' || c.difficulty === activeDifficulty)
-      .filter((c) => {
-        if (!query) return true;
-        const q = query.toLowerCase();
-        return c.title.toLowerCase().includes(q) || c.description.toLowerCase().includes(q);
-      });
-  }, [activeCategory, activeDifficulty, query]);
+    const matches = filterChallenges(ALL_CHALLENGES, {
+      category: activeCategory,
+      difficulty: activeDifficulty,
+      maxMinutes,
+      query,
+    });
+    return sortChallenges(matches, sort);
+  }, [activeCategory, activeDifficulty, maxMinutes, sort, query]);
 
   const handleStart = (challenge: Challenge) => {
     navigate(`/challenge/${challenge.id}`);
   };
 
+  // Half-timed sittings go too, or reopening a challenge would resume its old clock
+  const handleReset = () => {
+    setUndoSnapshot({ progress: data, sittings: listSittings() });
+    clearAllSittings();
+    resetProgress();
+  };
+
+  const handleUndoReset = () => {
+    if (undoSnapshot) {
+      replaceProgress(undoSnapshot.progress);
+      writeSittings(undoSnapshot.sittings);
+    }
+    setUndoSnapshot(null);
+  };
+
+  const handleUndoExpired = useCallback(() => setUndoSnapshot(null), []);
+
   return (
     <div className="bg-bg min-h-screen pb-10">
+      {storageIssue && <StorageRecoveryBanner issue={storageIssue} onDismiss={dismissStorageIssue} />}
+
       {/* Header */}
       <div className="bg-gradient-to-br from-surface-2 to-[#1a1a2e] border-b border-border px-6 py-7 mb-7">
         <div className="max-w-[880px] mx-auto flex justify-between items-center flex-wrap gap-4">
@@ -44,19 +86,44 @@ export function ChallengeGrid() {
             </p>
           </div>
           <div className="flex items-center gap-4">
-            <ProgressBar
-              value={progress}
-              label={`${completedIds.size}/${ALL_CHALLENGES.length} completed`}
-            />
-            {completedIds.size > 0 && (
+            <button
+              onClick={() => navigate('/stats')}
+              aria-label="View progress stats"
+              title="View progress stats"
+              className="bg-transparent border-none p-0 cursor-pointer font-[inherit] hover:opacity-80"
+            >
+              <ProgressBar
+                value={progress}
+                label={`${completedIds.size}/${ALL_CHALLENGES.length} completed`}
+              />
+            </button>
+            <div className="flex items-center gap-2">
               <button
-                onClick={resetProgress}
-                className="text-xs text-muted hover:text-error border border-border hover:border-error/50
+                onClick={() => navigate('/session')}
+                className="text-xs text-accent border border-accent/40 hover:border-accent px-2 py-1 rounded
+                           transition-colors cursor-pointer bg-transparent font-[inherit]"
+              >
+                ▶ Practice session
+              </button>
+              <ProgressTransferActions progress={data} onImport={replaceProgress} />
+              <button
+                onClick={() => setShowStorage(true)}
+                aria-label="Progress storage settings"
+                className="text-xs text-muted hover:text-text border border-border hover:border-accent/50
                            px-2 py-1 rounded transition-colors cursor-pointer bg-transparent font-[inherit]"
               >
-                Reset
+                ⚙
               </button>
-            )}
+              {completedIds.size > 0 && (
+                <button
+                  onClick={handleReset}
+                  className="text-xs text-muted hover:text-error border border-border hover:border-error/50
+                             px-2 py-1 rounded transition-colors cursor-pointer bg-transparent font-[inherit]"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -70,11 +137,16 @@ export function ChallengeGrid() {
             activeDifficulty={activeDifficulty}
             onCategoryChange={setActiveCategory}
             onDifficultyChange={setActiveDifficulty}
+            activeMaxMinutes={maxMinutes}
+            onMaxMinutesChange={setMaxMinutes}
           />
         </div>
-        <p className="text-xs text-muted mb-4">
-          Showing {filtered.length} of {ALL_CHALLENGES.length} challenges
-        </p>
+        <div className="flex justify-between items-center mb-4">
+          <p className="m-0 text-xs text-muted">
+            Showing {filtered.length} of {ALL_CHALLENGES.length} challenges
+          </p>
+          <SortSelect value={sort} onChange={setSort} />
+        </div>
       </div>
 
       {/* Grid */}
@@ -85,6 +157,9 @@ export function ChallengeGrid() {
             challenge={c}
             isCompleted={completedIds.has(c.id)}
             completionTime={completionTimes[c.id]}
+            attemptCount={attempts[c.id]?.length ?? 0}
+            assessmentScore={latestAssessmentScore(attempts[c.id])}
+            assisted={onlyAssistedCompletions(attempts[c.id])}
             onStart={handleStart}
           />
         ))}
@@ -95,6 +170,9 @@ export function ChallengeGrid() {
           <p className="text-muted text-sm">No challenges match your filters.</p>
         </div>
       )}
+
+      {showStorage && <StorageSettingsDialog progress={data} onClose={() => setShowStorage(false)} />}
+      {undoSnapshot && <UndoResetToast onUndo={handleUndoReset} onExpire={handleUndoExpired} />}
     </div>
   );
 }
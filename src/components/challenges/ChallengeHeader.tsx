@@ -1,4 +1,5 @@
 import { CategoryBadge, DifficultyBadge } from '@/components/ui/Badge';
+import { formatEstimate } from '@/utils/time';
 import type { Challenge } from '@/types/challenge';
 
 export function ChallengeHeader({ challenge }: { challenge: Challenge }) {
@@ -7,7 +8,7 @@ export function ChallengeHeader({ challenge }: { challenge: Challenge }) {
       <div className="flex gap-2.5 items-center flex-wrap">
         <CategoryBadge category={challenge.category} />
         <DifficultyBadge difficulty={challenge.difficulty} />
-        <span className="text-muted text-[13px]">⏱ {challenge.timeEstimate}</span>
+        <span className="text-muted text-[13px]">⏱ {formatEstimate(challenge.timeEstimate)}</span>
       </div>
       <h2 className="mt-3.5 mb-2.5 text-2xl font-bold text-[#f0f0f8] tracking-tight">
         {challenge.title}
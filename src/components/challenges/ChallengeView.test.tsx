@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ChallengeView } from './ChallengeView';
+import { ProgressProvider } from '@/components/progress/ProgressProvider';
+import { challenge } from '@/test/fixtures';
+import { completeChallenge, EMPTY_PROGRESS } from '@/utils/progressData';
+import { saveProgress } from '@/utils/progressStorage';
+import type { Challenge } from '@/types/challenge';
+
+function renderChallenge(c: Challenge) {
+  render(
+    <ProgressProvider total={1}>
+      <ChallengeView challenge={c} attempts={[]} onBack={() => {}} onSaveAttempt={() => {}} />
+    </ProgressProvider>,
+  );
+}
+
+const offlineOption = () => screen.getByRole('checkbox', { name: /Run tests offline/ });
+
+describe('ChallengeView', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('offers the offline engine when the runner bundles every import', () => {
+    renderChallenge(challenge(1, { testCode: "import { render } from '@testing-library/react';" }));
+    expect(offlineOption()).toBeEnabled();
+    expect(screen.getByRole('button', { name: '✓ Run tests' })).toBeInTheDocument();
+  });
+
+  it('disables the offline engine and names the package it lacks', () => {
+    localStorage.setItem('ril-settings', JSON.stringify({ sandboxEngine: 'local' }));
+    renderChallenge(challenge(19, {
+      starterCode: "import Reconciler from 'react-reconciler';",
+      testCode: "import { render } from './implementation';",
+    }));
+    expect(offlineOption()).toBeDisabled();
+    expect(offlineOption()).not.toBeChecked();
+    expect(screen.queryByRole('button', { name: '✓ Run tests' })).toBeNull();
+    expect(screen.getByText(/Needs react-reconciler/)).toBeInTheDocument();
+  });
+
+  it('keeps a re-attempt of a solved challenge open while marking it as solved before', () => {
+    saveProgress(completeChallenge(EMPTY_PROGRESS, 1));
+    renderChallenge(challenge(1, { requirements: ['Renders a list'] }));
+    expect(screen.getByText('✓ Solved before')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Mark Complete/ })).toHaveTextContent('⚠ 1');
+  });
+});
@@ -1,56 +1,378 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTimer } from '@/hooks/useTimer';
-import { formatTime } from '@/utils/time';
+import { useSettings } from '@/hooks/useSettings';
+import { useAttempt } from '@/hooks/useAttempt';
+import { useIsCompleted } from '@/hooks/useProgress';
+import { useCandidateLink } from '@/hooks/useCandidateLink';
+import { useRequirementChecklist } from '@/hooks/useRequirementChecklist';
+import { verifiedRequirements } from '@/utils/checklist';
+import { solutionGate } from '@/utils/solutionGate';
+import { isFullPass } from '@/utils/testResults';
+import { unbundledPackages } from '@/utils/localRunner';
+import { cn } from '@/utils/cn';
+import { activeWarning, estimateMinutes, formatTime } from '@/utils/time';
+import { challengeRubric } from '@/utils/rubric';
 import { TopBar } from './TopBar';
 import { ChallengeHeader } from './ChallengeHeader';
+import { AttemptHistory } from './AttemptHistory';
 import { RequirementsList } from './RequirementsList';
 import { HintsPanel } from './HintsPanel';
+import { NotesPanel } from './NotesPanel';
 import { SolutionPanel } from './SolutionPanel';
+import { TestRunSummary } from './TestRunSummary';
+import { RunTestsButton } from './RunTestsButton';
+import { CountdownSetupDialog } from './CountdownSetupDialog';
+import { TimeUpDialog } from './TimeUpDialog';
+import { TimerSessionPanel } from './TimerSessionPanel';
+import { SelfAssessmentPanel } from './SelfAssessmentPanel';
+import { UncheckedRequirementsDialog } from './UncheckedRequirementsDialog';
+import { SolutionGateSettings } from './SolutionGateSettings';
 import { CodeBlock } from '@/components/ui/CodeBlock';
 import { SandboxButton } from '@/components/sandbox/SandboxButton';
 import { PageContainer } from '@/components/layout/PageContainer';
+import { CandidateBanner } from '@/components/interview/CandidateBanner';
+import { OfferedHintsPanel } from '@/components/interview/OfferedHintsPanel';
 import type { Challenge } from '@/types/challenge';
+import type { Attempt, TestRun } from '@/types/progress';
 
 interface ChallengeViewProps {
   challenge: Challenge;
+  attempts: Attempt[];
   onBack: () => void;
-  onComplete: (seconds: number) => void;
-  isCompleted: boolean;
+  onSaveAttempt: (attempt: Attempt) => void;
+  /** 'interview' hides the solution material and links up with an interviewer tab */
+  mode?: 'practice' | 'interview';
+  onStartInterview?: () => void;
 }
 
-export function ChallengeView({ challenge, onBack, onComplete, isCompleted }: ChallengeViewProps) {
-  const timer = useTimer();
+export function ChallengeView({
+  challenge,
+  attempts,
+  onBack,
+  onSaveAttempt,
+  mode = 'practice',
+  onStartInterview,
+}: ChallengeViewProps) {
+  const { settings, updateSettings } = useSettings();
+  const timer = useTimer({
+    challengeId: challenge.id,
+    autoPauseWhenHidden: settings.autoPauseWhenHidden,
+    idlePauseMinutes: settings.idlePauseMinutes,
+  });
+  const {
+    attempt,
+    resumed,
+    revealNextHint,
+    markSolutionRevealed,
+    addTestRun,
+    setCheckedRequirements,
+    complete,
+    assess,
+    restart,
+  } = useAttempt(challenge.id, timer.seconds, onSaveAttempt);
+  const checklist = useRequirementChecklist(challenge.id);
+  // The sitting's own status drives its flow; the badge reflects saved progress
+  const isCompleted = attempt.status === 'completed';
+  const isSolved = useIsCompleted(challenge.id);
+  const [showCountdownSetup, setShowCountdownSetup] = useState(false);
+  const [timeUpAcknowledged, setTimeUpAcknowledged] = useState(false);
+  const [confirmingComplete, setConfirmingComplete] = useState(false);
+  // Hints opened while reviewing a finished attempt don't count as assistance
+  const [reviewReveals, setReviewReveals] = useState<number[]>([]);
+  const revealLocked = timer.isTimeUp && !timeUpAcknowledged && !isCompleted;
 
-  // Auto-start timer on mount, reset on challenge change
+  // A reload resumes the sitting as it was left. Otherwise the stored clock
+  // belongs to an attempt that has ended, so start a fresh one
   useEffect(() => {
-    timer.reset();
-    timer.start();
+    if (!resumed) {
+      checklist.reset();
+      timer.reset();
+    }
+    if (!resumed || timer.log.length === 0) timer.start();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [challenge.id]);
 
+  useEffect(() => {
+    setCheckedRequirements(checklist.checked);
+  }, [checklist.checked, setCheckedRequirements]);
+
+  // Read through a ref so the handler stays stable and SandboxButton's memo holds
+  const autoComplete = useRef(settings.autoCompleteOnPass);
+  autoComplete.current = settings.autoCompleteOnPass;
+
+  // Freeze the clock on completion so the final time stays on screen
+  const pauseTimer = timer.pause;
+  const handleComplete = useCallback(() => {
+    complete();
+    pauseTimer();
+  }, [complete, pauseTimer]);
+
+  const tickRequirements = checklist.tick;
+  const requirementTests = challenge.requirementTests;
+  const handleTestRun = useCallback((run: TestRun) => {
+    addTestRun(run);
+    tickRequirements(verifiedRequirements(requirementTests, run));
+    if (autoComplete.current && isFullPass(run)) handleComplete();
+  }, [addTestRun, tickRequirements, requirementTests, handleComplete]);
+
+  const unchecked = challenge.requirements.filter((_, i) => !checklist.checked.includes(i));
+
+  const handleMarkComplete = () => {
+    if (!isCompleted && unchecked.length > 0) setConfirmingComplete(true);
+    else handleComplete();
+  };
+
+  const handleRevealHint = () => {
+    if (isCompleted) setReviewReveals((prev) => [...prev, timer.seconds]);
+    else revealNextHint();
+  };
+
+  const handleRestart = () => {
+    restart();
+    checklist.reset();
+    setReviewReveals([]);
+    timer.reset();
+    timer.start();
+  };
+
+  const handleStartCountdown = (minutes: number, warningMinutes: number[]) => {
+    const seconds = Math.round(minutes * 60);
+    restart(seconds);
+    checklist.reset();
+    setReviewReveals([]);
+    timer.startCountdown(seconds);
+    setTimeUpAcknowledged(false);
+    setShowCountdownSetup(false);
+    updateSettings({ countdownWarningMinutes: warningMinutes });
+  };
+
+  const countdown = timer.remaining === null ? null : {
+    remaining: timer.remaining,
+    warning: activeWarning(timer.remaining, settings.countdownWarningMinutes.map((m) => m * 60)),
+  };
+
+  // The built-in engine has no network, so a challenge needing other packages stays on Sandpack
+  const missingPackages = useMemo(
+    () => unbundledPackages(challenge.starterCode, challenge.solutionCode, challenge.testCode ?? ''),
+    [challenge],
+  );
+  const canRunOffline = missingPackages.length === 0;
+  const sandboxEngine = canRunOffline ? settings.sandboxEngine : 'sandpack';
+
+  const lastTestRun = attempt.testRuns[attempt.testRuns.length - 1];
+  const isInterview = mode === 'interview';
+  const interview = useCandidateLink(
+    isInterview ? challenge.id : null,
+    { seconds: timer.seconds, isActive: timer.isActive, remaining: timer.remaining, isCompleted, lastTestRun },
+    pauseTimer,
+  );
+  // A hint the interviewer offers counts as assistance, same as one revealed in practice
+  const offeredCount = interview.offeredHints.length;
+  const revealedCount = attempt.hintReveals?.length ?? 0;
+  useEffect(() => {
+    if (isInterview && offeredCount > revealedCount) revealNextHint();
+  }, [isInterview, offeredCount, revealedCount, revealNextHint]);
+
+  // Reviewing a finished attempt needs neither the gate nor the confirmation
+  const gateActive = settings.gateSolution && !isCompleted;
+  const gate = solutionGate({
+    enabled: gateActive,
+    minMinutes: settings.solutionGateMinutes,
+    elapsedSeconds: timer.seconds,
+    testRunCount: attempt.testRuns.length,
+  });
+  let solutionLockedLabel: string | undefined;
+  if (revealLocked) solutionLockedLabel = '🔒 Solution locked — time is up';
+  else if (!gate.open) solutionLockedLabel = `🔒 Solution unlocks in ${formatTime(gate.secondsLeft)} or after a test run`;
+
+  const priorAttempts = attempts.filter((a) => a.id !== attempt.id);
+
   return (
     <div className="bg-bg min-h-screen pb-0">
       <TopBar
         onBack={onBack}
-        timer={formatTime(timer.seconds)}
+        elapsedSeconds={timer.seconds}
+        estimate={challenge.timeEstimate}
+        countdown={countdown}
+        onOpenCountdown={() => setShowCountdownSetup(true)}
         isTimerActive={timer.isActive}
         onToggleTimer={timer.toggle}
-        onComplete={() => onComplete(timer.seconds)}
+        onComplete={handleMarkComplete}
         isCompleted={isCompleted}
+        wasSolved={isSolved}
+        uncheckedCount={unchecked.length}
       />
       <PageContainer>
         <ChallengeHeader challenge={challenge} />
-        <RequirementsList requirements={challenge.requirements} />
+        {isInterview && <CandidateBanner challengeId={challenge.id} ended={interview.ended} />}
+        {!isInterview && onStartInterview && (
+          <button
+            onClick={onStartInterview}
+            className="mt-4 text-xs text-purple border border-purple/40 hover:border-purple px-3 py-1.5 rounded
+                       transition-colors cursor-pointer bg-transparent font-[inherit]"
+          >
+            🎙 Run as mock interview
+          </button>
+        )}
+        <AttemptHistory
+          attempts={priorAttempts}
+          isCurrentCompleted={isCompleted}
+          onRestart={handleRestart}
+        />
+        <TimerSessionPanel
+          log={timer.log}
+          autoPauseWhenHidden={settings.autoPauseWhenHidden}
+          idlePauseMinutes={settings.idlePauseMinutes}
+          onChange={updateSettings}
+        />
+        <RequirementsList
+          requirements={challenge.requirements}
+          checked={checklist.checked}
+          verified={verifiedRequirements(challenge.requirementTests, lastTestRun)}
+          onToggle={checklist.toggle}
+        />
+        {isCompleted && !isInterview && (
+          <SelfAssessmentPanel
+            key={attempt.id}
+            rubric={challengeRubric(challenge)}
+            assessment={attempt.assessment}
+            onAssess={assess}
+          />
+        )}
+        {challenge.contract && (
+          <div className="pt-5">
+            <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+              Expected API
+            </h3>
+            <CodeBlock code={challenge.contract} language="ts" />
+          </div>
+        )}
         <div className="pt-5">
           <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
             Starter Code
           </h3>
           <CodeBlock code={challenge.starterCode} />
-          <SandboxButton code={challenge.starterCode} testCode={challenge.testCode} />
+          <SandboxButton
+            challengeId={challenge.id}
+            variant="starter"
+            code={challenge.starterCode}
+            testCode={challenge.testCode}
+            demoEntry={challenge.demoEntry}
+            engine={sandboxEngine}
+            contract={challenge.contract}
+            typeCheck={settings.typeCheck}
+            onTestRun={handleTestRun}
+          />
+          {challenge.testCode && (
+            <>
+              {canRunOffline && (
+                <RunTestsButton
+                  challengeId={challenge.id}
+                  starterCode={challenge.starterCode}
+                  testCode={challenge.testCode}
+                  onTestRun={handleTestRun}
+                />
+              )}
+              <label className="mt-3 flex items-center gap-2 text-xs text-muted font-ui cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.autoCompleteOnPass}
+                  onChange={(e) => updateSettings({ autoCompleteOnPass: e.target.checked })}
+                  className="accent-accent"
+                />
+                Mark complete automatically when all tests pass
+              </label>
+              <label
+                className={cn(
+                  'mt-2 flex items-center gap-2 text-xs text-muted font-ui',
+                  canRunOffline ? 'cursor-pointer' : 'opacity-60 cursor-default',
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={sandboxEngine === 'local'}
+                  disabled={!canRunOffline}
+                  onChange={(e) => updateSettings({ sandboxEngine: e.target.checked ? 'local' : 'sandpack' })}
+                  className="accent-accent"
+                />
+                Run tests offline with the built-in engine (no preview)
+              </label>
+              {!canRunOffline && (
+                <p className="mt-1 mb-0 ml-6 text-xs text-muted font-ui">
+                  Needs {missingPackages.join(', ')}, which the offline engine doesn't bundle, so this challenge runs in Sandpack.
+                </p>
+              )}
+              <label className="mt-2 flex items-center gap-2 text-xs text-muted font-ui cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.typeCheck}
+                  onChange={(e) => updateSettings({ typeCheck: e.target.checked })}
+                  className="accent-accent"
+                />
+                Type-check the editor with TypeScript{challenge.contract && ' against the expected API'}
+              </label>
+            </>
+          )}
+          {lastTestRun && <TestRunSummary run={lastTestRun} />}
         </div>
-        <HintsPanel keyPoints={challenge.keyPoints} />
-        <SolutionPanel solutionCode={challenge.solutionCode} testCode={challenge.testCode} followUp={challenge.followUp} />
+        {isInterview ? (
+          <OfferedHintsPanel keyPoints={challenge.keyPoints} offered={interview.offeredHints} />
+        ) : (
+          <>
+            <HintsPanel
+              keyPoints={challenge.keyPoints}
+              reveals={[...(attempt.hintReveals ?? []), ...reviewReveals]}
+              onRevealNext={handleRevealHint}
+              locked={revealLocked}
+            />
+            <NotesPanel challengeId={challenge.id} />
+            <SolutionGateSettings
+              enabled={settings.gateSolution}
+              minMinutes={settings.solutionGateMinutes}
+              onChange={updateSettings}
+            />
+            <SolutionPanel
+              challengeId={challenge.id}
+              solutionCode={challenge.solutionCode}
+              starterCode={challenge.starterCode}
+              testCode={challenge.testCode}
+              demoEntry={challenge.demoEntry}
+              sandboxEngine={sandboxEngine}
+              followUp={challenge.followUp}
+              walkthrough={challenge.walkthrough}
+              onReveal={markSolutionRevealed}
+              lockedLabel={solutionLockedLabel}
+              confirmReveal={gateActive}
+            />
+          </>
+        )}
       </PageContainer>
+
+      {confirmingComplete && (
+        <UncheckedRequirementsDialog
+          requirements={unchecked}
+          onConfirm={() => {
+            setConfirmingComplete(false);
+            handleComplete();
+          }}
+          onCancel={() => setConfirmingComplete(false)}
+        />
+      )}
+      {showCountdownSetup && (
+        <CountdownSetupDialog
+          defaultMinutes={estimateMinutes(challenge.timeEstimate)}
+          warningMinutes={settings.countdownWarningMinutes}
+          onStart={handleStartCountdown}
+          onCancel={() => setShowCountdownSetup(false)}
+        />
+      )}
+      {revealLocked && timer.durationSeconds !== null && (
+        <TimeUpDialog
+          durationSeconds={timer.durationSeconds}
+          overrunSeconds={timer.seconds - timer.durationSeconds}
+          onAcknowledge={() => setTimeUpAcknowledged(true)}
+        />
+      )}
     </div>
   );
 }
@@ -1,14 +1,22 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { ALL_CHALLENGES } from '@/data/challenges';
-import { useProgress } from '@/hooks/useProgress';
+import { useAttempts, useProgressActions, useStorageIssue } from '@/hooks/useProgress';
 import { ChallengeView } from './ChallengeView';
+import { StorageRecoveryBanner } from '@/components/progress/StorageRecoveryBanner';
+import { clearInterview } from '@/utils/interview';
 
-export function ChallengeViewRoute() {
+interface ChallengeViewRouteProps {
+  mode?: 'practice' | 'interview';
+}
+
+export function ChallengeViewRoute({ mode = 'practice' }: ChallengeViewRouteProps) {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { completedIds, markComplete } = useProgress(ALL_CHALLENGES.length);
+  const { recordAttempt, dismissStorageIssue } = useProgressActions();
+  const storageIssue = useStorageIssue();
 
   const challenge = ALL_CHALLENGES.find((c) => c.id === Number(id));
+  const attempts = useAttempts(challenge?.id ?? 0);
 
   if (!challenge) {
     return (
@@ -27,11 +35,21 @@ export function ChallengeViewRoute() {
   }
 
   return (
-    <ChallengeView
-      challenge={challenge}
-      onBack={() => navigate('/')}
-      onComplete={(seconds: number) => markComplete(challenge.id, seconds)}
-      isCompleted={completedIds.has(challenge.id)}
-    />
+    <>
+      {storageIssue && <StorageRecoveryBanner issue={storageIssue} onDismiss={dismissStorageIssue} />}
+      <ChallengeView
+        key={challenge.id}
+        challenge={challenge}
+        attempts={attempts}
+        onBack={() => navigate('/')}
+        onSaveAttempt={recordAttempt}
+        mode={mode}
+        onStartInterview={() => {
+          // Leaving practice ends its sitting, so only the interview rubric needs clearing
+          clearInterview(challenge.id);
+          navigate(`/interview/${challenge.id}`);
+        }}
+      />
+    </>
   );
 }
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+
+interface CountdownSetupDialogProps {
+  defaultMinutes: number;
+  warningMinutes: number[];
+  onStart: (minutes: number, warningMinutes: number[]) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = `mt-1 w-full bg-bg border border-border rounded-md px-2.5 py-1.5 text-[13px] text-text
+  font-[inherit] outline-none focus:border-accent`;
+
+function parseWarnings(text: string): number[] {
+  const values = text.split(',').map((part) => Number(part.trim())).filter((n) => Number.isFinite(n) && n > 0);
+  return [...new Set(values)].sort((a, b) => b - a);
+}
+
+export function CountdownSetupDialog({ defaultMinutes, warningMinutes, onStart, onCancel }: CountdownSetupDialogProps) {
+  const [minutes, setMinutes] = useState(String(defaultMinutes));
+  const [warnings, setWarnings] = useState(warningMinutes.join(', '));
+  const duration = Number(minutes);
+  const isValid = Number.isFinite(duration) && duration > 0;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="countdown-dialog-title"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isValid) onStart(duration, parseWarnings(warnings));
+        }}
+        className="bg-surface border border-border rounded-lg p-6 w-full max-w-[400px] font-ui"
+      >
+        <h2 id="countdown-dialog-title" className="m-0 mb-1 text-base font-bold text-[#f0f0f8]">
+          Interview countdown
+        </h2>
+        <p className="m-0 mb-4 text-xs text-muted leading-normal">
+          Starts a fresh attempt against the clock. When time runs out, hints and the solution stay locked until you
+          acknowledge it.
+        </p>
+
+        <div className="flex flex-col gap-3 mb-5 text-xs text-muted">
+          <label>
+            Duration (minutes)
+            <input
+              type="number"
+              min={1}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label>
+            Warn at (minutes left, comma-separated)
+            <input value={warnings} onChange={(e) => setWarnings(e.target.value)} className={INPUT_CLASS} />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-[13px] text-muted border border-border px-4 py-1.5 rounded-md cursor-pointer bg-transparent font-[inherit]"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="text-[13px] font-semibold border px-4 py-1.5 rounded-md cursor-pointer font-[inherit]
+                       bg-accent text-bg border-accent disabled:opacity-60"
+          >
+            Start countdown
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { diffLines, diffStats, toSplitRows, type DiffLine } from '@/utils/diff';
+import { useHighlightedLines } from '@/hooks/useHighlightedLines';
+import type { ThemedToken } from 'shiki';
+
+interface DiffViewProps {
+  oldCode: string;
+  newCode: string;
+  oldLabel: string;
+  newLabel: string;
+}
+
+type DiffMode = 'unified' | 'split';
+
+const ROW_STYLES: Record<DiffLine['op'], string> = {
+  equal: '',
+  add: 'bg-accent/10',
+  remove: 'bg-error/10',
+};
+
+const MARKERS: Record<DiffLine['op'], string> = { equal: ' ', add: '+', remove: '-' };
+
+// Falls back to plain text until Shiki has tokenized that side
+function LineCode({ text, tokens }: { text: string; tokens?: ThemedToken[] }) {
+  if (!tokens) return <>{text}</>;
+  return <>{tokens.map((t, i) => <span key={i} style={{ color: t.color }}>{t.content}</span>)}</>;
+}
+
+const lineTokens = (tokens: ThemedToken[][] | null, lineNumber?: number) =>
+  lineNumber === undefined ? undefined : tokens?.[lineNumber - 1];
+
+function Gutter({ value }: { value?: number }) {
+  return <td className="w-10 pr-2 text-right text-[#555] select-none align-top tabular-nums">{value ?? ''}</td>;
+}
+
+export function DiffView({ oldCode, newCode, oldLabel, newLabel }: DiffViewProps) {
+  const [mode, setMode] = useState<DiffMode>('unified');
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(false);
+  const lines = useMemo(() => diffLines(oldCode, newCode, { ignoreWhitespace }), [oldCode, newCode, ignoreWhitespace]);
+  const rows = useMemo(() => toSplitRows(lines), [lines]);
+  const { added, removed } = diffStats(lines);
+  const oldTokens = useHighlightedLines(oldCode);
+  const newTokens = useHighlightedLines(newCode);
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 bg-surface-2 border-b border-border font-ui text-xs">
+        <span className="text-muted">
+          {oldLabel} → {newLabel}
+          <span className="ml-2 text-accent">+{added}</span>
+          <span className="ml-1.5 text-error">−{removed}</span>
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-muted cursor-pointer">
+            <input
+              type="checkbox"
+              checked={ignoreWhitespace}
+              onChange={(e) => setIgnoreWhitespace(e.target.checked)}
+              className="accent-accent"
+            />
+            Ignore whitespace
+          </label>
+          <div role="group" aria-label="Diff layout" className="flex">
+            {(['unified', 'split'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                aria-pressed={mode === m}
+                className={cn(
+                  'px-2 py-0.5 border border-border first:rounded-l last:rounded-r cursor-pointer font-[inherit] capitalize',
+                  mode === m ? 'bg-accent/15 text-accent border-accent/50' : 'bg-transparent text-muted',
+                )}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto bg-[#0d0d18] py-2">
+        <table className="w-full border-collapse font-mono text-[12px] leading-relaxed">
+          <tbody>
+            {mode === 'unified'
+              ? lines.map((line, i) => (
+                <tr key={i} className={ROW_STYLES[line.op]}>
+                  <Gutter value={line.oldNumber} />
+                  <Gutter value={line.newNumber} />
+                  <td className="w-4 text-muted select-none">{MARKERS[line.op]}</td>
+                  <td className="pr-4 whitespace-pre text-[#abb2bf]">
+                    <LineCode
+                      text={line.text}
+                      tokens={line.op === 'remove' ? lineTokens(oldTokens, line.oldNumber) : lineTokens(newTokens, line.newNumber)}
+                    />
+                  </td>
+                </tr>
+              ))
+              : rows.map(({ left, right }, i) => (
+                <tr key={i}>
+                  <Gutter value={left?.oldNumber} />
+                  <td className={cn('w-1/2 pr-4 whitespace-pre text-[#abb2bf] border-r border-border', left && ROW_STYLES[left.op])}>
+                    {left && <LineCode text={left.text} tokens={lineTokens(oldTokens, left.oldNumber)} />}
+                  </td>
+                  <Gutter value={right?.newNumber} />
+                  <td className={cn('w-1/2 pr-4 whitespace-pre text-[#abb2bf]', right && ROW_STYLES[right.op])}>
+                    {right && <LineCode text={right.text} tokens={lineTokens(newTokens, right.newNumber)} />}
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
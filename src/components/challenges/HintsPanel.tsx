@@ -1,32 +1,48 @@
-import { useState } from 'react';
-import { RevealToggle } from '@/components/ui/RevealToggle';
+import { cn } from '@/utils/cn';
+import { formatTime } from '@/utils/time';
 
 interface HintsPanelProps {
   keyPoints: string[];
+  /** Timer seconds at each reveal so far */
+  reveals: number[];
+  onRevealNext: () => void;
+  /** Blocks further reveals — e.g. until a time's-up prompt is acknowledged */
+  locked?: boolean;
 }
 
-export function HintsPanel({ keyPoints }: HintsPanelProps) {
-  const [isOpen, setIsOpen] = useState(false);
+export function HintsPanel({ keyPoints, reveals, onRevealNext, locked = false }: HintsPanelProps) {
+  const shown = Math.min(reveals.length, keyPoints.length);
+  const hasMore = shown < keyPoints.length;
 
   return (
     <div className="pt-5">
-      <RevealToggle
-        isOpen={isOpen}
-        onToggle={() => setIsOpen(!isOpen)}
-        label={isOpen ? 'Hide Hints' : 'Show Hints'}
-      />
-      {isOpen && (
-        <div className="bg-surface-2 border border-border rounded-lg p-4 flex flex-col gap-3">
-          {keyPoints.map((point, i) => (
+      {shown > 0 && (
+        <div className="bg-surface-2 border border-border rounded-lg p-4 mb-3 flex flex-col gap-3">
+          {keyPoints.slice(0, shown).map((point, i) => (
             <div key={i} className="flex gap-3 text-[13px] text-[#bbb] leading-normal font-ui">
               <span className="text-warning font-bold text-xs shrink-0 w-[18px] h-[18px] flex items-center justify-center bg-warning/10 rounded mt-0.5">
                 {i + 1}
               </span>
-              <span>{point}</span>
+              <span className="flex-1">{point}</span>
+              <span className="text-[11px] text-muted tabular-nums shrink-0" title="Timer when revealed">
+                {formatTime(reveals[i]!)}
+              </span>
             </div>
           ))}
         </div>
       )}
+      {hasMore && (
+        <button
+          onClick={onRevealNext}
+          disabled={locked}
+          className={cn(
+            'w-full text-center py-2.5 px-5 rounded-md border text-sm font-semibold transition-all mb-3 cursor-pointer font-[inherit]',
+            'bg-white/[0.04] border-border text-muted disabled:opacity-50 disabled:cursor-not-allowed',
+          )}
+        >
+          {locked ? '🔒 Hints locked — time is up' : `Show ${shown === 0 ? 'a' : 'next'} hint ${shown + 1}/${keyPoints.length}`}
+        </button>
+      )}
     </div>
   );
 }
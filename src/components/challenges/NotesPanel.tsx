@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { loadNote, saveNote } from '@/utils/notes';
+
+interface NotesPanelProps {
+  challengeId: number;
+}
+
+export function NotesPanel({ challengeId }: NotesPanelProps) {
+  const [text, setText] = useState(() => loadNote(challengeId));
+
+  useEffect(() => {
+    setText(loadNote(challengeId));
+  }, [challengeId]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    saveNote(challengeId, value);
+  };
+
+  return (
+    <div className="pt-5">
+      <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+        My Notes
+      </h3>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="Gotchas, edge cases, things to revisit…"
+        rows={3}
+        className="w-full bg-surface border border-border rounded-md px-3 py-2 text-sm text-text leading-relaxed
+                   placeholder:text-muted focus:outline-none focus:border-accent transition-colors font-ui resize-y"
+      />
+    </div>
+  );
+}
@@ -1,20 +1,44 @@
+import { cn } from '@/utils/cn';
+
 interface RequirementsListProps {
   requirements: string[];
+  checked: number[];
+  /** Indices whose mapped tests passed in the latest run */
+  verified?: number[];
+  onToggle: (index: number) => void;
 }
 
-export function RequirementsList({ requirements }: RequirementsListProps) {
+export function RequirementsList({ requirements, checked, verified = [], onToggle }: RequirementsListProps) {
   return (
     <div className="pt-5">
       <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
         Requirements
+        <span className="ml-2 normal-case tracking-normal font-normal text-muted">
+          {checked.length}/{requirements.length}
+        </span>
       </h3>
       <div className="flex flex-col gap-2">
-        {requirements.map((r, i) => (
-          <div key={i} className="flex gap-2.5 text-sm text-[#ccc] leading-normal font-ui">
-            <span className="text-accent font-bold shrink-0">→</span>
-            <span>{r}</span>
-          </div>
-        ))}
+        {requirements.map((r, i) => {
+          const isChecked = checked.includes(i);
+          return (
+            <label key={i} className="flex gap-2.5 text-sm leading-normal font-ui cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isChecked}
+                onChange={() => onToggle(i)}
+                className="accent-accent mt-1 shrink-0"
+              />
+              <span className={cn('flex-1', isChecked ? 'text-muted line-through decoration-muted/50' : 'text-[#ccc]')}>
+                {r}
+              </span>
+              {verified.includes(i) && (
+                <span title="Verified by passing tests" className="shrink-0 text-[11px] font-semibold text-accent">
+                  ✓ tests
+                </span>
+              )}
+            </label>
+          );
+        })}
       </div>
     </div>
   );
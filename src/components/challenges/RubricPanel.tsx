@@ -0,0 +1,62 @@
+import { cn } from '@/utils/cn';
+import type { RubricCriterion } from '@/types/challenge';
+
+interface RubricPanelProps {
+  title: string;
+  criteria: RubricCriterion[];
+  /** Chosen level index per criterion id */
+  levels: Record<string, number>;
+  onLevel: (criterionId: string, level: number) => void;
+  comments?: Record<string, string>;
+  onComment?: (criterionId: string, text: string) => void;
+}
+
+export function RubricPanel({ title, criteria, levels, onLevel, comments, onComment }: RubricPanelProps) {
+  return (
+    <div className="pt-5">
+      <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+        {title}
+      </h3>
+      <ol className="m-0 p-0 list-none flex flex-col gap-4">
+        {criteria.map((criterion) => (
+          <li key={criterion.id} className="bg-surface border border-border rounded-lg p-3.5 font-ui">
+            <p className="m-0 mb-2.5 text-[13px] text-[#ccc] leading-normal">
+              {criterion.label}
+              {criterion.weight !== undefined && criterion.weight !== 1 && (
+                <span className="ml-2 text-[11px] text-muted">×{criterion.weight}</span>
+              )}
+            </p>
+            <div role="radiogroup" aria-label={criterion.label} className="flex flex-wrap gap-1.5">
+              {criterion.levels.map((label, level) => (
+                <button
+                  key={level}
+                  role="radio"
+                  aria-checked={levels[criterion.id] === level}
+                  onClick={() => onLevel(criterion.id, level)}
+                  className={cn(
+                    'text-[11px] px-2 py-1 rounded border cursor-pointer font-[inherit] transition-colors',
+                    levels[criterion.id] === level
+                      ? 'bg-accent/15 border-accent text-accent'
+                      : 'bg-transparent border-border text-muted hover:border-accent/50',
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {onComment && (
+              <input
+                value={comments?.[criterion.id] ?? ''}
+                onChange={(e) => onComment(criterion.id, e.target.value)}
+                placeholder="Evidence or comment…"
+                aria-label={`Comment on ${criterion.label}`}
+                className="mt-2.5 w-full bg-bg border border-border rounded-md px-2.5 py-1.5 text-xs text-text
+                           placeholder:text-muted outline-none focus:border-accent font-[inherit]"
+              />
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
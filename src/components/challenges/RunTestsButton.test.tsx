@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RunTestsButton } from './RunTestsButton';
+
+const run = vi.fn();
+
+vi.mock('@/hooks/useLocalTestRunner', () => ({
+  useLocalTestRunner: () => ({ run, isRunning: false, lastRun: null }),
+}));
+
+vi.mock('@/utils/sandboxCode', () => {
+  throw new Error('Failed to fetch dynamically imported module');
+});
+
+describe('RunTestsButton', () => {
+  it('reports a wrapper chunk that fails to load as a failed run', async () => {
+    localStorage.clear();
+    const onTestRun = vi.fn();
+    render(<RunTestsButton challengeId={1} starterCode="const a = 1;" testCode="" onTestRun={onTestRun} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '✓ Run tests' }));
+    await waitFor(() => expect(onTestRun).toHaveBeenCalled());
+    expect(onTestRun.mock.calls[0]![0].results[0].error).toMatch(/Couldn't load the code wrapper/);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { useLocalTestRunner } from '@/hooks/useLocalTestRunner';
+import { loadDraft } from '@/utils/drafts';
+import { createTestRun, suiteFailure } from '@/utils/testResults';
+import type { TestRun } from '@/types/progress';
+
+interface RunTestsButtonProps {
+  challengeId: number;
+  starterCode: string;
+  testCode: string;
+  onTestRun: (run: TestRun) => void;
+}
+
+/** Runs the saved draft (or the starter) against the tests without opening the sandbox */
+export function RunTestsButton({ challengeId, starterCode, testCode, onTestRun }: RunTestsButtonProps) {
+  const { run, isRunning } = useLocalTestRunner(onTestRun);
+
+  const handleClick = async () => {
+    // Drafts already hold the wrapped sandbox file; wrapping needs Babel, so it's loaded on demand
+    const draft = loadDraft(challengeId, 'starter');
+    let code: string;
+    try {
+      code = draft?.code ?? (await import('@/utils/sandboxCode')).exportWrapped(starterCode);
+    } catch (error) {
+      // The chunk can fail to load offline or after a deploy replaced it
+      const reason = error instanceof Error ? error.message : String(error);
+      onTestRun(createTestRun([suiteFailure(`Couldn't load the code wrapper: ${reason}`)]));
+      return;
+    }
+    void run(code, testCode);
+  };
+
+  return (
+    <button
+      onClick={() => void handleClick()}
+      disabled={isRunning}
+      title="Runs your last saved draft, or the starter code if there isn't one"
+      className="mt-3 ml-2 inline-flex items-center gap-2 bg-transparent border border-border text-muted
+                 text-sm font-semibold px-4 py-2 rounded-md cursor-pointer transition-all
+                 hover:text-text hover:border-muted font-[inherit] disabled:opacity-50 disabled:cursor-default"
+    >
+      {isRunning ? 'Running tests…' : '✓ Run tests'}
+    </button>
+  );
+}
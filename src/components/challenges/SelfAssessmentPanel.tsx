@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { createAssessment, weightedScore } from '@/utils/rubric';
+import { RubricPanel } from './RubricPanel';
+import type { RubricCriterion } from '@/types/challenge';
+import type { RubricAssessment } from '@/types/progress';
+
+interface SelfAssessmentPanelProps {
+  rubric: RubricCriterion[];
+  assessment?: RubricAssessment;
+  onAssess: (assessment: RubricAssessment) => void;
+}
+
+export function SelfAssessmentPanel({ rubric, assessment, onAssess }: SelfAssessmentPanelProps) {
+  const [levels, setLevels] = useState<Record<string, number>>(assessment?.levels ?? {});
+  const score = weightedScore(rubric, levels);
+
+  const handleLevel = (criterionId: string, level: number) => {
+    const next = { ...levels, [criterionId]: level };
+    setLevels(next);
+    onAssess(createAssessment(rubric, next));
+  };
+
+  return (
+    <div className="mt-2 bg-surface-2 border border-accent/20 rounded-lg px-4 pb-4">
+      <RubricPanel title="Self-assessment" criteria={rubric} levels={levels} onLevel={handleLevel} />
+      <p className="mt-3 mb-0 text-xs text-muted font-ui">
+        {score === null
+          ? 'Rate how well your solution meets each criterion.'
+          : <>Weighted score <span className="font-bold text-accent tabular-nums">{score}%</span></>}
+      </p>
+    </div>
+  );
+}
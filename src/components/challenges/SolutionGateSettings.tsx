@@ -0,0 +1,48 @@
+interface SolutionGateSettingsProps {
+  enabled: boolean;
+  minMinutes: number;
+  onChange: (patch: { gateSolution?: boolean; solutionGateMinutes?: number }) => void;
+}
+
+const MINUTE_OPTIONS = [0, 5, 10, 15, 20];
+
+export function SolutionGateSettings({ enabled, minMinutes, onChange }: SolutionGateSettingsProps) {
+  return (
+    <details className="pt-5 group">
+      <summary className="cursor-pointer list-none text-[13px] font-bold uppercase tracking-widest text-[#555]">
+        Solution Gating
+        <span className="normal-case tracking-normal font-normal">
+          {' '}· {enabled ? `${minMinutes} min or a test run` : 'off'}
+        </span>
+        <span className="ml-1.5 text-[10px] group-open:hidden">▼</span>
+        <span className="ml-1.5 text-[10px] hidden group-open:inline">▲</span>
+      </summary>
+
+      <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2 text-xs text-muted font-ui">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onChange({ gateSolution: e.target.checked })}
+            className="accent-accent"
+          />
+          Gate and confirm solution reveals
+        </label>
+        <label className="flex items-center gap-2">
+          Unlock after
+          <select
+            value={minMinutes}
+            disabled={!enabled}
+            onChange={(e) => onChange({ solutionGateMinutes: Number(e.target.value) })}
+            className="bg-surface border border-border rounded px-1.5 py-0.5 text-xs text-muted font-[inherit] disabled:opacity-50"
+          >
+            {MINUTE_OPTIONS.map((m) => (
+              <option key={m} value={m}>{m === 0 ? 'no wait' : `${m} min`}</option>
+            ))}
+          </select>
+          or the first test run
+        </label>
+      </div>
+    </details>
+  );
+}
@@ -1,29 +1,151 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { RevealToggle } from '@/components/ui/RevealToggle';
 import { CodeBlock } from '@/components/ui/CodeBlock';
 import { SandboxButton } from '@/components/sandbox/SandboxButton';
+import { cn } from '@/utils/cn';
+import { loadDraft } from '@/utils/drafts';
+import { SolutionRevealDialog } from './SolutionRevealDialog';
+import { DiffView } from './DiffView';
+import { WalkthroughStepper } from './WalkthroughStepper';
+import { stepRange } from '@/utils/walkthrough';
+import type { WalkthroughStep } from '@/types/challenge';
+import type { SandboxEngine } from '@/hooks/useSettings';
 
 interface SolutionPanelProps {
+  challengeId: number;
   solutionCode: string;
+  starterCode: string;
   testCode?: string;
+  demoEntry?: string;
+  sandboxEngine?: SandboxEngine;
   followUp: string;
+  walkthrough?: WalkthroughStep[];
+  onReveal?: () => void;
+  /** Why revealing is blocked right now; hiding always works */
+  lockedLabel?: string;
+  /** Ask before revealing, since it marks the attempt */
+  confirmReveal?: boolean;
 }
 
-export function SolutionPanel({ solutionCode, testCode, followUp }: SolutionPanelProps) {
+type SolutionTab = 'solution' | 'walkthrough' | 'draft' | 'starter';
+
+const TABS: Array<{ id: SolutionTab; label: string }> = [
+  { id: 'solution', label: 'Solution' },
+  { id: 'walkthrough', label: 'Walkthrough' },
+  { id: 'draft', label: 'My draft → solution' },
+  { id: 'starter', label: 'Starter → solution' },
+];
+
+export function SolutionPanel({
+  challengeId,
+  solutionCode,
+  starterCode,
+  testCode,
+  demoEntry,
+  sandboxEngine,
+  followUp,
+  walkthrough = [],
+  onReveal,
+  lockedLabel,
+  confirmReveal = false,
+}: SolutionPanelProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [tab, setTab] = useState<SolutionTab>('solution');
+  const [stepIndex, setStepIndex] = useState(0);
+  const step = walkthrough[stepIndex];
+  // Read on render so the comparison reflects the latest save from the sandbox
+  const draft = isOpen ? loadDraft(challengeId, 'starter') : null;
+  const [solutionFile, setSolutionFile] = useState<string | null>(null);
+
+  // Drafts hold the sandbox file, so compare against the solution wrapped the
+  // same way. The wrapper parses with Babel, which stays out of the main chunk
+  const comparingDraft = isOpen && tab === 'draft';
+  useEffect(() => {
+    if (!comparingDraft) return;
+    let current = true;
+    void import('@/utils/sandboxCode').then(({ consoleWrapper, exportWrapped }) => {
+      if (current) setSolutionFile(testCode ? exportWrapped(solutionCode) : consoleWrapper(solutionCode));
+    });
+    return () => {
+      current = false;
+    };
+  }, [comparingDraft, solutionCode, testCode]);
+
+  const reveal = () => {
+    onReveal?.();
+    setIsOpen(true);
+  };
+
+  const handleToggle = () => {
+    if (isOpen) setIsOpen(false);
+    else if (confirmReveal) setConfirming(true);
+    else reveal();
+  };
 
   return (
     <div className="pt-5 pb-10">
       <RevealToggle
         isOpen={isOpen}
-        onToggle={() => setIsOpen(!isOpen)}
-        label={isOpen ? 'Hide Solution' : 'Reveal Solution'}
+        onToggle={handleToggle}
+        label={isOpen ? 'Hide Solution' : lockedLabel ?? 'Reveal Solution'}
+        disabled={lockedLabel !== undefined && !isOpen}
         variant="solution"
       />
       {isOpen && (
         <div>
-          <CodeBlock code={solutionCode} />
-          <SandboxButton code={solutionCode} testCode={testCode} />
+          <div role="tablist" className="flex gap-1.5 mb-3 font-ui">
+            {TABS.filter(({ id }) => id !== 'walkthrough' || walkthrough.length > 0).map(({ id, label }) => {
+              const unavailable = id === 'draft' && !draft;
+              return (
+                <button
+                  key={id}
+                  role="tab"
+                  aria-selected={tab === id}
+                  disabled={unavailable}
+                  title={unavailable ? 'Save a draft in the sandbox to compare it' : undefined}
+                  onClick={() => setTab(id)}
+                  className={cn(
+                    'text-xs px-2.5 py-1 rounded border cursor-pointer font-[inherit] transition-colors',
+                    'disabled:opacity-40 disabled:cursor-not-allowed',
+                    tab === id ? 'bg-accent/15 border-accent/50 text-accent' : 'bg-transparent border-border text-muted',
+                  )}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+          {tab === 'solution' && (
+            <>
+              <CodeBlock code={solutionCode} />
+              <SandboxButton
+                challengeId={challengeId}
+                variant="solution"
+                code={solutionCode}
+                testCode={testCode}
+                demoEntry={demoEntry}
+                engine={sandboxEngine}
+              />
+            </>
+          )}
+          {tab === 'walkthrough' && step && (
+            <>
+              <WalkthroughStepper steps={walkthrough} index={stepIndex} onIndexChange={setStepIndex} />
+              <CodeBlock code={solutionCode} highlight={stepRange(step, solutionCode)} />
+            </>
+          )}
+          {tab === 'draft' && draft && solutionFile !== null && (
+            <DiffView
+              oldCode={draft.code}
+              newCode={solutionFile}
+              oldLabel="My draft"
+              newLabel="Solution"
+            />
+          )}
+          {tab === 'starter' && (
+            <DiffView oldCode={starterCode} newCode={solutionCode} oldLabel="Starter" newLabel="Solution" />
+          )}
           <div className="bg-purple/15 border border-purple/30 rounded-lg p-4 mt-4">
             <h4 className="m-0 mb-2 text-[13px] font-bold text-purple">
               Follow-Up Question
@@ -34,6 +156,15 @@ export function SolutionPanel({ solutionCode, testCode, followUp }: SolutionPane
           </div>
         </div>
       )}
+      {confirming && (
+        <SolutionRevealDialog
+          onConfirm={() => {
+            setConfirming(false);
+            reveal();
+          }}
+          onCancel={() => setConfirming(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,41 @@
+interface SolutionRevealDialogProps {
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function SolutionRevealDialog({ onConfirm, onCancel }: SolutionRevealDialogProps) {
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="solution-reveal-title"
+        aria-describedby="solution-reveal-description"
+        className="bg-surface border border-border rounded-lg p-6 w-full max-w-[400px] font-ui"
+      >
+        <h2 id="solution-reveal-title" className="m-0 mb-2 text-base font-bold text-[#f0f0f8]">
+          Reveal the solution?
+        </h2>
+        <p id="solution-reveal-description" className="m-0 mb-5 text-[13px] text-[#bbb] leading-normal">
+          This attempt will be marked <span className="font-semibold text-warning">solution viewed</span>, and a
+          completion will count as assisted.
+        </p>
+        <div className="flex justify-end gap-2">
+          <button
+            autoFocus
+            onClick={onCancel}
+            className="text-[13px] text-muted border border-border bg-transparent px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Keep trying
+          </button>
+          <button
+            onClick={onConfirm}
+            className="text-[13px] font-semibold border border-error bg-error/10 text-error px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Reveal solution
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { cn } from '@/utils/cn';
+import { isFullPass } from '@/utils/testResults';
+import type { TestRun } from '@/types/progress';
+
+interface TestRunSummaryProps {
+  run: TestRun;
+}
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith('-')) return 'text-accent';
+  if (line.startsWith('+')) return 'text-error';
+  return 'text-muted';
+};
+
+export function TestRunSummary({ run }: TestRunSummaryProps) {
+  const passed = isFullPass(run);
+
+  return (
+    <div className="bg-surface-2 border border-border rounded-lg p-4 mt-3">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className={cn('m-0 text-[13px] font-bold', passed ? 'text-accent' : 'text-error')}>
+          {passed ? '✓ All tests passing' : '✕ Tests failing'} · {run.passed}/{run.total}
+        </h4>
+        <span className="text-xs text-muted">
+          Last run {new Date(run.ranAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      <ul className="m-0 p-0 list-none flex flex-col gap-1.5">
+        {run.results.map((r, i) => (
+          <li key={i} className="text-xs font-ui leading-normal">
+            <div className="flex gap-2">
+              <span className={cn('font-bold shrink-0', r.status === 'pass' ? 'text-accent' : 'text-error')}>
+                {r.status === 'pass' ? '✓' : '✕'}
+              </span>
+              <span className="text-[#bbb] flex-1">{r.name}</span>
+              {r.durationMs !== undefined && <span className="text-muted tabular-nums">{r.durationMs}ms</span>}
+            </div>
+            {r.error && (
+              <pre className="m-0 mt-1 ml-5 text-[11px] text-error/80 whitespace-pre-wrap font-mono">
+                {r.error}
+              </pre>
+            )}
+            {r.diff && (
+              <pre className="m-0 mt-1 ml-5 p-2 text-[11px] bg-bg rounded whitespace-pre-wrap font-mono">
+                {r.diff.split('\n').map((line, j) => (
+                  <div key={j} className={diffLineClass(line)}>{line || ' '}</div>
+                ))}
+              </pre>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { formatTime } from '@/utils/time';
+
+interface TimeUpDialogProps {
+  durationSeconds: number;
+  overrunSeconds: number;
+  onAcknowledge: () => void;
+}
+
+export function TimeUpDialog({ durationSeconds, overrunSeconds, onAcknowledge }: TimeUpDialogProps) {
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="time-up-title"
+        aria-describedby="time-up-description"
+        className="bg-surface border border-error/60 rounded-lg p-6 w-full max-w-[400px] font-ui text-center"
+      >
+        <h2 id="time-up-title" className="m-0 mb-2 text-lg font-bold text-error">
+          ⏰ Time&apos;s up
+        </h2>
+        <p id="time-up-description" className="m-0 mb-5 text-[13px] text-[#bbb] leading-normal">
+          Your {formatTime(durationSeconds)} countdown has ended
+          {overrunSeconds > 0 && <> · <span className="tabular-nums">+{formatTime(overrunSeconds)}</span> over</>}.
+          The timer keeps running so the overrun is recorded with this attempt.
+        </p>
+        <button
+          autoFocus
+          onClick={onAcknowledge}
+          className="text-[13px] font-semibold border border-error bg-error/10 text-error px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+        >
+          Acknowledge &amp; keep going
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import type { PauseReason, TimerEvent } from '@/types/timer';
+
+interface TimerSessionPanelProps {
+  log: TimerEvent[];
+  autoPauseWhenHidden: boolean;
+  idlePauseMinutes: number;
+  onChange: (patch: { autoPauseWhenHidden?: boolean; idlePauseMinutes?: number }) => void;
+}
+
+const IDLE_OPTIONS = [0, 2, 5, 10];
+
+const EVENT_LABELS: Record<TimerEvent['type'], string> = {
+  start: 'Started',
+  pause: 'Paused',
+  resume: 'Resumed',
+};
+
+const REASON_LABELS: Record<PauseReason, string> = {
+  manual: '',
+  hidden: 'tab hidden',
+  idle: 'idle',
+  closed: 'page closed',
+};
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export function TimerSessionPanel({ log, autoPauseWhenHidden, idlePauseMinutes, onChange }: TimerSessionPanelProps) {
+  const pauses = log.filter((e) => e.type === 'pause').length;
+
+  return (
+    <details className="pt-5 group">
+      <summary className="cursor-pointer list-none text-[13px] font-bold uppercase tracking-widest text-[#555]">
+        Timer Session
+        <span className="normal-case tracking-normal font-normal"> · {pauses} {pauses === 1 ? 'pause' : 'pauses'}</span>
+        <span className="ml-1.5 text-[10px] group-open:hidden">▼</span>
+        <span className="ml-1.5 text-[10px] hidden group-open:inline">▲</span>
+      </summary>
+
+      <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2 text-xs text-muted font-ui">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={autoPauseWhenHidden}
+            onChange={(e) => onChange({ autoPauseWhenHidden: e.target.checked })}
+            className="accent-accent"
+          />
+          Pause while this tab is hidden
+        </label>
+        <label className="flex items-center gap-2">
+          Pause when idle for
+          <select
+            value={idlePauseMinutes}
+            onChange={(e) => onChange({ idlePauseMinutes: Number(e.target.value) })}
+            className="bg-surface border border-border rounded px-1.5 py-0.5 text-xs text-muted font-[inherit]"
+          >
+            {IDLE_OPTIONS.map((m) => (
+              <option key={m} value={m}>{m === 0 ? 'never' : `${m} min`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {log.length > 0 && (
+        <ol className="mt-3 mb-0 p-0 list-none text-xs font-ui">
+          {log.map((event, i) => (
+            <li key={i} className="flex gap-3 py-1 border-t border-border text-[#bbb]">
+              <span className="tabular-nums text-muted">{formatClock(event.at)}</span>
+              <span>
+                {EVENT_LABELS[event.type]}
+                {REASON_LABELS[event.reason] && <span className="text-muted"> · {REASON_LABELS[event.reason]}</span>}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+}
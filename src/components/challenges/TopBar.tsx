@@ -1,22 +1,61 @@
 import { cn } from '@/utils/cn';
+import {
+  formatTime,
+  formatEstimate,
+  formatCountdown,
+  estimateStatus,
+  type EstimateStatus,
+} from '@/utils/time';
+import type { TimeEstimate } from '@/types/challenge';
+
+export interface CountdownDisplay {
+  remaining: number;
+  /** Threshold (seconds left) most recently crossed, or null */
+  warning: number | null;
+}
 
 interface TopBarProps {
   onBack: () => void;
-  timer: string;
+  elapsedSeconds: number;
+  estimate: TimeEstimate;
+  countdown: CountdownDisplay | null;
+  onOpenCountdown: () => void;
   isTimerActive: boolean;
   onToggleTimer: () => void;
   onComplete: () => void;
   isCompleted: boolean;
+  /** Saved progress already counts the challenge as solved, e.g. while re-attempting it */
+  wasSolved: boolean;
+  /** Requirements not yet ticked off; completing with any left asks first */
+  uncheckedCount: number;
+}
+
+const TIMER_STYLES: Record<EstimateStatus, string> = {
+  'on-track': 'text-[#f0f0f8]',
+  over: 'text-warning',
+  'well-over': 'text-error',
+};
+
+function countdownStatus({ remaining, warning }: CountdownDisplay): EstimateStatus {
+  if (remaining <= 0) return 'well-over';
+  return warning === null ? 'on-track' : 'over';
 }
 
 export function TopBar({
   onBack,
-  timer,
+  elapsedSeconds,
+  estimate,
+  countdown,
+  onOpenCountdown,
   isTimerActive,
   onToggleTimer,
   onComplete,
   isCompleted,
+  wasSolved,
+  uncheckedCount,
 }: TopBarProps) {
+  const hasUnchecked = !isCompleted && uncheckedCount > 0;
+
   return (
     <div className="sticky top-0 z-10 flex justify-between items-center px-6 py-3.5 bg-surface-2 border-b border-border">
       <button
@@ -27,24 +66,54 @@ export function TopBar({
       </button>
 
       <div className="flex items-center gap-2">
-        <span className="text-lg font-bold text-[#f0f0f8] tabular-nums">{timer}</span>
+        <span
+          className={cn(
+            'text-lg font-bold tabular-nums transition-colors',
+            TIMER_STYLES[countdown ? countdownStatus(countdown) : estimateStatus(elapsedSeconds, estimate)],
+          )}
+        >
+          {countdown ? formatCountdown(countdown.remaining) : formatTime(elapsedSeconds)}
+        </span>
+        <span className="text-xs text-muted">
+          {countdown ? (countdown.remaining >= 0 ? 'left' : 'over') : `/ ${formatEstimate(estimate)}`}
+        </span>
+        {countdown && countdown.warning !== null && countdown.remaining > 0 && (
+          <span role="status" className="text-[11px] font-semibold text-warning bg-warning/10 px-1.5 py-0.5 rounded">
+            ⚠ {Math.round(countdown.warning / 60)} min left
+          </span>
+        )}
         <button
           onClick={onToggleTimer}
           className="bg-transparent border-none text-muted cursor-pointer text-sm px-1.5 py-0.5"
         >
           {isTimerActive ? '⏸' : '▶'}
         </button>
+        <button
+          onClick={onOpenCountdown}
+          title="Interview countdown"
+          aria-label="Interview countdown"
+          className="bg-transparent border-none text-muted cursor-pointer text-sm px-1.5 py-0.5"
+        >
+          ⏳
+        </button>
       </div>
 
-      <button
-        onClick={onComplete}
-        className={cn(
-          'border border-accent px-4 py-1.5 rounded-md cursor-pointer text-[13px] font-semibold font-[inherit] transition-all',
-          isCompleted ? 'bg-accent text-bg' : 'bg-transparent text-accent',
+      <div className="flex items-center gap-3">
+        {wasSolved && !isCompleted && (
+          <span className="text-[11px] font-semibold text-accent bg-accent/10 px-1.5 py-0.5 rounded">✓ Solved before</span>
         )}
-      >
-        {isCompleted ? '✓ Done' : 'Mark Complete'}
-      </button>
+        <button
+          onClick={onComplete}
+          title={hasUnchecked ? `${uncheckedCount} ${uncheckedCount === 1 ? 'requirement' : 'requirements'} unchecked` : undefined}
+          className={cn(
+            'border border-accent px-4 py-1.5 rounded-md cursor-pointer text-[13px] font-semibold font-[inherit] transition-all',
+            isCompleted ? 'bg-accent text-bg' : 'bg-transparent text-accent',
+          )}
+        >
+          {isCompleted ? '✓ Done' : 'Mark Complete'}
+          {hasUnchecked && <span className="ml-2 text-[11px] text-warning">⚠ {uncheckedCount}</span>}
+        </button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,40 @@
+interface UncheckedRequirementsDialogProps {
+  requirements: string[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function UncheckedRequirementsDialog({ requirements, onConfirm, onCancel }: UncheckedRequirementsDialogProps) {
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="unchecked-requirements-title"
+        className="bg-surface border border-warning/60 rounded-lg p-6 w-full max-w-[440px] font-ui"
+      >
+        <h2 id="unchecked-requirements-title" className="m-0 mb-2 text-base font-bold text-warning">
+          {requirements.length} {requirements.length === 1 ? 'requirement is' : 'requirements are'} still unchecked
+        </h2>
+        <ul className="m-0 mb-5 pl-4 flex flex-col gap-1.5 text-[13px] text-[#bbb] leading-normal">
+          {requirements.map((r) => <li key={r}>{r}</li>)}
+        </ul>
+        <div className="flex justify-end gap-2">
+          <button
+            autoFocus
+            onClick={onCancel}
+            className="text-[13px] text-muted border border-border bg-transparent px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Keep working
+          </button>
+          <button
+            onClick={onConfirm}
+            className="text-[13px] font-semibold border border-warning bg-warning/10 text-warning px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Complete anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
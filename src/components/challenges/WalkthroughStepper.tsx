@@ -0,0 +1,40 @@
+import type { WalkthroughStep } from '@/types/challenge';
+
+interface WalkthroughStepperProps {
+  steps: WalkthroughStep[];
+  index: number;
+  onIndexChange: (index: number) => void;
+}
+
+const NAV_BUTTON = `text-xs text-muted hover:text-text border border-border px-2.5 py-1 rounded cursor-pointer
+  bg-transparent font-[inherit] transition-colors disabled:opacity-40 disabled:cursor-not-allowed`;
+
+export function WalkthroughStepper({ steps, index, onIndexChange }: WalkthroughStepperProps) {
+  const step = steps[index];
+  if (!step) return null;
+
+  return (
+    <div className="sticky top-16 z-[5] bg-surface border border-border rounded-lg p-4 mb-3 font-ui">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h4 className="m-0 text-[13px] font-bold text-accent">
+          <span className="text-muted font-normal mr-2 tabular-nums">
+            Step {index + 1}/{steps.length}
+          </span>
+          {step.title}
+        </h4>
+        <div className="flex items-center gap-1.5 shrink-0">
+          <span className="text-[11px] text-muted tabular-nums mr-1">
+            {step.startLine === step.endLine ? `line ${step.startLine}` : `lines ${step.startLine}–${step.endLine}`}
+          </span>
+          <button onClick={() => onIndexChange(index - 1)} disabled={index === 0} className={NAV_BUTTON}>
+            ← Prev
+          </button>
+          <button onClick={() => onIndexChange(index + 1)} disabled={index === steps.length - 1} className={NAV_BUTTON}>
+            Next →
+          </button>
+        </div>
+      </div>
+      <p className="m-0 text-sm text-[#bbb] leading-relaxed">{step.explanation}</p>
+    </div>
+  );
+}
@@ -3,13 +3,17 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { MemoryRouter } from 'react-router-dom';
 import { ChallengeGrid } from '@/components/challenges/ChallengeGrid';
+import { ProgressProvider } from '@/components/progress/ProgressProvider';
 import { ALL_CHALLENGES } from '@/data/challenges';
+import { estimateMinutes } from '@/utils/time';
 
 function renderGrid() {
   return render(
-    <MemoryRouter>
-      <ChallengeGrid />
-    </MemoryRouter>,
+    <ProgressProvider total={ALL_CHALLENGES.length}>
+      <MemoryRouter>
+        <ChallengeGrid />
+      </MemoryRouter>
+    </ProgressProvider>,
   );
 }
 
@@ -77,4 +81,25 @@ describe('FilterBar + Search integration', () => {
     expect(screen.getByText('Showing 0 of 36 challenges')).toBeInTheDocument();
     expect(screen.getByText('No challenges match your filters.')).toBeInTheDocument();
   });
+
+  it('duration filter keeps challenges that fit the time budget', async () => {
+    const user = userEvent.setup();
+    renderGrid();
+
+    await user.click(screen.getByRole('button', { name: '≤ 25 min' }));
+
+    const count = ALL_CHALLENGES.filter((c) => estimateMinutes(c.timeEstimate) <= 25).length;
+    expect(screen.getByText(`Showing ${count} of ${ALL_CHALLENGES.length} challenges`)).toBeInTheDocument();
+  });
+
+  it('sorts by estimated duration', async () => {
+    const user = userEvent.setup();
+    renderGrid();
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Sort challenges' }), 'longest');
+
+    const longest = Math.max(...ALL_CHALLENGES.map((c) => estimateMinutes(c.timeEstimate)));
+    const firstCard = screen.getAllByRole('button', { name: /Start →/ })[0]!;
+    expect(firstCard).toHaveTextContent(`⏱ ${longest} min`);
+  });
 });
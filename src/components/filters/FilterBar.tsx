@@ -3,12 +3,16 @@ import type { Category, Difficulty } from '@/types/challenge';
 
 const CATEGORIES: Array<'All' | Category> = ['All', 'Hooks & State', 'Performance', 'Architecture'];
 const DIFFICULTIES: Array<'All' | Difficulty> = ['All', 'Medium', 'Hard', 'Expert'];
+// "How long have you got" — shows challenges whose estimate fits the budget
+const MAX_DURATIONS: Array<number | null> = [null, 25, 30, 45];
 
 interface FilterBarProps {
   activeCategory: 'All' | Category;
   activeDifficulty: 'All' | Difficulty;
   onCategoryChange: (category: 'All' | Category) => void;
   onDifficultyChange: (difficulty: 'All' | Difficulty) => void;
+  activeMaxMinutes: number | null;
+  onMaxMinutesChange: (minutes: number | null) => void;
 }
 
 function Chip({
@@ -40,6 +44,8 @@ export function FilterBar({
   activeDifficulty,
   onCategoryChange,
   onDifficultyChange,
+  activeMaxMinutes,
+  onMaxMinutesChange,
 }: FilterBarProps) {
   return (
     <div className="flex flex-col gap-3 mb-5">
@@ -53,6 +59,16 @@ export function FilterBar({
           <Chip key={diff} label={diff} isActive={activeDifficulty === diff} onClick={() => onDifficultyChange(diff)} />
         ))}
       </div>
+      <div className="flex flex-wrap gap-2">
+        {MAX_DURATIONS.map((max) => (
+          <Chip
+            key={max ?? 'any'}
+            label={max === null ? 'Any length' : `≤ ${max} min`}
+            isActive={activeMaxMinutes === max}
+            onClick={() => onMaxMinutesChange(max)}
+          />
+        ))}
+      </div>
     </div>
   );
 }
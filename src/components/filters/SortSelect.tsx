@@ -0,0 +1,28 @@
+import type { ChallengeSort } from '@/utils/challengeFilters';
+
+const SORT_LABELS: Record<ChallengeSort, string> = {
+  default: 'Default order',
+  shortest: 'Shortest first',
+  longest: 'Longest first',
+};
+
+interface SortSelectProps {
+  value: ChallengeSort;
+  onChange: (value: ChallengeSort) => void;
+}
+
+export function SortSelect({ value, onChange }: SortSelectProps) {
+  return (
+    <select
+      aria-label="Sort challenges"
+      value={value}
+      onChange={(e) => onChange(e.target.value as ChallengeSort)}
+      className="bg-surface border border-border rounded-md px-2 py-1 text-xs text-muted
+                 focus:outline-none focus:border-accent transition-colors font-[inherit] cursor-pointer"
+    >
+      {(Object.keys(SORT_LABELS) as ChallengeSort[]).map((sort) => (
+        <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+      ))}
+    </select>
+  );
+}
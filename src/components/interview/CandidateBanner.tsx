@@ -0,0 +1,27 @@
+interface CandidateBannerProps {
+  challengeId: number;
+  ended: boolean;
+}
+
+export function CandidateBanner({ challengeId, ended }: CandidateBannerProps) {
+  const openInterviewer = () => {
+    window.open(`/interview/${challengeId}/interviewer`, `ril-interviewer-${challengeId}`);
+  };
+
+  return (
+    <div className="mt-5 flex items-center justify-between gap-3 bg-purple/10 border border-purple/30 rounded-lg px-4 py-3 font-ui">
+      <p className="m-0 text-[13px] text-[#bbb] leading-normal">
+        {ended
+          ? '🎙 The interviewer has ended this interview.'
+          : '🎙 Mock interview — the solution and hints are only visible to the interviewer.'}
+      </p>
+      <button
+        onClick={openInterviewer}
+        className="shrink-0 text-xs text-purple border border-purple/40 hover:border-purple px-3 py-1.5 rounded
+                   transition-colors cursor-pointer bg-transparent font-[inherit]"
+      >
+        Open interviewer view ↗
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { downloadFile } from '@/utils/download';
+
+interface FeedbackReportDialogProps {
+  report: string;
+  filename: string;
+  onClose: () => void;
+}
+
+export function FeedbackReportDialog({ report, filename, onClose }: FeedbackReportDialogProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(report);
+    setCopied(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="feedback-report-title"
+        className="bg-surface border border-border rounded-lg p-6 w-full max-w-[640px] font-ui"
+      >
+        <h2 id="feedback-report-title" className="m-0 mb-3 text-base font-bold text-[#f0f0f8]">
+          Feedback report
+        </h2>
+        <pre className="m-0 mb-4 max-h-[60vh] overflow-auto bg-bg border border-border rounded-md p-3 text-xs text-[#bbb] whitespace-pre-wrap font-mono">
+          {report}
+        </pre>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="text-[13px] text-muted border border-border bg-transparent px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => downloadFile(filename, report, 'text/markdown')}
+            className="text-[13px] text-accent border border-accent bg-transparent px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Download .md
+          </button>
+          <button
+            onClick={handleCopy}
+            className="text-[13px] font-semibold border border-accent bg-accent text-bg px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            {copied ? 'Copied ✓' : 'Copy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+interface HintOfferListProps {
+  keyPoints: string[];
+  offered: number[];
+  onOffer: (index: number) => void;
+}
+
+export function HintOfferList({ keyPoints, offered, onOffer }: HintOfferListProps) {
+  return (
+    <div className="pt-5">
+      <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+        Hints to offer
+      </h3>
+      <div className="bg-surface-2 border border-border rounded-lg p-4 flex flex-col gap-3">
+        {keyPoints.map((point, i) => (
+          <div key={i} className="flex items-start gap-3 text-[13px] text-[#bbb] leading-normal font-ui">
+            <span className="flex-1">{point}</span>
+            {offered.includes(i) ? (
+              <span className="shrink-0 text-[11px] font-semibold text-accent">Offered ✓</span>
+            ) : (
+              <button
+                onClick={() => onOffer(i)}
+                className="shrink-0 text-[11px] text-warning border border-warning/40 hover:border-warning px-2 py-0.5
+                           rounded cursor-pointer bg-transparent font-[inherit]"
+              >
+                Offer
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { InterviewerView } from './InterviewerView';
+import { interviewChannelName, loadInterview } from '@/utils/interview';
+import type { InterviewMessage } from '@/types/interview';
+
+vi.mock('@/data/challenges', async () => {
+  const { challenge } = await import('@/test/fixtures');
+  return {
+    ALL_CHALLENGES: [challenge(4, { title: 'Virtualized List', keyPoints: ['Measure rows', 'Use an overscan'] })],
+  };
+});
+
+function renderInterviewer() {
+  render(
+    <MemoryRouter initialEntries={['/interview/4/interviewer']}>
+      <Routes>
+        <Route path="/interview/:id/interviewer" element={<InterviewerView />} />
+      </Routes>
+    </MemoryRouter>,
+  );
+}
+
+describe('InterviewerView', () => {
+  let candidate: BroadcastChannel;
+  let received: InterviewMessage[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    received = [];
+    candidate = new BroadcastChannel(interviewChannelName(4));
+    candidate.onmessage = (event: MessageEvent<InterviewMessage>) => received.push(event.data);
+  });
+
+  afterEach(() => {
+    candidate.close();
+  });
+
+  it('follows the candidate status once the candidate tab reports in', async () => {
+    renderInterviewer();
+    expect(screen.getByText('Waiting for the candidate tab…')).toBeInTheDocument();
+    await waitFor(() => expect(received).toContainEqual({ type: 'hello', from: 'interviewer' }));
+
+    candidate.postMessage({ type: 'status', status: { seconds: 125, isActive: false, remaining: null, isCompleted: false } });
+    expect(await screen.findByText('2:05')).toBeInTheDocument();
+    expect(screen.getByText('Paused')).toBeInTheDocument();
+  });
+
+  it('offers hints to the candidate, resending them when the candidate reconnects', async () => {
+    renderInterviewer();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Offer' })[1]!);
+    await waitFor(() => expect(received).toContainEqual({ type: 'hints', offered: [1] }));
+    expect(loadInterview(4).offeredHints).toEqual([1]);
+
+    received.length = 0;
+    candidate.postMessage({ type: 'hello', from: 'candidate' });
+    await waitFor(() => expect(received).toEqual([{ type: 'hints', offered: [1] }]));
+  });
+
+  it('ends the interview and shows the feedback report', async () => {
+    renderInterviewer();
+
+    fireEvent.click(screen.getByRole('button', { name: 'End & write feedback' }));
+    await waitFor(() => expect(received).toContainEqual({ type: 'end' }));
+    const dialog = screen.getByRole('dialog', { name: 'Feedback report' });
+    expect(within(dialog).getByText(/# Interview feedback — Virtualized List/)).toBeInTheDocument();
+    expect(loadInterview(4).endedAt).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { useInterviewChannel } from '@/hooks/useInterviewChannel';
+import { buildFeedbackReport, loadInterview, saveInterview } from '@/utils/interview';
+import { challengeRubric, weightedScore } from '@/utils/rubric';
+import { formatCountdown, formatTime } from '@/utils/time';
+import { cn } from '@/utils/cn';
+import { ChallengeHeader } from '@/components/challenges/ChallengeHeader';
+import { TestRunSummary } from '@/components/challenges/TestRunSummary';
+import { RubricPanel } from '@/components/challenges/RubricPanel';
+import { CodeBlock } from '@/components/ui/CodeBlock';
+import { PageContainer } from '@/components/layout/PageContainer';
+import { HintOfferList } from './HintOfferList';
+import { FeedbackReportDialog } from './FeedbackReportDialog';
+import type { CandidateStatus, InterviewRecord } from '@/types/interview';
+
+function statusLabel(status: CandidateStatus): string {
+  if (status.isCompleted) return 'Marked complete';
+  return status.isActive ? 'Working' : 'Paused';
+}
+
+export function InterviewerView() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const challenge = ALL_CHALLENGES.find((c) => c.id === Number(id));
+  const challengeId = challenge?.id ?? null;
+
+  const [record, setRecord] = useState<InterviewRecord>(() => loadInterview(Number(id)));
+  const [status, setStatus] = useState<CandidateStatus | null>(null);
+  const [showReport, setShowReport] = useState(false);
+
+  const post = useInterviewChannel(challengeId, (message) => {
+    if (message.type === 'status') setStatus(message.status);
+    if (message.type === 'hello' && message.from === 'candidate') {
+      post({ type: 'hints', offered: record.offeredHints });
+    }
+  });
+
+  useEffect(() => {
+    post({ type: 'hello', from: 'interviewer' });
+  }, [post]);
+
+  useEffect(() => {
+    if (challengeId !== null) saveInterview(challengeId, record);
+  }, [challengeId, record]);
+
+  if (!challenge) {
+    return (
+      <div className="bg-bg min-h-screen flex items-center justify-center">
+        <p className="text-muted text-sm">Challenge not found.</p>
+      </div>
+    );
+  }
+
+  const update = (patch: Partial<InterviewRecord>) => setRecord((prev) => ({ ...prev, ...patch }));
+
+  const handleOffer = (index: number) => {
+    const offered = [...record.offeredHints, index];
+    update({ offeredHints: offered });
+    post({ type: 'hints', offered });
+  };
+
+  const handleEnd = () => {
+    post({ type: 'end' });
+    update({ endedAt: record.endedAt ?? Date.now() });
+    setShowReport(true);
+  };
+
+  const rubric = challengeRubric(challenge);
+  const percent = weightedScore(rubric, record.scores);
+
+  return (
+    <div className="bg-bg min-h-screen">
+      <div className="sticky top-0 z-10 flex justify-between items-center gap-4 px-6 py-3.5 bg-surface-2 border-b border-border font-ui">
+        <button
+          onClick={() => navigate('/')}
+          className="bg-transparent border border-[#333] text-muted px-3.5 py-1.5 rounded-md cursor-pointer text-[13px] font-[inherit]"
+        >
+          ← Back
+        </button>
+
+        <div className="flex items-center gap-3" aria-live="polite">
+          <span className="text-[11px] font-semibold uppercase tracking-widest text-purple">Interviewer</span>
+          {status ? (
+            <>
+              <span
+                className={cn(
+                  'text-lg font-bold tabular-nums',
+                  status.remaining !== null && status.remaining <= 0 ? 'text-error' : 'text-[#f0f0f8]',
+                )}
+              >
+                {status.remaining !== null ? formatCountdown(status.remaining) : formatTime(status.seconds)}
+              </span>
+              <span className="text-xs text-muted">{statusLabel(status)}</span>
+            </>
+          ) : (
+            <span className="text-xs text-muted">Waiting for the candidate tab…</span>
+          )}
+          {percent !== null && <span className="text-xs text-accent font-semibold">Rubric {percent}%</span>}
+        </div>
+
+        <button
+          onClick={handleEnd}
+          className="border border-purple text-purple bg-transparent px-4 py-1.5 rounded-md cursor-pointer text-[13px] font-semibold font-[inherit]"
+        >
+          {record.endedAt ? 'Feedback report' : 'End & write feedback'}
+        </button>
+      </div>
+
+      <PageContainer>
+        <ChallengeHeader challenge={challenge} />
+        {status?.lastTestRun && <TestRunSummary run={status.lastTestRun} />}
+        <RubricPanel
+          title="Rubric"
+          criteria={rubric}
+          levels={record.scores}
+          onLevel={(id, level) => update({ scores: { ...record.scores, [id]: level } })}
+          comments={record.comments}
+          onComment={(id, text) => update({ comments: { ...record.comments, [id]: text } })}
+        />
+        <HintOfferList keyPoints={challenge.keyPoints} offered={record.offeredHints} onOffer={handleOffer} />
+        <div className="bg-purple/15 border border-purple/30 rounded-lg p-4 mt-5">
+          <h4 className="m-0 mb-2 text-[13px] font-bold text-purple">Follow-Up Question</h4>
+          <p className="m-0 text-sm text-[#bbb] leading-relaxed font-ui">{challenge.followUp}</p>
+        </div>
+        <div className="pt-5">
+          <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+            Interview Notes
+          </h3>
+          <textarea
+            value={record.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            placeholder="Communication, trade-offs discussed, where they got stuck…"
+            rows={4}
+            className="w-full bg-surface border border-border rounded-md px-3 py-2 text-sm text-text leading-relaxed
+                       placeholder:text-muted focus:outline-none focus:border-accent transition-colors font-ui resize-y"
+          />
+        </div>
+        <div className="pt-5 pb-10">
+          <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+            Reference Solution
+          </h3>
+          <CodeBlock code={challenge.solutionCode} />
+        </div>
+      </PageContainer>
+
+      {showReport && (
+        <FeedbackReportDialog
+          report={buildFeedbackReport(challenge, record, status)}
+          filename={`interview-feedback-${challenge.id}.md`}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+    </div>
+  );
+}
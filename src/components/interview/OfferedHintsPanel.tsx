@@ -0,0 +1,26 @@
+interface OfferedHintsPanelProps {
+  keyPoints: string[];
+  offered: number[];
+}
+
+export function OfferedHintsPanel({ keyPoints, offered }: OfferedHintsPanelProps) {
+  return (
+    <div className="pt-5 pb-10">
+      <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">
+        Hints from your interviewer
+      </h3>
+      {offered.length === 0 ? (
+        <p className="m-0 text-xs text-muted font-ui">None yet — ask if you get stuck.</p>
+      ) : (
+        <div className="bg-surface-2 border border-border rounded-lg p-4 flex flex-col gap-3">
+          {offered.map((index) => (
+            <div key={index} className="flex gap-3 text-[13px] text-[#bbb] leading-normal font-ui">
+              <span className="text-warning font-bold text-xs shrink-0">💡</span>
+              <span>{keyPoints[index]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { previewImport, type ImportMode, type LabSnapshot } from '@/utils/progressTransfer';
+
+interface ImportDialogProps {
+  current: LabSnapshot;
+  incoming: LabSnapshot;
+  onApply: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  merge: 'Union completions, keep the best time per challenge, newest drafts win, your notes are kept.',
+  replace: 'Discard everything on this device and use the file exactly as exported.',
+};
+
+function PreviewRow({ label, value, tone = 'default' }: { label: string; value: number; tone?: 'default' | 'danger' }) {
+  return (
+    <li className="flex justify-between py-1 border-t border-border first:border-t-0">
+      <span className="text-[#bbb]">{label}</span>
+      <span className={cn('tabular-nums font-semibold', tone === 'danger' && value > 0 ? 'text-error' : 'text-text')}>
+        {value}
+      </span>
+    </li>
+  );
+}
+
+export function ImportDialog({ current, incoming, onApply, onCancel }: ImportDialogProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const preview = useMemo(() => previewImport(current, incoming), [current, incoming]);
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="bg-surface border border-border rounded-lg p-6 w-full max-w-[440px] font-ui"
+      >
+        <h2 id="import-dialog-title" className="m-0 mb-4 text-base font-bold text-[#f0f0f8]">
+          Import progress
+        </h2>
+
+        <ul className="m-0 mb-5 p-0 list-none text-[13px]">
+          <PreviewRow label="New completions" value={preview.newCompletions.length} />
+          <PreviewRow label="Faster best times" value={preview.fasterTimes.length} />
+          <PreviewRow label="New attempts" value={preview.newAttempts} />
+          <PreviewRow label="Drafts added / updated" value={preview.draftsAdded + preview.draftsUpdated} />
+          <PreviewRow label="Notes added" value={preview.notesAdded} />
+          {mode === 'replace' && (
+            <PreviewRow label="Completions removed" value={preview.removedCompletions.length} tone="danger" />
+          )}
+        </ul>
+
+        <div className="flex flex-col gap-2 mb-5">
+          {(['merge', 'replace'] as const).map((m) => (
+            <label key={m} className="flex gap-2.5 items-start text-[13px] cursor-pointer">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === m}
+                onChange={() => setMode(m)}
+                className="mt-0.5 accent-accent"
+              />
+              <span>
+                <span className="font-semibold text-text capitalize">{m}</span>
+                <span className="block text-xs text-muted leading-normal">{MODE_DESCRIPTIONS[m]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="text-[13px] text-muted border border-border px-4 py-1.5 rounded-md cursor-pointer bg-transparent font-[inherit]"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(mode)}
+            className={cn(
+              'text-[13px] font-semibold border px-4 py-1.5 rounded-md cursor-pointer font-[inherit]',
+              mode === 'replace' ? 'bg-error/10 border-error text-error' : 'bg-accent text-bg border-accent',
+            )}
+          >
+            {mode === 'replace' ? 'Replace progress' : 'Merge progress'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ProgressContext } from '@/hooks/useProgress';
+import { createProgressStore, type ProgressStore } from '@/utils/progressStore';
+import type { ProgressAdapter } from '@/utils/progressAdapters';
+
+interface ProgressProviderProps {
+  total: number;
+  store?: ProgressStore;
+  /** Storage backend for the default store; localStorage when omitted */
+  adapter?: ProgressAdapter;
+  children: React.ReactNode;
+}
+
+export function ProgressProvider({ total, store: providedStore, adapter, children }: ProgressProviderProps) {
+  const [store] = useState(() => providedStore ?? createProgressStore(adapter));
+
+  useEffect(() => store.connect(), [store]);
+
+  const value = useMemo(() => ({ store, total }), [store, total]);
+  return <ProgressContext.Provider value={value}>{children}</ProgressContext.Provider>;
+}
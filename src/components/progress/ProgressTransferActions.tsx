@@ -0,0 +1,82 @@
+import { useRef, useState } from 'react';
+import { ImportDialog } from './ImportDialog';
+import { downloadFile } from '@/utils/download';
+import {
+  readLocalSnapshot,
+  serializeSnapshot,
+  exportFilename,
+  parseExport,
+  combineSnapshots,
+  writeSnapshotExtras,
+  type ImportMode,
+  type LabSnapshot,
+} from '@/utils/progressTransfer';
+import type { ProgressData } from '@/types/progress';
+
+interface ProgressTransferActionsProps {
+  progress: ProgressData;
+  onImport: (progress: ProgressData) => void;
+}
+
+const BUTTON_CLASS = `text-xs text-muted hover:text-text border border-border hover:border-accent/50
+  px-2 py-1 rounded transition-colors cursor-pointer bg-transparent font-[inherit]`;
+
+export function ProgressTransferActions({ progress, onImport }: ProgressTransferActionsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ current: LabSnapshot; incoming: LabSnapshot } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    downloadFile(exportFilename(), serializeSnapshot(readLocalSnapshot(progress)));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const incoming = parseExport(await file.text());
+      setError(null);
+      setPending({ current: readLocalSnapshot(progress), incoming });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleApply = (mode: ImportMode) => {
+    if (!pending) return;
+    const next = combineSnapshots(pending.current, pending.incoming, mode);
+    writeSnapshotExtras(next, mode);
+    onImport(next.progress);
+    setPending(null);
+  };
+
+  return (
+    <>
+      <button onClick={handleExport} className={BUTTON_CLASS}>
+        Export
+      </button>
+      <button onClick={() => fileInput.current?.click()} className={BUTTON_CLASS}>
+        Import
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        aria-label="Import progress file"
+        className="hidden"
+        onChange={(e) => {
+          void handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {error && <span role="alert" className="text-xs text-error">{error}</span>}
+      {pending && (
+        <ImportDialog
+          current={pending.current}
+          incoming={pending.incoming}
+          onApply={handleApply}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </>
+  );
+}
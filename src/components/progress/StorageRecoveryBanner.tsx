@@ -0,0 +1,53 @@
+import { downloadFile } from '@/utils/download';
+import type { StorageIssue } from '@/utils/progressStore';
+
+interface StorageRecoveryBannerProps {
+  issue: StorageIssue;
+  onDismiss: () => void;
+}
+
+export function StorageRecoveryBanner({ issue, onDismiss }: StorageRecoveryBannerProps) {
+  const handleDownload = () => {
+    if (issue.kind !== 'quarantine') return;
+    const stamp = new Date(issue.quarantinedAt).toISOString().slice(0, 10);
+    downloadFile(`ril-progress-backup-${stamp}.json`, issue.raw);
+  };
+
+  return (
+    <div
+      role="alert"
+      className="bg-warning/10 border-b border-warning/30 px-6 py-3 text-[13px] font-ui text-warning"
+    >
+      <div className="max-w-[880px] mx-auto flex justify-between items-center gap-4 flex-wrap">
+        {issue.kind === 'quarantine' ? (
+          <p className="m-0 leading-normal">
+            ⚠ Your saved progress couldn't be read ({issue.reason}) and was set aside.
+            You're starting fresh — the original data has been kept as a backup.
+          </p>
+        ) : (
+          <p className="m-0 leading-normal">
+            ⚠ {issue.message}
+          </p>
+        )}
+        <div className="flex gap-2 shrink-0">
+          {issue.kind === 'quarantine' && (
+            <button
+              onClick={handleDownload}
+              className="text-xs text-warning border border-warning/40 hover:border-warning px-2 py-1 rounded
+                         transition-colors cursor-pointer bg-transparent font-[inherit]"
+            >
+              Download backup
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="text-xs text-muted hover:text-text border border-border px-2 py-1 rounded
+                       transition-colors cursor-pointer bg-transparent font-[inherit]"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useSettings } from '@/hooks/useSettings';
+import { createProgressAdapter, hasPendingSync, type BackendConfig, type ProgressBackend } from '@/utils/progressAdapters';
+import type { ProgressData } from '@/types/progress';
+
+interface StorageSettingsDialogProps {
+  progress: ProgressData;
+  onClose: () => void;
+}
+
+const BACKEND_DESCRIPTIONS: Record<ProgressBackend, { label: string; description: string }> = {
+  local: { label: 'This browser', description: 'localStorage — the default. Nothing leaves this device.' },
+  indexeddb: { label: 'IndexedDB', description: 'Also local, with room for long attempt histories.' },
+  http: { label: 'Sync server', description: 'Share progress across devices through a server started with npm run sync-server.' },
+};
+
+const INPUT_CLASS = `w-full bg-bg border border-border rounded-md px-2.5 py-1.5 text-[13px] text-text
+  font-[inherit] outline-none focus:border-accent`;
+
+export function StorageSettingsDialog({ progress, onClose }: StorageSettingsDialogProps) {
+  const { settings, updateSettings } = useSettings();
+  const [config, setConfig] = useState<BackendConfig>({
+    progressBackend: settings.progressBackend,
+    syncServerUrl: settings.syncServerUrl,
+    syncProfile: settings.syncProfile,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The store is built once per page load, so carry progress across and reload
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await createProgressAdapter(config).update(progress, (merged) => merged);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSaving(false);
+      return;
+    }
+    updateSettings(config);
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/60 flex items-center justify-center p-6">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="storage-dialog-title"
+        className="bg-surface border border-border rounded-lg p-6 w-full max-w-[440px] font-ui"
+      >
+        <h2 id="storage-dialog-title" className="m-0 mb-4 text-base font-bold text-[#f0f0f8]">
+          Progress storage
+        </h2>
+
+        <div className="flex flex-col gap-2 mb-4">
+          {(Object.keys(BACKEND_DESCRIPTIONS) as ProgressBackend[]).map((backend) => (
+            <label key={backend} className="flex gap-2.5 items-start text-[13px] cursor-pointer">
+              <input
+                type="radio"
+                name="progress-backend"
+                checked={config.progressBackend === backend}
+                onChange={() => setConfig({ ...config, progressBackend: backend })}
+                className="mt-0.5 accent-accent"
+              />
+              <span>
+                <span className="font-semibold text-text">{BACKEND_DESCRIPTIONS[backend].label}</span>
+                <span className="block text-xs text-muted leading-normal">{BACKEND_DESCRIPTIONS[backend].description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {config.progressBackend === 'http' && (
+          <div className="flex flex-col gap-3 mb-4 text-xs text-muted">
+            <label>
+              Server URL
+              <input
+                type="url"
+                value={config.syncServerUrl}
+                onChange={(e) => setConfig({ ...config, syncServerUrl: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label>
+              Profile
+              <input
+                value={config.syncProfile}
+                onChange={(e) => setConfig({ ...config, syncProfile: e.target.value })}
+                className={INPUT_CLASS}
+              />
+            </label>
+            {settings.progressBackend === 'http' && hasPendingSync() && (
+              <p className="m-0 text-warning">Some changes haven&apos;t reached the server yet — they&apos;ll sync when it&apos;s reachable.</p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p role="alert" className="m-0 mb-4 text-xs text-error">
+            Couldn&apos;t copy your progress to the new storage: {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="text-[13px] text-muted border border-border px-4 py-1.5 rounded-md cursor-pointer bg-transparent font-[inherit]"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleSave()}
+            disabled={saving}
+            className="text-[13px] font-semibold border px-4 py-1.5 rounded-md cursor-pointer font-[inherit]
+                       bg-accent text-bg border-accent disabled:opacity-60"
+          >
+            Save &amp; reload
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+
+export const UNDO_GRACE_SECONDS = 10;
+
+interface UndoResetToastProps {
+  onUndo: () => void;
+  onExpire: () => void;
+}
+
+export function UndoResetToast({ onUndo, onExpire }: UndoResetToastProps) {
+  const [remaining, setRemaining] = useState(UNDO_GRACE_SECONDS);
+
+  useEffect(() => {
+    if (remaining <= 0) {
+      onExpire();
+      return;
+    }
+    const id = setTimeout(() => setRemaining((r) => r - 1), 1000);
+    return () => clearTimeout(id);
+  }, [remaining, onExpire]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-20 flex items-center gap-4
+                 bg-surface-2 border border-border rounded-lg px-4 py-2.5 shadow-lg text-[13px] font-ui"
+    >
+      <span className="text-[#bbb]">Progress reset.</span>
+      <button
+        onClick={onUndo}
+        className="text-accent font-semibold cursor-pointer bg-transparent border-none font-[inherit] p-0"
+      >
+        Undo ({remaining}s)
+      </button>
+    </div>
+  );
+}
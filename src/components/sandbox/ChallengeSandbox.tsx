@@ -1,23 +1,64 @@
-import { useMemo } from 'react';
-import {
-  SandpackProvider,
-  SandpackLayout,
-  SandpackCodeEditor,
-  SandpackTests,
-  SandpackConsole,
-} from '@codesandbox/sandpack-react';
+import { useCallback, useMemo, useState } from 'react';
+import { SandpackProvider, SandpackTests } from '@codesandbox/sandpack-react';
 import { sandpackDark } from '@codesandbox/sandpack-themes';
+import { DraftToolbar } from './DraftToolbar';
+import { MissingExportsNotice } from './MissingExportsNotice';
+import { SandboxWorkspace } from './SandboxWorkspace';
+import { LocalTestsPane } from './LocalTestsPane';
+import { useTypeCheck } from '@/hooks/useTypeCheck';
+import { loadDraft, type DraftVariant } from '@/utils/drafts';
+import { flattenSpecs, createTestRun, type SandpackSpec } from '@/utils/testResults';
+import { consoleWrapper, exportWrapped } from '@/utils/sandboxCode';
+import type { SandboxEngine } from '@/hooks/useSettings';
+import type { TestRun } from '@/types/progress';
 
 interface ChallengeSandboxProps {
+  challengeId: number;
+  variant: DraftVariant;
   code: string;
   testCode?: string;
+  demoEntry?: string;
+  engine?: SandboxEngine;
+  contract?: string;
+  typeCheck?: boolean;
+  onTestRun?: (run: TestRun) => void;
 }
 
-export function ChallengeSandbox({ code, testCode }: ChallengeSandboxProps) {
+interface SandboxDraftProps {
+  challengeId: number;
+  variant: DraftVariant;
+  code: string;
+  demoEntry?: string;
+}
+
+export function ChallengeSandbox({
+  challengeId,
+  variant,
+  code,
+  testCode,
+  demoEntry,
+  engine = 'sandpack',
+  contract,
+  typeCheck = false,
+  onTestRun,
+}: ChallengeSandboxProps) {
   if (testCode) {
-    return <TestRunnerSandbox code={code} testCode={testCode} />;
+    return (
+      <TestRunnerSandbox
+        challengeId={challengeId}
+        variant={variant}
+        code={code}
+        testCode={testCode}
+        demoEntry={demoEntry}
+        engine={engine}
+        contract={contract}
+        typeCheck={typeCheck}
+        onTestRun={onTestRun}
+      />
+    );
   }
-  return <ConsoleSandbox code={code} />;
+  // Console-only challenges need the hosted bundler to run at all
+  return <ConsoleSandbox challengeId={challengeId} variant={variant} code={code} demoEntry={demoEntry} />;
 }
 
 const TEST_DEPS = {
@@ -29,19 +70,43 @@ const TEST_DEPS = {
   },
 };
 
-function TestRunnerSandbox({ code, testCode }: { code: string; testCode: string }) {
+function TestRunnerSandbox({
+  challengeId,
+  variant,
+  code,
+  testCode,
+  demoEntry,
+  engine,
+  contract,
+  typeCheck,
+  onTestRun,
+}: SandboxDraftProps & Pick<ChallengeSandboxProps, 'contract' | 'onTestRun'> & {
+  testCode: string;
+  engine: SandboxEngine;
+  typeCheck: boolean;
+}) {
+  const editorExtensions = useTypeCheck(typeCheck, contract);
+  const pristineCode = useMemo(() => exportWrapped(code), [code]);
+  // Read once on mount so autosaves don't feed back into Sandpack's files
+  const [draft] = useState(() => loadDraft(challengeId, variant));
+
   const files = useMemo(() => ({
-    '/implementation.ts': { code: exportWrapped(code), active: true as const },
+    '/implementation.ts': { code: draft?.code ?? pristineCode, active: true as const },
     // Put tests in add.test.ts since that's the template's test entry point
     '/add.test.ts': { code: testCode, hidden: true },
     '/add.ts': { code: 'export {}', hidden: true },
-  }), [code, testCode]);
+  }), [draft, pristineCode, testCode]);
 
   const options = useMemo(() => ({
     visibleFiles: ['/implementation.ts'] as string[],
     activeFile: '/implementation.ts' as string,
   }), []);
 
+  const handleComplete = useCallback(
+    (specs: Record<string, SandpackSpec>) => onTestRun?.(createTestRun(flattenSpecs(specs))),
+    [onTestRun],
+  );
+
   return (
     <SandpackProvider
       theme={sandpackDark}
@@ -50,28 +115,35 @@ function TestRunnerSandbox({ code, testCode }: { code: string; testCode: string
       customSetup={TEST_DEPS}
       options={options}
     >
-      <SandpackLayout>
-        <SandpackCodeEditor
-          showLineNumbers
-          showInlineErrors
-          style={{ height: 480 }}
-        />
-        <SandpackTests
-          verbose
-          style={{ height: 480 }}
-        />
-      </SandpackLayout>
+      <DraftToolbar
+        challengeId={challengeId}
+        variant={variant}
+        pristineCode={pristineCode}
+        restoredAt={draft?.savedAt}
+      />
+      <MissingExportsNotice testCode={testCode} />
+      <SandboxWorkspace
+        demoEntry={demoEntry}
+        offline={engine === 'local'}
+        editorExtensions={editorExtensions}
+        tests={engine === 'local'
+          ? <LocalTestsPane testCode={testCode} onTestRun={onTestRun} />
+          : <SandpackTests verbose onComplete={handleComplete} style={{ height: 480 }} />}
+      />
     </SandpackProvider>
   );
 }
 
-function ConsoleSandbox({ code }: { code: string }) {
+function ConsoleSandbox({ challengeId, variant, code, demoEntry }: SandboxDraftProps) {
+  const pristineCode = useMemo(() => consoleWrapper(code), [code]);
+  const [draft] = useState(() => loadDraft(challengeId, variant));
+
   const files = useMemo(() => ({
     '/App.jsx': {
-      code: consoleWrapper(code),
+      code: draft?.code ?? pristineCode,
       active: true as const,
     },
-  }), [code]);
+  }), [draft, pristineCode]);
 
   return (
     <SandpackProvider
@@ -79,56 +151,13 @@ function ConsoleSandbox({ code }: { code: string }) {
       template="react"
       files={files}
     >
-      <SandpackLayout>
-        <SandpackCodeEditor
-          showLineNumbers
-          showInlineErrors
-          style={{ height: 480 }}
-        />
-        <SandpackConsole
-          style={{ height: 480 }}
-          showHeader
-          showResetConsoleButton
-        />
-      </SandpackLayout>
+      <DraftToolbar
+        challengeId={challengeId}
+        variant={variant}
+        pristineCode={pristineCode}
+        restoredAt={draft?.savedAt}
+      />
+      <SandboxWorkspace demoEntry={demoEntry} />
     </SandpackProvider>
   );
 }
-
-/**
- * Wraps user code so that top-level functions are exported,
- * making them importable by the test file.
- */
-function exportWrapped(code: string): string {
-  const reactImport = `import { useState, useReducer, useRef, useCallback, useMemo, useEffect, useLayoutEffect, useContext, createContext, useSyncExternalStore } from 'react';\n\n`;
-
-  // Replace top-level `function name(` with `export function name(`
-  // so tests can import them
-  const exported = code.replace(
-    /^(function\s+\w+)/gm,
-    'export $1',
-  );
-
-  return reactImport + exported;
-}
-
-/**
- * For console-only fallback: wraps code in a minimal component
- * that renders instructions to use the console.
- */
-function consoleWrapper(code: string): string {
-  return `${code}
-
-// Try your implementation above and check the console for output.
-// Use console.log() to test your code.
-export default function App() {
-  return (
-    <div style={{ padding: 24, fontFamily: 'monospace', color: '#999' }}>
-      <p>Use the console panel to test your implementation.</p>
-      <p style={{ fontSize: 12, color: '#666' }}>
-        Write console.log() calls above to verify your code works.
-      </p>
-    </div>
-  );
-}`;
-}
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { useActiveCode } from '@codesandbox/sandpack-react';
+import { saveDraft, clearDraft, type DraftVariant } from '@/utils/drafts';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+interface DraftToolbarProps {
+  challengeId: number;
+  variant: DraftVariant;
+  pristineCode: string;
+  restoredAt?: number;
+}
+
+type SaveStatus =
+  | { kind: 'pristine' }
+  | { kind: 'saving' }
+  | { kind: 'saved'; at: number };
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function DraftToolbar({ challengeId, variant, pristineCode, restoredAt }: DraftToolbarProps) {
+  const { code, updateCode } = useActiveCode();
+  const [status, setStatus] = useState<SaveStatus>(
+    restoredAt !== undefined ? { kind: 'saved', at: restoredAt } : { kind: 'pristine' },
+  );
+  const lastCode = useRef(code);
+  const pendingCode = useRef<string | null>(null);
+
+  // Debounced autosave — only fires for actual edits, not the initial file load
+  useEffect(() => {
+    if (code === lastCode.current) return;
+    lastCode.current = code;
+
+    if (code === pristineCode) {
+      pendingCode.current = null;
+      clearDraft(challengeId, variant);
+      setStatus({ kind: 'pristine' });
+      return;
+    }
+
+    pendingCode.current = code;
+    setStatus({ kind: 'saving' });
+    const id = setTimeout(() => {
+      pendingCode.current = null;
+      const draft = saveDraft(challengeId, variant, code);
+      setStatus({ kind: 'saved', at: draft.savedAt });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(id);
+  }, [code, pristineCode, challengeId, variant]);
+
+  // Flush a pending save when the sandbox closes mid-debounce
+  useEffect(() => {
+    return () => {
+      if (pendingCode.current !== null) saveDraft(challengeId, variant, pendingCode.current);
+    };
+  }, [challengeId, variant]);
+
+  const handleReset = () => {
+    clearDraft(challengeId, variant);
+    updateCode(pristineCode);
+  };
+
+  return (
+    <div className="flex justify-between items-center mb-2 text-xs">
+      <span className="text-muted" aria-live="polite">
+        {status.kind === 'saving' && 'Saving draft…'}
+        {status.kind === 'saved' && `✓ Draft saved · ${formatClock(status.at)}`}
+        {status.kind === 'pristine' && 'No changes yet'}
+      </span>
+      <button
+        onClick={handleReset}
+        disabled={status.kind === 'pristine'}
+        className="text-muted hover:text-error border border-border hover:border-error/50 px-2 py-1 rounded
+                   transition-colors cursor-pointer bg-transparent font-[inherit]
+                   disabled:opacity-40 disabled:cursor-default disabled:hover:text-muted disabled:hover:border-border"
+      >
+        ↺ Reset to {variant}
+      </button>
+    </div>
+  );
+}
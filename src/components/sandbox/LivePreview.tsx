@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import {
+  SandpackProvider,
+  SandpackPreview,
+  SandpackConsole,
+  useActiveCode,
+} from '@codesandbox/sandpack-react';
+import { sandpackDark } from '@codesandbox/sandpack-themes';
+import { previewFiles } from '@/utils/sandboxCode';
+
+export type PreviewPane = 'preview' | 'console';
+
+interface LivePreviewProps {
+  demoEntry?: string;
+  /** Which pane to show; null keeps the preview running while hidden */
+  pane: PreviewPane | null;
+}
+
+const paneStyle = (visible: boolean) => ({ height: 480, display: visible ? undefined : 'none' });
+
+/**
+ * Renders the editor's current code in a separate React bundler, so it works
+ * alongside the test runner, which can't render components itself.
+ */
+export function LivePreview({ demoEntry, pane }: LivePreviewProps) {
+  const { code } = useActiveCode();
+  const files = useMemo(() => previewFiles(code, demoEntry), [code, demoEntry]);
+
+  return (
+    <SandpackProvider theme={sandpackDark} template="react-ts" files={files}>
+      <SandpackPreview
+        showOpenInCodeSandbox={false}
+        showRefreshButton
+        style={paneStyle(pane === 'preview')}
+      />
+      <SandpackConsole
+        showHeader
+        showResetConsoleButton
+        style={paneStyle(pane === 'console')}
+      />
+    </SandpackProvider>
+  );
+}
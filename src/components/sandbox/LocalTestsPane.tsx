@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useActiveCode } from '@codesandbox/sandpack-react';
+import { useLocalTestRunner } from '@/hooks/useLocalTestRunner';
+import { TestRunSummary } from '@/components/challenges/TestRunSummary';
+import type { TestRun } from '@/types/progress';
+
+const WATCH_DELAY_MS = 800;
+
+interface LocalTestsPaneProps {
+  testCode: string;
+  onTestRun?: (run: TestRun) => void;
+}
+
+export function LocalTestsPane({ testCode, onTestRun }: LocalTestsPaneProps) {
+  const { code } = useActiveCode();
+  const { run, isRunning, lastRun } = useLocalTestRunner(onTestRun);
+  const submitted = useRef<{ code: string; testCode: string } | null>(null);
+
+  const runCurrent = useCallback(() => {
+    submitted.current = { code, testCode };
+    void run(code, testCode);
+  }, [code, testCode, run]);
+
+  // Re-run once typing settles, like Sandpack's watch mode. Edits made during
+  // a run wait for it to finish instead of starting a second one alongside
+  useEffect(() => {
+    if (isRunning) return;
+    if (submitted.current?.code === code && submitted.current.testCode === testCode) return;
+    const id = setTimeout(runCurrent, WATCH_DELAY_MS);
+    return () => clearTimeout(id);
+  }, [code, testCode, isRunning, runCurrent]);
+
+  return (
+    <div className="h-[480px] overflow-y-auto bg-surface-2 p-3 font-ui">
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-muted">Offline engine · no network needed</span>
+        <button
+          onClick={runCurrent}
+          disabled={isRunning}
+          className="text-xs text-accent border border-accent/40 hover:border-accent px-2 py-1 rounded
+                     transition-colors cursor-pointer bg-transparent font-[inherit] disabled:opacity-50 disabled:cursor-default"
+        >
+          {isRunning ? 'Running…' : '▶ Run tests'}
+        </button>
+      </div>
+      {lastRun && <TestRunSummary run={lastRun} />}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { useActiveCode } from '@codesandbox/sandpack-react';
+import { missingTestImports } from '@/utils/sandboxCode';
+
+interface MissingExportsNoticeProps {
+  testCode: string;
+}
+
+export function MissingExportsNotice({ testCode }: MissingExportsNoticeProps) {
+  const { code } = useActiveCode();
+  const missing = useMemo(() => missingTestImports(code, testCode), [code, testCode]);
+
+  if (missing.length === 0) return null;
+
+  return (
+    <p role="status" className="m-0 mb-2 text-xs text-warning bg-warning/10 border border-warning/30 rounded px-2.5 py-1.5">
+      ⚠ The tests import {missing.map((name, i) => (
+        <span key={name}>
+          {i > 0 && ', '}
+          <code className="font-mono">{name}</code>
+        </span>
+      ))}, which {missing.length === 1 ? "isn't" : "aren't"} exported from this file yet.
+    </p>
+  );
+}
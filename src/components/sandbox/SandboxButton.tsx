@@ -1,15 +1,35 @@
 import { Suspense, lazy, useState, memo } from 'react';
+import type { DraftVariant } from '@/utils/drafts';
+import type { SandboxEngine } from '@/hooks/useSettings';
+import type { TestRun } from '@/types/progress';
 
 const ChallengeSandbox = lazy(() =>
   import('./ChallengeSandbox').then((m) => ({ default: m.ChallengeSandbox })),
 );
 
 interface SandboxButtonProps {
+  challengeId: number;
+  variant: DraftVariant;
   code: string;
   testCode?: string;
+  demoEntry?: string;
+  engine?: SandboxEngine;
+  contract?: string;
+  typeCheck?: boolean;
+  onTestRun?: (run: TestRun) => void;
 }
 
-export const SandboxButton = memo(function SandboxButton({ code, testCode }: SandboxButtonProps) {
+export const SandboxButton = memo(function SandboxButton({
+  challengeId,
+  variant,
+  code,
+  testCode,
+  demoEntry,
+  engine,
+  contract,
+  typeCheck,
+  onTestRun,
+}: SandboxButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   if (isOpen) {
@@ -28,7 +48,17 @@ export const SandboxButton = memo(function SandboxButton({ code, testCode }: San
             </div>
           }
         >
-          <ChallengeSandbox code={code} testCode={testCode} />
+          <ChallengeSandbox
+            challengeId={challengeId}
+            variant={variant}
+            code={code}
+            testCode={testCode}
+            demoEntry={demoEntry}
+            engine={engine}
+            contract={contract}
+            typeCheck={typeCheck}
+            onTestRun={onTestRun}
+          />
         </Suspense>
       </div>
     );
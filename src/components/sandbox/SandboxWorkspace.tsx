@@ -0,0 +1,69 @@
+import { useState, type ReactNode } from 'react';
+import { SandpackLayout, SandpackCodeEditor } from '@codesandbox/sandpack-react';
+import type { Extension } from '@codemirror/state';
+import { cn } from '@/utils/cn';
+import { LivePreview, type PreviewPane } from './LivePreview';
+
+type SandboxPane = 'tests' | PreviewPane;
+
+interface SandboxWorkspaceProps {
+  /** Test runner pane; sandboxes without tests open on the preview */
+  tests?: ReactNode;
+  demoEntry?: string;
+  /** The preview needs the hosted bundler, so offline workspaces only show tests */
+  offline?: boolean;
+  editorExtensions?: Extension[];
+}
+
+const PANE_LABELS: Record<SandboxPane, string> = {
+  tests: 'Tests',
+  preview: 'Preview',
+  console: 'Console',
+};
+
+export function SandboxWorkspace({ tests, demoEntry, offline = false, editorExtensions }: SandboxWorkspaceProps) {
+  const [pane, setPane] = useState<SandboxPane>(tests ? 'tests' : 'preview');
+  // The preview bundles in its own iframe, so start it only once it's asked for and keep it running after
+  const [previewStarted, setPreviewStarted] = useState(!tests);
+  const previewPanes: SandboxPane[] = offline ? [] : ['preview', 'console'];
+  const panes: SandboxPane[] = tests ? ['tests', ...previewPanes] : previewPanes;
+
+  const selectPane = (next: SandboxPane) => {
+    setPane(next);
+    if (next !== 'tests') setPreviewStarted(true);
+  };
+
+  return (
+    <>
+      <div role="tablist" className={cn('flex justify-end gap-1.5 mb-2 font-ui', panes.length < 2 && 'hidden')}>
+        {panes.map((id) => (
+          <button
+            key={id}
+            role="tab"
+            aria-selected={pane === id}
+            onClick={() => selectPane(id)}
+            className={cn(
+              'text-xs px-2.5 py-1 rounded border cursor-pointer font-[inherit] transition-colors',
+              pane === id ? 'bg-accent/15 border-accent/50 text-accent' : 'bg-transparent border-border text-muted',
+            )}
+          >
+            {PANE_LABELS[id]}
+          </button>
+        ))}
+      </div>
+      <SandpackLayout>
+        <SandpackCodeEditor
+          showLineNumbers
+          showInlineErrors
+          extensions={editorExtensions}
+          style={{ height: 480 }}
+        />
+        <div className="flex-1 min-w-0">
+          {/* Hidden rather than unmounted so test runs keep reporting */}
+          {tests && <div hidden={pane !== 'tests'}>{tests}</div>}
+          {previewStarted && <LivePreview demoEntry={demoEntry} pane={pane === 'tests' ? null : pane} />}
+        </div>
+      </SandpackLayout>
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { useTimer } from '@/hooks/useTimer';
+import { formatCountdown } from '@/utils/time';
+
+interface BreakScreenProps {
+  minutes: number;
+  /** `ran` is false when the break was skipped before time was up */
+  onDone: (ran: boolean) => void;
+}
+
+export function BreakScreen({ minutes, onDone }: BreakScreenProps) {
+  const timer = useTimer();
+  const { startCountdown } = timer;
+
+  useEffect(() => {
+    startCountdown(minutes * 60);
+  }, [minutes, startCountdown]);
+
+  return (
+    <div className="min-h-[70vh] flex flex-col items-center justify-center gap-4 font-ui text-center px-6">
+      <span className="text-4xl">☕</span>
+      <h2 className="m-0 text-lg font-bold text-[#f0f0f8]">Break</h2>
+      <span className="text-4xl font-bold tabular-nums text-accent">
+        {formatCountdown(Math.max(0, timer.remaining ?? 0))}
+      </span>
+      <p className="m-0 text-[13px] text-muted max-w-[360px]">
+        Step away from the screen. The next challenge starts when you&apos;re ready.
+      </p>
+      <button
+        onClick={() => onDone(timer.isTimeUp)}
+        className={
+          timer.isTimeUp
+            ? 'mt-2 text-[13px] font-semibold border border-accent bg-accent text-bg px-4 py-1.5 rounded-md cursor-pointer font-[inherit]'
+            : 'mt-2 text-[13px] text-muted border border-border bg-transparent px-4 py-1.5 rounded-md cursor-pointer font-[inherit]'
+        }
+      >
+        {timer.isTimeUp ? 'Start next challenge →' : 'Skip break'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { useProgressSelector } from '@/hooks/useProgress';
+import { FilterBar } from '@/components/filters/FilterBar';
+import { PageContainer } from '@/components/layout/PageContainer';
+import { cn } from '@/utils/cn';
+import { filterChallenges } from '@/utils/challengeFilters';
+import { buildSessionQueue, planMinutes, type PlanItem } from '@/utils/sessionPlan';
+import type { Category, Difficulty } from '@/types/challenge';
+
+interface SessionPlannerProps {
+  onStart: (items: PlanItem[]) => void;
+}
+
+const BUDGET_PRESETS = [25, 50, 90, 120];
+const BREAK_OPTIONS = [0, 5, 10];
+
+export function SessionPlanner({ onStart }: SessionPlannerProps) {
+  const navigate = useNavigate();
+  const completedIds = useProgressSelector((s) => s.data.completedIds);
+  const [budgetMinutes, setBudgetMinutes] = useState(90);
+  const [breakMinutes, setBreakMinutes] = useState(5);
+  const [skipCompleted, setSkipCompleted] = useState(true);
+  const [category, setCategory] = useState<'All' | Category>('All');
+  const [difficulty, setDifficulty] = useState<'All' | Difficulty>('All');
+  const [maxMinutes, setMaxMinutes] = useState<number | null>(null);
+
+  const items = useMemo(() => {
+    const candidates = filterChallenges(ALL_CHALLENGES, { category, difficulty, maxMinutes });
+    return buildSessionQueue(candidates, {
+      budgetMinutes,
+      breakMinutes,
+      skipCompleted,
+      completedIds: new Set(completedIds),
+    });
+  }, [category, difficulty, maxMinutes, budgetMinutes, breakMinutes, skipCompleted, completedIds]);
+
+  return (
+    <div className="bg-bg min-h-screen pb-16">
+      <div className="sticky top-0 z-10 flex items-center gap-4 px-6 py-3.5 bg-surface-2 border-b border-border">
+        <button
+          onClick={() => navigate('/')}
+          className="bg-transparent border border-[#333] text-muted px-3.5 py-1.5 rounded-md cursor-pointer text-[13px] font-[inherit]"
+        >
+          ← Back
+        </button>
+        <h1 className="m-0 text-base font-bold text-[#f0f0f8]">Plan a Practice Session</h1>
+      </div>
+
+      <PageContainer>
+        <div className="mt-7 flex flex-wrap items-end gap-6 font-ui text-xs text-muted">
+          <label className="flex flex-col gap-1.5">
+            Time budget (minutes)
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={5}
+                value={budgetMinutes}
+                onChange={(e) => setBudgetMinutes(Math.max(0, Number(e.target.value)))}
+                className="w-20 bg-surface border border-border rounded-md px-2.5 py-1.5 text-[13px] text-text font-[inherit]
+                           focus:outline-none focus:border-accent"
+              />
+              {BUDGET_PRESETS.map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setBudgetMinutes(m)}
+                  className={cn(
+                    'px-2 py-1 rounded border text-xs cursor-pointer font-[inherit]',
+                    budgetMinutes === m ? 'bg-accent text-bg border-accent' : 'bg-transparent border-border text-muted',
+                  )}
+                >
+                  {m}
+                </button>
+              ))}
+            </span>
+          </label>
+          <label className="flex flex-col gap-1.5">
+            Break between challenges
+            <select
+              value={breakMinutes}
+              onChange={(e) => setBreakMinutes(Number(e.target.value))}
+              className="bg-surface border border-border rounded-md px-2 py-1.5 text-[13px] text-text font-[inherit]"
+            >
+              {BREAK_OPTIONS.map((m) => (
+                <option key={m} value={m}>{m === 0 ? 'None' : `${m} min`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer pb-2">
+            <input
+              type="checkbox"
+              checked={skipCompleted}
+              onChange={(e) => setSkipCompleted(e.target.checked)}
+              className="accent-accent"
+            />
+            Skip completed challenges
+          </label>
+        </div>
+
+        <div className="mt-6">
+          <FilterBar
+            activeCategory={category}
+            activeDifficulty={difficulty}
+            onCategoryChange={setCategory}
+            onDifficultyChange={setDifficulty}
+            activeMaxMinutes={maxMinutes}
+            onMaxMinutesChange={setMaxMinutes}
+          />
+        </div>
+
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="m-0 text-[13px] font-bold uppercase tracking-widest text-[#555]">Queue</h2>
+          <span className="text-xs text-muted tabular-nums">{planMinutes(items)} of {budgetMinutes} min planned</span>
+        </div>
+        {items.length === 0 ? (
+          <p className="text-[13px] text-muted font-ui">No challenges fit this budget and filters.</p>
+        ) : (
+          <ol className="m-0 p-0 list-none flex flex-col gap-1.5 font-ui text-[13px]">
+            {items.map((item, i) => (
+              <li
+                key={i}
+                className={cn(
+                  'flex justify-between px-3 py-2 rounded-md border',
+                  item.kind === 'challenge' ? 'bg-surface border-border text-[#ddd]' : 'border-dashed border-border text-muted',
+                )}
+              >
+                <span>
+                  {item.kind === 'challenge'
+                    ? ALL_CHALLENGES.find((c) => c.id === item.challengeId)?.title
+                    : '☕ Break'}
+                </span>
+                <span className="tabular-nums text-muted">{item.minutes} min</span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <button
+          onClick={() => onStart(items)}
+          disabled={items.length === 0}
+          className="mt-6 w-full py-2.5 rounded-md border border-accent bg-accent text-bg text-sm font-semibold
+                     cursor-pointer font-[inherit] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Start session
+        </button>
+      </PageContainer>
+    </div>
+  );
+}
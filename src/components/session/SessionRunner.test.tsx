@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { SessionRunner } from './SessionRunner';
+import { ProgressProvider } from '@/components/progress/ProgressProvider';
+import type { PlanItem } from '@/utils/sessionPlan';
+
+vi.mock('@/data/challenges', async () => {
+  const { challenge } = await import('@/test/fixtures');
+  return { ALL_CHALLENGES: [challenge(1), challenge(2)] };
+});
+
+const items: PlanItem[] = [
+  { kind: 'challenge', challengeId: 1, minutes: 30 },
+  { kind: 'break', minutes: 5 },
+  { kind: 'challenge', challengeId: 2, minutes: 30 },
+];
+
+function renderSession(onFinish = vi.fn()) {
+  render(
+    <ProgressProvider total={2}>
+      <SessionRunner items={items} onFinish={onFinish} />
+    </ProgressProvider>,
+  );
+  return onFinish;
+}
+
+const wait = (seconds: number) => act(() => {
+  vi.advanceTimersByTime(seconds * 1000);
+});
+
+describe('SessionRunner', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('times each lap on the session clock and counts a break that ran', async () => {
+    const onFinish = renderSession();
+    expect(screen.getByText('Challenge 1 of 2')).toBeInTheDocument();
+
+    await wait(90);
+    fireEvent.click(screen.getByRole('button', { name: 'Mark Complete' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next →' }));
+
+    expect(screen.getByRole('heading', { name: 'Break' })).toBeInTheDocument();
+    await wait(5 * 60);
+    fireEvent.click(screen.getByRole('button', { name: 'Start next challenge →' }));
+
+    expect(screen.getByText('Challenge 2 of 2')).toBeInTheDocument();
+    await wait(60);
+    fireEvent.click(screen.getByRole('button', { name: 'Finish' }));
+
+    expect(onFinish).toHaveBeenCalledWith(
+      [
+        { challengeId: 1, seconds: 90, estimateSeconds: 1800, completed: true },
+        { challengeId: 2, seconds: 60, estimateSeconds: 1800, completed: false },
+      ],
+      450,
+      1,
+    );
+  });
+
+  it('does not count a skipped break', async () => {
+    const onFinish = renderSession();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Skip →' }));
+    await wait(30);
+    fireEvent.click(screen.getByRole('button', { name: 'Skip break' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Finish' }));
+
+    expect(onFinish).toHaveBeenCalledWith(expect.any(Array), 30, 0);
+  });
+});
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { useAttempts, useProgressActions } from '@/hooks/useProgress';
+import { useTimer } from '@/hooks/useTimer';
+import { ChallengeView } from '@/components/challenges/ChallengeView';
+import { cn } from '@/utils/cn';
+import { formatTime } from '@/utils/time';
+import { planMinutes, type PlanItem, type SessionLap } from '@/utils/sessionPlan';
+import { BreakScreen } from './BreakScreen';
+import type { Attempt } from '@/types/progress';
+
+interface SessionRunnerProps {
+  items: PlanItem[];
+  onFinish: (laps: SessionLap[], totalSeconds: number, breaksTaken: number) => void;
+}
+
+/**
+ * Runs the queue against one session clock; a lap is the stretch of it spent
+ * on a challenge, whatever that challenge's own timer says.
+ */
+export function SessionRunner({ items, onFinish }: SessionRunnerProps) {
+  const overall = useTimer();
+  const { recordAttempt } = useProgressActions();
+  const [index, setIndex] = useState(0);
+  const [laps, setLaps] = useState<SessionLap[]>([]);
+  const [breaksTaken, setBreaksTaken] = useState(0);
+  const [lapCompleted, setLapCompleted] = useState(false);
+  const [lapStartedAt, setLapStartedAt] = useState(0);
+
+  const item = items[index]!;
+  const challenge = item.kind === 'challenge' ? ALL_CHALLENGES.find((c) => c.id === item.challengeId) : undefined;
+  const attempts = useAttempts(challenge?.id ?? 0);
+  const challengeCount = items.filter((i) => i.kind === 'challenge').length;
+  const budgetSeconds = planMinutes(items) * 60;
+
+  const { start: startOverall } = overall;
+  useEffect(() => {
+    startOverall();
+  }, [startOverall]);
+
+  const handleSaveAttempt = useCallback((attempt: Attempt) => {
+    recordAttempt(attempt);
+    if (attempt.status === 'completed') setLapCompleted(true);
+  }, [recordAttempt]);
+
+  /** `breakRan` is whether a break was sat out rather than skipped */
+  const advance = (endEarly = false, breakRan = false) => {
+    let nextLaps = laps;
+    let nextBreaks = breaksTaken;
+    if (challenge) {
+      nextLaps = [...laps, {
+        challengeId: challenge.id,
+        seconds: overall.seconds - lapStartedAt,
+        estimateSeconds: item.minutes * 60,
+        completed: lapCompleted,
+      }];
+    } else if (breakRan) {
+      nextBreaks += 1;
+    }
+
+    if (endEarly || index + 1 >= items.length) {
+      onFinish(nextLaps, overall.seconds, nextBreaks);
+      return;
+    }
+    setLaps(nextLaps);
+    setBreaksTaken(nextBreaks);
+    setLapCompleted(false);
+    setLapStartedAt(overall.seconds);
+    setIndex(index + 1);
+  };
+
+  const lapNumber = laps.length + (challenge ? 1 : 0);
+
+  return (
+    <div className="pb-16">
+      {challenge ? (
+        <ChallengeView
+          key={index}
+          challenge={challenge}
+          attempts={attempts}
+          onBack={() => advance(true)}
+          onSaveAttempt={handleSaveAttempt}
+        />
+      ) : (
+        <BreakScreen key={index} minutes={item.minutes} onDone={(ran) => advance(false, ran)} />
+      )}
+
+      <div className="fixed bottom-0 inset-x-0 z-10 flex items-center justify-between gap-4 px-6 py-3 bg-surface-2 border-t border-border font-ui">
+        <div className="flex items-center gap-4 text-xs text-muted">
+          <span>
+            Session{' '}
+            <span className={cn('font-bold tabular-nums', overall.seconds > budgetSeconds ? 'text-warning' : 'text-[#f0f0f8]')}>
+              {formatTime(overall.seconds)}
+            </span>{' '}
+            / {formatTime(budgetSeconds)}
+          </span>
+          <span>
+            {challenge ? `Challenge ${lapNumber} of ${challengeCount}` : 'Break'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => advance(true)}
+            className="text-xs text-muted hover:text-error border border-border px-3 py-1.5 rounded cursor-pointer bg-transparent font-[inherit]"
+          >
+            End session
+          </button>
+          {challenge && (
+            <button
+              onClick={() => advance()}
+              className={cn(
+                'text-xs font-semibold border px-3 py-1.5 rounded cursor-pointer font-[inherit]',
+                lapCompleted ? 'bg-accent text-bg border-accent' : 'bg-transparent text-muted border-border',
+              )}
+            >
+              {index + 1 >= items.length ? 'Finish' : lapCompleted ? 'Next →' : 'Skip →'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
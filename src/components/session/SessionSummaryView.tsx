@@ -0,0 +1,84 @@
+import { useNavigate } from 'react-router-dom';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { PageContainer } from '@/components/layout/PageContainer';
+import { cn } from '@/utils/cn';
+import { formatTime } from '@/utils/time';
+import { summarizeSession, type SessionLap } from '@/utils/sessionPlan';
+
+interface SessionSummaryViewProps {
+  laps: SessionLap[];
+  totalSeconds: number;
+  breaksTaken: number;
+  onPlanAnother: () => void;
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-surface border border-border rounded-lg p-4">
+      <div className="text-[11px] font-semibold uppercase tracking-widest text-[#555]">{label}</div>
+      <div className="mt-1 text-xl font-bold text-[#f0f0f8] tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+export function SessionSummaryView({ laps, totalSeconds, breaksTaken, onPlanAnother }: SessionSummaryViewProps) {
+  const navigate = useNavigate();
+  const summary = summarizeSession(laps, totalSeconds, breaksTaken);
+
+  return (
+    <div className="bg-bg min-h-screen pb-16">
+      <PageContainer>
+        <h1 className="mt-10 mb-6 text-2xl font-bold text-[#f0f0f8] tracking-tight">Session complete</h1>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Tile label="Total time" value={formatTime(summary.totalSeconds)} />
+          <Tile label="Completed" value={`${summary.completed}/${summary.attempted}`} />
+          <Tile label="Over estimate" value={String(summary.overEstimate)} />
+          <Tile label="Breaks" value={String(summary.breaksTaken)} />
+        </div>
+
+        {laps.length > 0 && (
+          <table className="mt-8 w-full text-xs font-ui border-collapse">
+            <thead>
+              <tr className="text-left text-muted">
+                <th className="font-semibold pb-1.5">Challenge</th>
+                <th className="font-semibold pb-1.5">Lap</th>
+                <th className="font-semibold pb-1.5">Estimate</th>
+                <th className="font-semibold pb-1.5">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {laps.map((lap, i) => (
+                <tr key={i} className="border-t border-border text-[#bbb]">
+                  <td className="py-1.5">{ALL_CHALLENGES.find((c) => c.id === lap.challengeId)?.title}</td>
+                  <td className={cn('py-1.5 tabular-nums', lap.seconds > lap.estimateSeconds && 'text-warning')}>
+                    {formatTime(lap.seconds)}
+                  </td>
+                  <td className="py-1.5 tabular-nums">{formatTime(lap.estimateSeconds)}</td>
+                  <td className={cn('py-1.5 font-semibold', lap.completed ? 'text-accent' : 'text-muted')}>
+                    {lap.completed ? 'Completed' : 'Skipped'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="mt-8 flex gap-2">
+          <button
+            onClick={onPlanAnother}
+            className="text-[13px] font-semibold border border-accent bg-accent text-bg px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Plan another session
+          </button>
+          <button
+            onClick={() => navigate('/')}
+            className="text-[13px] text-muted border border-border bg-transparent px-4 py-1.5 rounded-md cursor-pointer font-[inherit]"
+          >
+            Back to challenges
+          </button>
+        </div>
+      </PageContainer>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import { SessionPlanner } from './SessionPlanner';
+import { SessionRunner } from './SessionRunner';
+import { SessionSummaryView } from './SessionSummaryView';
+import type { PlanItem, SessionLap } from '@/utils/sessionPlan';
+
+type Phase =
+  | { name: 'planning' }
+  | { name: 'running'; items: PlanItem[] }
+  | { name: 'summary'; laps: SessionLap[]; totalSeconds: number; breaksTaken: number };
+
+export function SessionView() {
+  const [phase, setPhase] = useState<Phase>({ name: 'planning' });
+
+  const handleStart = (items: PlanItem[]) => setPhase({ name: 'running', items });
+
+  switch (phase.name) {
+    case 'planning':
+      return <SessionPlanner onStart={handleStart} />;
+    case 'running':
+      return (
+        <SessionRunner
+          items={phase.items}
+          onFinish={(laps, totalSeconds, breaksTaken) => setPhase({ name: 'summary', laps, totalSeconds, breaksTaken })}
+        />
+      );
+    case 'summary':
+      return <SessionSummaryView {...phase} onPlanAnother={() => setPhase({ name: 'planning' })} />;
+  }
+}
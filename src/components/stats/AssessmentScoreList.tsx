@@ -0,0 +1,31 @@
+import { cn } from '@/utils/cn';
+import type { AssessmentSummary } from '@/utils/stats';
+
+interface AssessmentScoreListProps {
+  assessments: AssessmentSummary[];
+}
+
+export function AssessmentScoreList({ assessments }: AssessmentScoreListProps) {
+  if (assessments.length === 0) {
+    return <p className="m-0 text-[13px] text-muted font-ui">Score yourself against the rubric after completing a challenge.</p>;
+  }
+
+  return (
+    <ul className="m-0 p-0 list-none flex flex-col gap-3 font-ui text-xs">
+      {assessments.map((a) => (
+        <li key={a.challengeId}>
+          <div className="flex justify-between mb-1 gap-3">
+            <span className="text-[#bbb] truncate">{a.title}</span>
+            <span className="tabular-nums text-muted shrink-0">{a.score}%</span>
+          </div>
+          <div className="h-2 bg-border rounded-full overflow-hidden" aria-hidden="true">
+            <div
+              className={cn('h-full rounded-full', a.score >= 70 ? 'bg-accent/70' : 'bg-warning/70')}
+              style={{ width: `${a.score}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
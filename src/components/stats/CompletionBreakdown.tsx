@@ -0,0 +1,30 @@
+import type { CompletionBucket } from '@/utils/stats';
+
+interface CompletionBreakdownProps<K extends string> {
+  title: string;
+  buckets: CompletionBucket<K>[];
+}
+
+export function CompletionBreakdown<K extends string>({ title, buckets }: CompletionBreakdownProps<K>) {
+  return (
+    <div className="bg-surface border border-border rounded-lg p-4">
+      <h3 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">{title}</h3>
+      <ul className="m-0 p-0 list-none flex flex-col gap-2.5 font-ui text-xs">
+        {buckets.map((b) => (
+          <li key={b.key}>
+            <div className="flex justify-between mb-1">
+              <span className="text-[#bbb]">{b.key}</span>
+              <span className="text-muted tabular-nums">{b.completed}/{b.total}</span>
+            </div>
+            <div className="h-1.5 bg-border rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-accent to-[#0f3460] rounded-full"
+                style={{ width: `${(b.completed / b.total) * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { TimelinePoint } from '@/utils/stats';
+
+interface CompletionTimelineProps {
+  timeline: TimelinePoint[];
+  total: number;
+}
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year!, month! - 1, day).toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function CompletionTimeline({ timeline, total }: CompletionTimelineProps) {
+  if (timeline.length === 0) {
+    return <p className="m-0 text-[13px] text-muted font-ui">No dated completions yet.</p>;
+  }
+
+  return (
+    <div className="flex items-end gap-1.5 h-36 overflow-x-auto pb-6 font-ui" role="list">
+      {timeline.map((point) => (
+        <div
+          key={point.date}
+          role="listitem"
+          title={`${formatDay(point.date)}: +${point.count} (${point.cumulative} total)`}
+          className="relative flex flex-col justify-end h-full min-w-7 flex-1 max-w-12"
+        >
+          <span className="text-[10px] text-muted text-center tabular-nums mb-0.5">+{point.count}</span>
+          <div
+            className="bg-gradient-to-t from-[#0f3460] to-accent rounded-t"
+            style={{ height: `${(point.cumulative / total) * 100}%` }}
+          />
+          <span className="absolute -bottom-5 inset-x-0 text-[10px] text-[#555] text-center whitespace-nowrap">
+            {formatDay(point.date)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
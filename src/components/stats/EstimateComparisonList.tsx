@@ -0,0 +1,44 @@
+import { cn } from '@/utils/cn';
+import { formatTime } from '@/utils/time';
+import type { EstimateComparison } from '@/utils/stats';
+
+interface EstimateComparisonListProps {
+  comparisons: EstimateComparison[];
+}
+
+export function EstimateComparisonList({ comparisons }: EstimateComparisonListProps) {
+  if (comparisons.length === 0) {
+    return <p className="m-0 text-[13px] text-muted font-ui">Complete a challenge with the timer running to compare against its estimate.</p>;
+  }
+
+  // Every bar shares one scale so lengths are comparable across rows
+  const scale = Math.max(...comparisons.flatMap((c) => [c.actualSeconds, c.estimateSeconds]));
+
+  return (
+    <ul className="m-0 p-0 list-none flex flex-col gap-3 font-ui text-xs">
+      {comparisons.map((c) => (
+        <li key={c.challengeId}>
+          <div className="flex justify-between mb-1 gap-3">
+            <span className="text-[#bbb] truncate">{c.title}</span>
+            <span className="tabular-nums text-muted shrink-0">
+              {formatTime(c.actualSeconds)} / {formatTime(c.estimateSeconds)}
+              <span className={cn('ml-2 font-semibold', c.overrun > 0 ? 'text-warning' : 'text-accent')}>
+                {c.overrun > 0 ? '+' : ''}{Math.round(c.overrun * 100)}%
+              </span>
+            </span>
+          </div>
+          <div className="relative h-2 bg-border rounded-full overflow-hidden" aria-hidden="true">
+            <div
+              className={cn('absolute inset-y-0 left-0 rounded-full', c.overrun > 0 ? 'bg-warning/70' : 'bg-accent/70')}
+              style={{ width: `${(c.actualSeconds / scale) * 100}%` }}
+            />
+            <div
+              className="absolute inset-y-0 w-0.5 bg-text"
+              style={{ left: `calc(${(c.estimateSeconds / scale) * 100}% - 1px)` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
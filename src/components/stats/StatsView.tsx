@@ -0,0 +1,92 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { useProgressSelector } from '@/hooks/useProgress';
+import { PageContainer } from '@/components/layout/PageContainer';
+import { computeStats } from '@/utils/stats';
+import { CompletionBreakdown } from './CompletionBreakdown';
+import { EstimateComparisonList } from './EstimateComparisonList';
+import { CompletionTimeline } from './CompletionTimeline';
+import { AssessmentScoreList } from './AssessmentScoreList';
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+function StatTile({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-surface border border-border rounded-lg p-4">
+      <div className="text-[11px] font-semibold uppercase tracking-widest text-[#555]">{label}</div>
+      <div className="mt-1 text-2xl font-bold text-[#f0f0f8] tabular-nums">{value}</div>
+      {detail && <div className="mt-0.5 text-xs text-muted font-ui">{detail}</div>}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="mt-8">
+      <h2 className="m-0 mb-3 text-[13px] font-bold uppercase tracking-widest text-[#555]">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+export function StatsView() {
+  const navigate = useNavigate();
+  const data = useProgressSelector((s) => s.data);
+  const stats = useMemo(() => computeStats(ALL_CHALLENGES, data), [data]);
+  const { reveals, averageOverrun } = stats;
+
+  return (
+    <div className="bg-bg min-h-screen pb-16">
+      <div className="sticky top-0 z-10 flex items-center gap-4 px-6 py-3.5 bg-surface-2 border-b border-border">
+        <button
+          onClick={() => navigate('/')}
+          className="bg-transparent border border-[#333] text-muted px-3.5 py-1.5 rounded-md cursor-pointer text-[13px] font-[inherit]"
+        >
+          ← Back
+        </button>
+        <h1 className="m-0 text-base font-bold text-[#f0f0f8]">Progress Stats</h1>
+      </div>
+
+      <PageContainer>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-7">
+          <StatTile label="Completed" value={`${stats.completed}/${stats.total}`} detail={percent(stats.completed / stats.total)} />
+          <StatTile
+            label="Avg overrun"
+            value={averageOverrun === null ? '—' : `${averageOverrun > 0 ? '+' : ''}${percent(averageOverrun)}`}
+            detail={averageOverrun === null ? 'no timed completions' : 'vs time estimate'}
+          />
+          <StatTile label="Hints used" value={percent(reveals.hintRate)} detail={`of ${reveals.attempts} attempts`} />
+          <StatTile label="Solution viewed" value={percent(reveals.solutionRate)} detail={`of ${reveals.attempts} attempts`} />
+        </div>
+
+        <Section title="Completion">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <CompletionBreakdown title="By category" buckets={stats.byCategory} />
+            <CompletionBreakdown title="By difficulty" buckets={stats.byDifficulty} />
+          </div>
+        </Section>
+
+        <Section title="Actual vs estimate">
+          <EstimateComparisonList comparisons={stats.comparisons} />
+        </Section>
+
+        <Section
+          title={stats.averageAssessment === null ? 'Self-assessment' : `Self-assessment · avg ${stats.averageAssessment}%`}
+        >
+          <AssessmentScoreList assessments={stats.assessments} />
+        </Section>
+
+        <Section title="Timeline">
+          <CompletionTimeline timeline={stats.timeline} total={stats.total} />
+          {stats.undatedCompletions > 0 && (
+            <p className="mt-2 mb-0 text-xs text-muted font-ui">
+              {stats.undatedCompletions} earlier {stats.undatedCompletions === 1 ? 'completion has' : 'completions have'} no
+              date and {stats.undatedCompletions === 1 ? 'is' : 'are'} counted from the start.
+            </p>
+          )}
+        </Section>
+      </PageContainer>
+    </div>
+  );
+}
@@ -1,20 +1,38 @@
 import { codeToHtml } from 'shiki';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { cn } from '@/utils/cn';
+import type { LineRange } from '@/utils/walkthrough';
 
 interface CodeBlockProps {
   code: string;
   language?: string;
   className?: string;
+  /** Lines to emphasise; the block scrolls them into view when it changes */
+  highlight?: LineRange;
 }
 
-export function CodeBlock({ code, language = 'jsx', className }: CodeBlockProps) {
+export function CodeBlock({ code, language = 'jsx', className, highlight }: CodeBlockProps) {
   const [html, setHtml] = useState('');
   const [copied, setCopied] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const start = highlight?.start;
+  const end = highlight?.end;
 
   useEffect(() => {
-    codeToHtml(code, { lang: language, theme: 'one-dark-pro' }).then(setHtml);
-  }, [code, language]);
+    codeToHtml(code, {
+      lang: language,
+      theme: 'one-dark-pro',
+      transformers: start === undefined || end === undefined ? [] : [{
+        line(node, line) {
+          if (line >= start && line <= end) this.addClassToHast(node, 'highlighted');
+        },
+      }],
+    }).then(setHtml);
+  }, [code, language, start, end]);
+
+  useEffect(() => {
+    containerRef.current?.querySelector('.highlighted')?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, [html]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(code);
@@ -25,7 +43,10 @@ export function CodeBlock({ code, language = 'jsx', className }: CodeBlockProps)
   return (
     <div className={cn('relative group', className)}>
       <div
-        className="overflow-x-auto rounded-lg border border-border text-[13px] leading-relaxed [&_pre]:!m-0 [&_pre]:!p-[18px_20px] [&_pre]:!bg-[#0d0d18]"
+        ref={containerRef}
+        className="overflow-x-auto rounded-lg border border-border text-[13px] leading-relaxed [&_pre]:!m-0 [&_pre]:!p-[18px_20px] [&_pre]:!bg-[#0d0d18]
+                   [&_.highlighted]:inline-block [&_.highlighted]:min-w-full [&_.highlighted]:bg-accent/10
+                   [&_.highlighted]:shadow-[inset_2px_0_0_var(--color-accent)]"
         dangerouslySetInnerHTML={{ __html: html }}
       />
       <button
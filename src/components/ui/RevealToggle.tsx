@@ -5,15 +5,18 @@ interface RevealToggleProps {
   onToggle: () => void;
   label: string;
   variant?: 'default' | 'solution';
+  disabled?: boolean;
 }
 
-export function RevealToggle({ isOpen, onToggle, label, variant = 'default' }: RevealToggleProps) {
+export function RevealToggle({ isOpen, onToggle, label, variant = 'default', disabled = false }: RevealToggleProps) {
   return (
     <button
       onClick={onToggle}
       aria-expanded={isOpen}
+      disabled={disabled}
       className={cn(
         'w-full text-center py-2.5 px-5 rounded-md border text-sm font-semibold transition-all mb-3 cursor-pointer font-[inherit]',
+        'disabled:opacity-50 disabled:cursor-not-allowed',
         variant === 'solution' && isOpen && 'bg-error/10 border-error text-error',
         variant === 'solution' && !isOpen && 'bg-accent/10 border-accent text-accent',
         variant === 'default' && 'bg-white/[0.04] border-border text-muted',
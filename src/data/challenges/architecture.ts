@@ -6,7 +6,7 @@ export const architectureChallenges: Challenge[] = [
     category: "Architecture",
     difficulty: "Expert",
     title: "Nested Drag-and-Drop with Collision Detection",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Design and implement the state management and collision detection logic for a nested drag-and-drop system — like a Kanban board where cards can be dragged between columns AND columns can be reordered. The tricky part: you must determine whether the user intends to drop INTO a container (inserting a card) or BETWEEN containers (reordering columns) based on pointer position relative to drop zones.",
     realWorld:
@@ -316,7 +316,7 @@ describe('useDragAndDrop', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Plugin Architecture with React Context Composition",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Design a plugin system for a React application where third-party plugins can register UI slots, middleware, and state extensions — without the host application knowing about them at build time. Think VS Code extensions or Figma plugins but for a React app. Plugins must be isolated (one crashing plugin can't take down the app), lazily loaded, and able to communicate through a typed event bus.",
     realWorld:
@@ -599,13 +599,21 @@ describe('createEventBus', () => {
     ],
     followUp:
       "How would you add plugin permissions (e.g., plugin X can only write to shared state key 'theme')? How would you handle plugin dependencies (plugin B requires plugin A)? How would you version the PluginAPI for backward compatibility?",
+    requirementTests: {
+      2: [
+        "on registers a handler that receives emitted payloads",
+        "multiple handlers can subscribe to the same event",
+        "on returns an unsubscribe function",
+        "different events are independent",
+      ],
+    },
   },
   {
     id: 10,
     category: "Architecture",
     difficulty: "Expert",
     title: "Optimistic Mutation Queue with Conflict Resolution",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build an optimistic mutation system that queues multiple mutations, applies them instantly to the UI, sends them to the server in order, and handles partial failures with surgical rollback — without reverting mutations that succeeded. Handle the case where two mutations affect the same entity and the server returns a different result than expected (conflict).",
     realWorld:
@@ -843,7 +851,7 @@ describe('useOptimisticMutations', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Accessible Headless Combobox Component",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a fully accessible, headless combobox (autocomplete/typeahead) component that follows the WAI-ARIA Combobox pattern exactly. It must support keyboard navigation, screen reader announcements, async option loading, and work with any rendering approach (the consumer provides all JSX). This is the pattern used by Radix UI, Headless UI, and Downshift.",
     realWorld:
@@ -1181,6 +1189,38 @@ describe('useCombobox', () => {
     expect(result.current.inputValue).toBe('');
   });
 });`,
+    demoEntry: `import { useState } from 'react';
+import { useCombobox } from './implementation';
+
+const FRUITS = ['Apple', 'Apricot', 'Banana', 'Blueberry', 'Cherry', 'Grape', 'Mango', 'Peach', 'Pear', 'Plum'];
+
+export default function Demo() {
+  const [query, setQuery] = useState('');
+  const items = FRUITS.filter((fruit) => fruit.toLowerCase().includes(query.toLowerCase()));
+  const combobox = useCombobox({ items, onInputChange: setQuery });
+
+  return (
+    <div style={{ padding: 24, fontFamily: 'sans-serif', width: 280 }}>
+      <label {...combobox.getLabelProps()}>Fruit</label>
+      <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+        <input {...combobox.getInputProps()} style={{ flex: 1 }} />
+        <button {...combobox.getToggleProps()}>▾</button>
+      </div>
+      <ul {...combobox.getMenuProps()} style={{ listStyle: 'none', margin: 0, padding: 0, maxHeight: 160, overflowY: 'auto' }}>
+        {combobox.isOpen && items.map((item, index) => (
+          <li
+            key={item}
+            {...combobox.getItemProps({ item, index })}
+            style={{ padding: '4px 8px', cursor: 'pointer', background: combobox.highlightedIndex === index ? '#dbeafe' : 'transparent' }}
+          >
+            {item}
+          </li>
+        ))}
+      </ul>
+      <p style={{ color: '#666', fontSize: 13 }}>Selected: {combobox.selectedItem ?? 'none'}</p>
+    </div>
+  );
+}`,
     keyPoints: [
       "aria-activedescendant is the key ARIA attribute — it tells screen readers which option is 'focused' without actually moving DOM focus from the input. This is how all major combobox implementations work",
       "The 'prop getters' pattern (getInputProps, getItemProps) was pioneered by Downshift — consumers spread props onto their elements, giving them full rendering control while the hook manages behavior",
@@ -1196,7 +1236,7 @@ describe('useCombobox', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Middleware Pipeline for React Hooks",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a composable middleware system for React state updates — like Express middleware but for useReducer. Each middleware can intercept dispatched actions, transform them, perform side effects (logging, analytics, persistence), short-circuit, or dispatch additional actions. Support async middleware (e.g., API calls before allowing a state transition). This is the pattern that Redux middleware, Zustand middleware, and SWR middleware all implement.",
     realWorld:
@@ -1479,7 +1519,7 @@ describe('useReducerWithMiddleware', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Real-Time Collaborative State with Conflict Resolution",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a collaborative state hook where multiple users edit the same data simultaneously through WebSocket events. Implement a Last-Writer-Wins (LWW) register with vector clocks for conflict detection, an operation queue for offline support, and automatic reconnection with state reconciliation. This is a simplified version of the architecture used by Figma, Google Docs, and Linear.",
     realWorld:
@@ -1797,6 +1837,15 @@ describe('Vector Clock Utilities', () => {
     expect(areConcurrent(a, b)).toBe(false);
   });
 });`,
+    contract: `/** Counter per user id */
+export type VectorClock = Record<string, number>;
+
+export declare function createClock(userId: string): VectorClock;
+/** Returns a new clock; the input is left unchanged */
+export declare function incrementClock(clock: VectorClock, userId: string): VectorClock;
+export declare function mergeClock(a: VectorClock, b: VectorClock): VectorClock;
+export declare function happenedBefore(a: VectorClock, b: VectorClock): boolean;
+export declare function areConcurrent(a: VectorClock, b: VectorClock): boolean;`,
     keyPoints: [
       "Vector clocks track causality: if Alice's clock is {alice:3, bob:2} and Bob's is {alice:2, bob:4}, their edits are concurrent — neither fully 'happened before' the other. This is how distributed systems detect conflicts without a central server",
       "Last-Writer-Wins (LWW) with field-level granularity means concurrent edits to DIFFERENT fields both apply, but concurrent edits to the SAME field use timestamp as tiebreaker. This is simpler than OT or CRDTs but works well for most collaborative UIs",
@@ -1806,13 +1855,78 @@ describe('Vector Clock Utilities', () => {
     ],
     followUp:
       "How would you implement Operational Transform instead of LWW for text editing? How do CRDTs (Yjs, Automerge) differ from this approach? How would you add presence indicators (cursors, selections) using the same WebSocket? How does Figma's approach differ from Google Docs'?",
+    walkthrough: [
+      {
+        title: "Vector clocks",
+        startLine: 1,
+        endLine: 16,
+        explanation:
+          "Each client keeps a counter per user. Incrementing your own entry marks a local edit, and merging takes the per-user maximum so the clock summarises everything this client has seen.",
+      },
+      {
+        title: "Causality and concurrency",
+        startLine: 18,
+        endLine: 34,
+        explanation:
+          "a happened before b when no entry in a is ahead of b and at least one is behind. If neither clock happened before the other, the edits were made without seeing each other — that is the only case that needs conflict resolution.",
+      },
+      {
+        title: "Hook state and refs",
+        startLine: 36,
+        endLine: 48,
+        explanation:
+          "Render state drives the UI, while refs hold the clock, the latest document, the offline queue and the socket. WebSocket callbacks read the refs so they never see a stale closure.",
+      },
+      {
+        title: "Immutable path updates",
+        startLine: 49,
+        endLine: 62,
+        explanation:
+          "Edits address a field by dotted path. setPath clones before writing so React sees a new object and older snapshots stay intact for conflict reporting.",
+      },
+      {
+        title: "Applying remote operations",
+        startLine: 64,
+        endLine: 102,
+        explanation:
+          "Concurrent remote edits go through last-writer-wins and are recorded in conflicts either way, so the UI can show what was overwritten. Causally later edits apply directly. Both paths merge the remote clock, so future comparisons account for it.",
+      },
+      {
+        title: "Optimistic local updates",
+        startLine: 104,
+        endLine: 130,
+        explanation:
+          "A local edit ticks our clock, applies immediately and is then sent. While offline it is queued instead, and pendingOps tells the UI how much is waiting to sync.",
+      },
+      {
+        title: "Connection lifecycle",
+        startLine: 132,
+        endLine: 149,
+        explanation:
+          "On open, the offline queue is flushed in order before anything else is sent. This is the replay half of offline-first editing: the server sees edits in the order they were made.",
+      },
+      {
+        title: "Message handling",
+        startLine: 151,
+        endLine: 167,
+        explanation:
+          "Ops from other users are merged with applyOp, and our own echoes are ignored. Peer lists drive presence, and a sync message replaces both state and clock after a reconnect.",
+      },
+      {
+        title: "Reconnect with jitter",
+        startLine: 169,
+        endLine: 187,
+        explanation:
+          "A closed socket schedules a reconnect with a random delay so clients do not all return at once after a server restart. Errors route through close so there is a single retry path, and the effect cleanup cancels everything.",
+      },
+    ],
   },
   {
     id: 19,
     category: "Architecture",
     difficulty: "Expert",
     title: "Custom React Reconciler (Mini Renderer)",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a minimal custom React renderer using the `react-reconciler` package that targets an in-memory tree (like rendering to Canvas, terminal, or PDF). Implement the host config methods (createInstance, appendChild, removeChild, commitUpdate) so that standard React components with state, effects, and context render into your custom target. This demonstrates deep understanding of React's architecture — the separation between reconciliation (diffing) and rendering (committing).",
     realWorld:
@@ -2140,13 +2254,71 @@ describe('TreeNode', () => {
     ],
     followUp:
       "How would you add event handling to your renderer (onClick, onHover)? How would you implement partial updates for a Canvas renderer (only redraw changed regions)? How does React Three Fiber handle the Three.js scene graph as a render target?",
+    walkthrough: [
+      {
+        title: "The host tree",
+        startLine: 1,
+        endLine: 32,
+        explanation:
+          "TreeNode is the renderer's equivalent of a DOM node. It supports the three mutations React needs — append, insert-before and remove — and children are left out of props because the reconciler manages them as real nodes.",
+      },
+      {
+        title: "Serialising the output",
+        startLine: 34,
+        endLine: 43,
+        explanation:
+          "serialize turns the tree into plain JSON, which is the renderer's output format. Text nodes collapse to their string, and empty props and children are omitted so snapshots stay readable.",
+      },
+      {
+        title: "Creating instances",
+        startLine: 46,
+        endLine: 57,
+        explanation:
+          "supportsMutation selects the mutation mode of the reconciler, which is the mode ReactDOM uses. createInstance and createTextInstance are the only places host nodes are constructed.",
+      },
+      {
+        title: "Mutation methods",
+        startLine: 59,
+        endLine: 66,
+        explanation:
+          "Each method forwards to TreeNode. The *Container variants exist because the root container is a different type from regular instances in most renderers, even though here they share a class.",
+      },
+      {
+        title: "Diffing props in prepareUpdate",
+        startLine: 68,
+        endLine: 89,
+        explanation:
+          "This runs during the render phase and must stay pure. It compares old and new props with Object.is and returns a payload of changes — removed keys map to undefined — or null, which tells React to skip the commit for this node.",
+      },
+      {
+        title: "Committing updates",
+        startLine: 91,
+        endLine: 100,
+        explanation:
+          "commitUpdate applies the payload prepareUpdate produced, in the commit phase where mutation is allowed. Splitting diffing from applying is what lets React interrupt rendering without leaving the host tree half-updated.",
+      },
+      {
+        title: "Host context and commit hooks",
+        startLine: 102,
+        endLine: 128,
+        explanation:
+          "The remaining config mostly returns defaults. resetAfterCommit is the useful one: it fires once per commit, which is where a canvas or terminal renderer would repaint. The scheduling entries tell React how to set timeouts and which priority events get.",
+      },
+      {
+        title: "Creating the root and rendering",
+        startLine: 130,
+        endLine: 150,
+        explanation:
+          "Reconciler(hostConfig) builds the renderer. render creates a root container once — what createRoot does under the hood — and every call after that schedules an update on the same root, so React reconciles against the previous tree.",
+      },
+    ],
   },
   {
     id: 20,
     category: "Architecture",
     difficulty: "Expert",
     title: "Server-Driven UI Renderer",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a Server-Driven UI (SDUI) system where the server sends a JSON descriptor of the entire page layout, and the React client dynamically renders it using a component registry. Support layout components (Stack, Grid), action handlers (navigation, API calls), conditional rendering based on user data, and graceful fallbacks for unknown component types. This is the architecture Airbnb's Ghost Platform, Instagram, and Shopify use to ship UI changes without app updates.",
     realWorld:
@@ -2217,6 +2389,25 @@ function createSDUIRenderer(registry) {
 // </ActionProvider>`,
     solutionCode: `const ActionContext = createContext(null);
 
+// Evaluate conditions against user data
+function evaluateConditions(conditions, userData) {
+  if (!conditions || conditions.length === 0) return true;
+
+  return conditions.every(condition => {
+    const value = condition.field.split('.').reduce(
+      (obj, key) => obj?.[key], userData
+    );
+
+    if ('equals' in condition) return value === condition.equals;
+    if ('notEquals' in condition) return value !== condition.notEquals;
+    if ('in' in condition) return condition.in.includes(value);
+    if ('exists' in condition) return condition.exists ? value != null : value == null;
+    if ('gt' in condition) return value > condition.gt;
+    if ('lt' in condition) return value < condition.lt;
+    return true;
+  });
+}
+
 function createSDUIRenderer(initialRegistry = {}) {
   const registry = new Map(Object.entries(initialRegistry));
 
@@ -2224,25 +2415,6 @@ function createSDUIRenderer(initialRegistry = {}) {
     registry.set(name, component);
   }
 
-  // Evaluate conditions against user data
-  function evaluateConditions(conditions, userData) {
-    if (!conditions || conditions.length === 0) return true;
-
-    return conditions.every(condition => {
-      const value = condition.field.split('.').reduce(
-        (obj, key) => obj?.[key], userData
-      );
-
-      if ('equals' in condition) return value === condition.equals;
-      if ('notEquals' in condition) return value !== condition.notEquals;
-      if ('in' in condition) return condition.in.includes(value);
-      if ('exists' in condition) return condition.exists ? value != null : value == null;
-      if ('gt' in condition) return value > condition.gt;
-      if ('lt' in condition) return value < condition.lt;
-      return true;
-    });
-  }
-
   // Wrap actions into callable functions
   function useActions(actionMap) {
     const handlers = useContext(ActionContext);
@@ -2460,7 +2632,7 @@ describe('createSDUIRenderer', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Resilient Error Boundary with Retry and Recovery",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a production-grade ErrorBoundary that goes beyond React's basic getDerivedStateFromError. Support: automatic retry with exponential backoff, manual retry via reset callback, error reporting to monitoring services, fallback component props (pass error + retry to fallback), granular recovery (reset only the failed subtree), and error deduplication to prevent flood-reporting the same error.",
     realWorld:
@@ -2757,7 +2929,7 @@ describe('ErrorBoundary', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Permission-Guarded Component Tree (RBAC)",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a declarative Role-Based Access Control (RBAC) system for React that controls component visibility, feature access, and action permissions. Support hierarchical roles (Admin > Manager > User), fine-grained permissions (can:edit:posts), a <Can> guard component, a usePermission hook, and optimistic permission checking that doesn't block rendering. This is the authorization layer every SaaS product needs.",
     realWorld:
@@ -3006,6 +3178,26 @@ describe('PermissionEngine', () => {
     expect(engine.can('edit', 'Post')).toBe(false);
   });
 });`,
+    contract: `export interface User {
+  id: string;
+  roles: string[];
+  [field: string]: unknown;
+}
+
+export interface Permission {
+  /** 'manage' grants create/read/edit/delete; '*' matches any action */
+  action: string;
+  /** '*' matches any resource */
+  resource: string;
+  /** Fields the checked data must match */
+  condition?: Record<string, unknown>;
+}
+
+export declare class PermissionEngine {
+  constructor(user: User, permissions: Permission[], roleHierarchy?: Record<string, string[]>);
+  can(action: string, resource: string, data?: Record<string, unknown>): boolean;
+  cannot(action: string, resource: string, data?: Record<string, unknown>): boolean;
+}`,
     keyPoints: [
       "The permission engine separates authorization logic from React — it's a pure class that can be tested independently, reused on the server, and shared across components. CASL uses the same architecture",
       "'manage' action expanding to all CRUD actions mirrors CASL's convention and simplifies admin role definitions — one permission rule covers create, read, edit, delete, and list",
@@ -3021,7 +3213,7 @@ describe('PermissionEngine', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Roving Tabindex Keyboard Navigation Manager",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a reusable roving tabindex system for composite widgets (toolbars, menus, listboxes, grids) following WAI-ARIA Authoring Practices Guide keyboard interaction patterns. Only the currently active item in the group has tabindex=\"0\" while all siblings have tabindex=\"-1\", enabling a single Tab stop for the entire widget. Must handle Arrow key navigation, Home/End keys, wrapping at boundaries, skipping disabled items, and typeahead character search to jump to items by their text content.",
     realWorld:
@@ -3355,7 +3547,7 @@ describe('useRovingTabindex', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Retry Queue with Exponential Backoff and Circuit Breaker",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a request retry system with exponential backoff, jitter, maximum retry limits, and a circuit breaker pattern that stops attempting requests after N consecutive failures for a cooldown period. Integrate the system into React via a useRetry hook that exposes request state, manual retry triggers, and circuit breaker status. Must support AbortController for cancellation and navigator.onLine for offline detection.",
     realWorld:
@@ -3697,6 +3889,37 @@ describe('calculateDelay', () => {
     }
   });
 });`,
+    contract: `export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  /** 'closed', 'open' or 'half-open' */
+  state: string;
+  failures: number;
+}
+
+export interface CircuitBreaker {
+  getState(): CircuitBreakerSnapshot;
+  canExecute(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  reset(): void;
+  subscribe(listener: (snapshot: CircuitBreakerSnapshot) => void): () => void;
+}
+
+export interface DelayOptions {
+  attempt: number;
+  baseDelay: number;
+  multiplier: number;
+  maxDelay: number;
+  /** Full jitter: a random delay between 0 and the capped delay */
+  jitter: boolean;
+}
+
+export declare function createCircuitBreaker(options?: CircuitBreakerOptions): CircuitBreaker;
+export declare function calculateDelay(options: DelayOptions): number;`,
     keyPoints: [
       "The circuit breaker state machine has three states: 'closed' (normal), 'open' (rejecting all requests), and 'half-open' (allowing one test request). The open-to-half-open transition is time-based, checked lazily in canExecute() rather than with a timer — this avoids unnecessary timers and matches the Hystrix pattern",
       "Full jitter (Math.random() * cappedDelay) prevents the thundering herd problem — if 1000 clients all fail at the same time, their retries will spread across the full delay window instead of all hitting the server at exactly baseDelay * 2^attempt. AWS's Marc Brooker showed this outperforms both no-jitter and equal-jitter strategies",
@@ -3712,7 +3935,7 @@ describe('calculateDelay', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Dependency Injection Container for React",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a dependency injection container that allows registering services (API clients, loggers, analytics providers, feature flag evaluators) and injecting them into React components via hooks. Support scoped overrides for testing (swap a real API client for a mock), lazy initialization (services created on first use), and singleton vs transient lifetime management. The container should be hierarchical — child providers can override parent registrations without affecting siblings.",
     realWorld:
@@ -4010,7 +4233,7 @@ describe('Dependency Injection Container', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Multi-Tab State Synchronization (BroadcastChannel)",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a cross-tab state synchronization system using the BroadcastChannel API that keeps selected state consistent across all open browser tabs. Implement leader election so one tab owns write authority, conflict resolution when a new tab claims leadership, selective sync (only specified state slices are shared), and graceful degradation when BroadcastChannel is unavailable. The system must integrate with React via a hook that feels like useState but syncs across tabs.",
     realWorld:
@@ -4358,7 +4581,7 @@ describe('Multi-Tab State Synchronization', () => {
     category: "Architecture",
     difficulty: "Expert",
     title: "Isomorphic Data Loader with Streaming Support",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a data loading system that works identically on server and client, supports progressive streaming (render shell immediately, fill in data as it arrives), serializes server-fetched data into the HTML so the client can hydrate without refetching, and integrates with React Suspense for loading boundaries. The loader must handle parallel data fetching, waterfall prevention, and error boundaries for individual data segments.",
     realWorld:
@@ -4667,7 +4890,7 @@ describe('Isomorphic Data Loader', () => {
   test('LoaderProvider hydrates from serializedData without refetch', async () => {
     const fetchFn = jest.fn().mockResolvedValue({ val: 'fresh' });
     const loader = createLoader(fetchFn);
-    const cacheKey = \\\`\\\${loader.id}:\\\${JSON.stringify({ id: '1' })}\\\`;
+    const cacheKey = \`\${loader.id}:\${JSON.stringify({ id: '1' })}\`;
 
     const serializedData = {
       [cacheKey]: { value: { val: 'cached' }, timestamp: Date.now() },
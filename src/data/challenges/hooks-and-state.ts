@@ -6,7 +6,7 @@ export const hooksAndStateChallenges: Challenge[] = [
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Build useSyncExternalStore from Scratch",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Implement a polyfill for React 18's useSyncExternalStore — the hook that bridges external mutable stores with React's concurrent rendering. Your implementation must handle the tearing problem: ensuring the UI never shows inconsistent state when React renders parts of the tree at different times during concurrent features like useTransition.",
     realWorld:
@@ -237,13 +237,43 @@ describe('useSyncExternalStoreShim', () => {
     ],
     followUp:
       "Why did React need useSyncExternalStore instead of just useEffect + setState? How does this relate to the useMutableSource RFC that was abandoned? What are the implications for libraries like Redux and Zustand?",
+    requirementTests: {
+      0: ["updates when store changes", "unsubscribes on unmount"],
+      1: ["returns the initial snapshot"],
+      3: ["does not re-render when snapshot is unchanged"],
+    },
+    rubric: [
+      {
+        id: "tearing",
+        label: "Tearing detection",
+        weight: 3,
+        levels: ["Missing", "Checks only on subscribe", "Re-checks the snapshot after commit and forces a re-render"],
+      },
+      {
+        id: "subscription",
+        label: "Subscription lifecycle",
+        weight: 2,
+        levels: ["Leaks or resubscribes every render", "Subscribes once but misses changes before subscribing", "Stable, cleaned up, and catches the subscribe race"],
+      },
+      {
+        id: "render-loops",
+        label: "No infinite render loops",
+        weight: 2,
+        levels: ["Loops on new object snapshots", "Guarded with Object.is"],
+      },
+      {
+        id: "ssr",
+        label: "Server snapshot",
+        levels: ["Missing", "Uses getServerSnapshot when provided"],
+      },
+    ],
   },
   {
     id: 2,
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Finite State Machine with useReducer",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Implement a generic `useStateMachine` hook that enforces valid state transitions at runtime. The hook should make illegal states unrepresentable — if a transition isn't defined for the current state, the dispatch is silently ignored. Include support for entry/exit side effects, guards (conditional transitions), and extended state (context) that accompanies the finite state.",
     realWorld:
@@ -495,7 +525,7 @@ describe('useStateMachine', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Undo/Redo System with Command Pattern",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a generic `useUndoRedo` hook that supports undo/redo for ANY reducer — but instead of storing full state snapshots (which is expensive for large state trees), use the Command pattern: store invertible operations that can be applied forward or backward. Support command coalescing (merge rapid keystrokes into a single undo step) and a configurable max history size.",
     realWorld:
@@ -737,7 +767,7 @@ describe('useUndoRedo', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Proxy-Based Form State Manager",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a form state management hook inspired by react-hook-form's architecture. Use JavaScript Proxies to track which fields a component actually reads, so only the relevant parts of the form re-render when a field changes. Support nested fields (address.city), field-level validation with async validators, and dirty/touched tracking — all without re-rendering the entire form on every keystroke.",
     realWorld:
@@ -1042,7 +1072,7 @@ describe('Proxy-Based Form State Manager', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Selectable Context (Solve the Re-Render Problem)",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "React Context has a fundamental limitation: when ANY part of a context value changes, ALL consumers re-render — even if they only use a slice that didn't change. Build a `createSelectableContext` that solves this by implementing a subscription-based store with selector support, so components only re-render when their selected slice actually changes. This is the exact pattern used by Zustand, Redux, and the proposed React useContextSelector RFC.",
     realWorld:
@@ -1266,7 +1296,7 @@ describe('Selectable Context', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Compound Components with Implicit State Sharing",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a compound component system (like Radix UI's Tabs, Accordion, or Select) where parent and child components share implicit state without prop drilling. Children don't receive state via props — they discover it via context. Support component composition where children can be wrapped in arbitrary DOM/layout elements, controlled/uncontrolled modes, and automatic index-based registration for keyboard navigation.",
     realWorld:
@@ -1534,6 +1564,25 @@ describe('Compound Components (Tabs)', () => {
     expect(screen.getByRole('tabpanel')).toBeTruthy();
   });
 });`,
+    demoEntry: `import { Tabs } from './implementation';
+
+export default function Demo() {
+  return (
+    <div style={{ padding: 24, fontFamily: 'sans-serif' }}>
+      <Tabs defaultValue="account">
+        <Tabs.List aria-label="Settings" style={{ display: 'flex', gap: 4, marginBottom: 12 }}>
+          <Tabs.Trigger value="account">Account</Tabs.Trigger>
+          <Tabs.Trigger value="password">Password</Tabs.Trigger>
+          <Tabs.Trigger value="billing" disabled>Billing</Tabs.Trigger>
+        </Tabs.List>
+        <Tabs.Content value="account">Change your name and email address.</Tabs.Content>
+        <Tabs.Content value="password">Pick a new password.</Tabs.Content>
+        <Tabs.Content value="billing">Billing is disabled in this demo.</Tabs.Content>
+      </Tabs>
+      <p style={{ color: '#666', fontSize: 13 }}>Focus a tab, then use the arrow keys, Home and End.</p>
+    </div>
+  );
+}`,
     keyPoints: [
       "Context-based implicit state sharing is the core pattern — children don't receive 'isActive' as a prop, they read it from context. This means arbitrary DOM nesting between parent and children works, unlike with React.Children.map",
       "The registration system (triggersRef Map) lets keyboard navigation work without knowing the order of children at compile time — triggers register on mount and unregister on unmount, supporting dynamic lists",
@@ -1549,7 +1598,7 @@ describe('Compound Components (Tabs)', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Reactive Store with Computed Selectors",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a minimal Zustand/Jotai-style reactive store with computed/derived selectors that only re-render subscribing components when their selected slice changes. The store must use Object.is equality checking for selector output, support middleware (logging, persistence), and handle selector composition where one selector derives from another.",
     realWorld:
@@ -1816,6 +1865,24 @@ describe('Reactive Store', () => {
     expect(store.getState().count).toBe(1);
   });
 });`,
+    contract: `export type SetStateAction<S> = Partial<S> | ((state: S) => S);
+
+export interface Store<S> {
+  getState(): S;
+  /** Merges a partial state, or replaces it with the updater's result */
+  setState(action: SetStateAction<S>): void;
+  subscribe(listener: (state: S) => void): () => void;
+  destroy(): void;
+}
+
+export type Middleware<S> = (
+  store: Store<S>,
+) => (next: (action: SetStateAction<S>) => void) => (action: SetStateAction<S>) => void;
+
+export declare function createStore<S extends object>(initialState: S): Store<S>;
+/** Returns the same result object until the state changes */
+export declare function createSelector<S extends object, R>(store: Store<S>, selector: (state: S) => R): (state: S) => R;
+export declare function applyMiddleware<S extends object>(store: Store<S>, ...middlewares: Middleware<S>[]): Store<S>;`,
     keyPoints: [
       "Object.is equality on selector output is the key optimization — if the derived value hasn't changed, the component skips re-rendering even though the store's root reference changed. This is exactly how Zustand's useStore works internally",
       "The middleware pattern (store => next => partial) mirrors Redux middleware and Zustand's middleware API — each middleware wraps setState, allowing logging, persistence, devtools, and immer integration to be composed",
@@ -1831,7 +1898,7 @@ describe('Reactive Store', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Schema-Driven Form Validation Engine",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a form validation engine that takes a Zod-like schema definition and produces validation errors, touched/dirty tracking, async field validation with debounce, and cross-field validation (e.g., password confirmation). The engine must use field-level subscriptions so that updating one field does not re-render the entire form.",
     realWorld:
@@ -2185,7 +2252,7 @@ describe('Schema-Driven Form Validation', () => {
     category: "Hooks & State",
     difficulty: "Expert",
     title: "Type-Safe Pub/Sub Event Bus with React Integration",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build an event bus that supports named event channels, wildcard subscriptions (e.g., 'user.*' matches 'user.login' and 'user.logout'), once-only listeners, event history with replay for late subscribers, and automatic cleanup on component unmount. The system must prevent the 'zombie subscription' problem where unmounted components continue to receive events and attempt state updates.",
     realWorld:
@@ -2495,6 +2562,22 @@ function EventBusDemo() {
     </div>
   );
 }`,
+    contract: `export type EventHandler = (data: any, event: string) => void;
+
+export interface SubscribeOptions {
+  /** Call the handler with up to this many past events first */
+  replay?: number;
+}
+
+export interface EventBus {
+  emit(event: string, data?: unknown): void;
+  /** Patterns may be exact, 'user.*' or '*'; returns an unsubscribe function */
+  on(event: string, handler: EventHandler, options?: SubscribeOptions): () => void;
+  once(event: string, handler: EventHandler, options?: SubscribeOptions): () => void;
+  off(event: string, handler: EventHandler): void;
+}
+
+export declare function createEventBus(options?: { historySize?: number }): EventBus;`,
     keyPoints: [
       "The handlerRef pattern in useEvent solves the stale closure problem — the effect subscribes once with a stable wrapper function that always delegates to handlerRef.current, which is updated on every render. This means the subscription never changes but the handler always has access to the latest props and state",
       "Wildcard matching uses a simple prefix check: 'user.*' matches events starting with 'user.' — this avoids the complexity of full glob patterns while covering the most common use case. The '*' catch-all pattern enables global event logging and debugging, similar to Redux DevTools' action logging",
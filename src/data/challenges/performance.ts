@@ -6,7 +6,7 @@ export const performanceChallenges: Challenge[] = [
     category: "Performance",
     difficulty: "Expert",
     title: "Build a Virtualized List from Scratch",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Implement a windowed/virtualized list that can smoothly render 100,000+ items. Only DOM nodes visible in the viewport (plus a small overscan buffer) should exist at any time. The list must handle variable-height items without knowing heights in advance — you must measure them dynamically and adjust positions as heights become known.",
     realWorld:
@@ -299,13 +299,71 @@ describe('Virtualized List', () => {
     ],
     followUp:
       "How would you handle items that resize after initial measurement (expand/collapse, images loading)? How would you implement smooth scroll-to-index with animation? What about horizontal + vertical virtualization (grid)?",
+    walkthrough: [
+      {
+        title: "Measured heights, estimated fallbacks",
+        startLine: 1,
+        endLine: 15,
+        explanation:
+          "Measured heights live in a Map keyed by index, and getHeight falls back to estimateHeight(index) for rows that have not rendered yet. Keeping them in a ref means a measurement never triggers a render by itself — the batched forceRender decides when to.",
+      },
+      {
+        title: "Cumulative offset cache",
+        startLine: 17,
+        endLine: 27,
+        explanation:
+          "offsets[i] is the top of row i and the running total becomes totalHeight. It is a single O(n) prefix sum, memoised on itemCount and the number of measured rows, so scroll events read from it instead of summing heights.",
+      },
+      {
+        title: "Binary search for the first visible row",
+        startLine: 29,
+        endLine: 41,
+        explanation:
+          "Offsets are sorted, so the row under scrollTop is found in O(log n). This is what keeps 100k rows cheap: scrolling never walks the list linearly.",
+      },
+      {
+        title: "Visible window plus overscan",
+        startLine: 43,
+        endLine: 50,
+        explanation:
+          "The end index walks forward from the start until it passes the bottom of the viewport, which is bounded by the number of visible rows. Overscan then pads both sides so fast scrolling does not flash blank space before the next render.",
+      },
+      {
+        title: "Self-measuring rows",
+        startLine: 52,
+        endLine: 73,
+        explanation:
+          "measureRef is a callback ref each row attaches to its element. Heights are read after mount and changes are batched into one requestAnimationFrame, so a screen of rows measuring at once causes a single offset recompute instead of dozens.",
+      },
+      {
+        title: "Absolutely positioned items",
+        startLine: 75,
+        endLine: 87,
+        explanation:
+          "Each virtual item carries its offset as a style.top, and the consumer sizes an inner spacer with totalHeight. Absolute positioning means a row changing height shifts nothing until the offsets are recomputed, which avoids layout thrash.",
+      },
+      {
+        title: "Scroll and resize tracking",
+        startLine: 89,
+        endLine: 110,
+        explanation:
+          "A passive scroll listener keeps scrollTop in state without blocking compositor scrolling, and a ResizeObserver keeps the viewport height current. Both clean up on unmount.",
+      },
+      {
+        title: "scrollToIndex and the public API",
+        startLine: 112,
+        endLine: 121,
+        explanation:
+          "Jumping to a row is just setting scrollTop to its cached offset; the scroll listener takes it from there. The hook returns only what a renderer needs: the items with their measureRefs, the total height and the imperative jump.",
+      },
+    ],
   },
   {
     id: 4,
     category: "Performance",
     difficulty: "Expert",
     title: "Concurrent-Safe Data Fetching with Race Condition Elimination",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a `useQuery` hook that manages async data fetching with proper race condition handling, stale-while-revalidate caching, deduplication of in-flight requests, and garbage collection of unused cache entries. This must be concurrent-mode safe — React 18's StrictMode double-mounts and useTransition must not break it.",
     realWorld:
@@ -566,7 +624,7 @@ describe('Concurrent-Safe Data Fetching', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Incremental Computation with Dependency Tracking",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a reactive computation system inspired by SolidJS signals and Vue's reactivity. Create `createSignal`, `createComputed`, and `createEffect` primitives that automatically track which computations depend on which signals — and only re-execute the minimum necessary computations when a signal changes. Then integrate this with React via a `useSignal` hook.",
     realWorld:
@@ -851,7 +909,7 @@ describe('Incremental Computation with Dependency Tracking', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Web Worker Offloading with Transferable Objects",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a `useWorker` hook that offloads expensive computations to a Web Worker, with proper lifecycle management, cancellation, and zero-copy data transfer using Transferable Objects (ArrayBuffers). The hook must handle the case where the component unmounts mid-computation, where multiple calls race, and where large datasets need to be transferred without blocking the main thread.",
     realWorld:
@@ -1115,7 +1173,7 @@ describe('Web Worker Offloading', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Suspense Resource Cache (Render-as-You-Fetch)",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a Suspense-compatible resource cache that enables the 'render-as-you-fetch' pattern — where data fetching starts BEFORE components render, not inside useEffect. Create a `createResource` function that returns a readable resource which throws promises to integrate with Suspense boundaries. Handle cache invalidation, preloading, and the React 19 waterfall problem where sibling components inside the same Suspense boundary load sequentially.",
     realWorld:
@@ -1354,7 +1412,7 @@ describe('Suspense Resource Cache', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Bidirectional Infinite Scroll with Intersection Observer",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a `useInfiniteScroll` hook that loads data in both directions (older AND newer items, like a chat or timeline). Use IntersectionObserver for efficient scroll detection, maintain scroll position when prepending items (the hard part), and implement a sliding window that unmounts off-screen pages to cap DOM size. Handle the edge cases: loading states at both ends, empty states, reaching the beginning/end of data, and rapid scrolling.",
     realWorld:
@@ -1644,7 +1702,7 @@ describe('Bidirectional Infinite Scroll', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Concurrent Search with useTransition + useDeferredValue",
-    timeEstimate: "25 min",
+    timeEstimate: { minutes: 25 },
     description:
       "Build a high-performance search interface that demonstrates mastery of React 18/19's concurrent features. Implement a search input that filters a large dataset (10k+ items) without blocking typing, using useTransition for the search trigger and useDeferredValue for the results rendering. Add debouncing that cooperates with (not fights against) React's concurrent scheduler, highlight matching text, and show visual indicators for pending transitions.",
     realWorld:
@@ -1914,7 +1972,7 @@ describe('Concurrent Search with useTransition + useDeferredValue', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Spring-Based Animation Engine",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a physics-based spring animation hook that produces buttery-smooth 60fps animations driven by spring physics (mass, tension, friction) rather than duration/easing curves. Use requestAnimationFrame for the animation loop, support interruption (start a new animation mid-flight without jarring jumps), and batch multiple animated values. This is the core of how Framer Motion and React Spring work internally.",
     realWorld:
@@ -2220,7 +2278,7 @@ describe('Spring-Based Animation Engine', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Structural Sharing for Immutable State",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a structural sharing utility that compares old and new state trees and reuses unchanged subtree references. When a deeply nested property changes, only the path from root to that property gets new references — all sibling branches keep their original identity. This is how TanStack Query, Zustand, and Immer maintain referential equality for unchanged branches, preventing unnecessary re-renders in selector-based systems.",
     realWorld:
@@ -2475,7 +2533,7 @@ describe('Structural Sharing for Immutable State', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Parallel Data Loader (Suspense Waterfall Eliminator)",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a preload/prefetch system that eliminates Suspense waterfalls by initiating all data fetches before rendering begins. When multiple sibling components each have their own data dependencies, naive Suspense creates a waterfall: the first child suspends, its data loads, it renders, then the second child suspends. This loader must kick off all fetches in parallel at the route level, with cache integration and support for React.lazy code-split components.",
     realWorld:
@@ -2794,7 +2852,7 @@ describe('Parallel Data Loader (Suspense Waterfall Eliminator)', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Persistent State with Version Migrations",
-    timeEstimate: "30 min",
+    timeEstimate: { minutes: 30 },
     description:
       "Build a persistence layer that saves React state to localStorage with schema versioning and automatic migrations. When the state shape changes between app versions, migration functions transform old persisted data into the new schema without data loss. The system must handle corrupt data gracefully, support sequential migration chains, and provide a React hook that hydrates persisted state on mount and auto-saves on change with debouncing.",
     realWorld:
@@ -3087,7 +3145,7 @@ describe('Persistent State with Version Migrations', () => {
     category: "Performance",
     difficulty: "Expert",
     title: "Layout Animation Engine (FLIP Technique)",
-    timeEstimate: "35 min",
+    timeEstimate: { minutes: 35 },
     description:
       "Build a FLIP (First, Last, Invert, Play) animation system for React that smoothly animates elements between layout positions. When items reorder in a list, the FLIP technique measures element positions before and after the DOM update, computes the positional delta, and animates via CSS transforms. The system must handle entering and exiting elements, interruptible animations (new layout changes mid-animation), and batch DOM reads/writes to avoid layout thrashing.",
     realWorld:
@@ -3368,6 +3426,42 @@ describe('FLIP Animation Engine', () => {
   });
 });
 `,
+    demoEntry: `import { useRef, useState } from 'react';
+import { useFlipAnimation } from './implementation';
+
+let nextId = 5;
+
+export default function Demo() {
+  const [items, setItems] = useState([
+    { id: '1', name: 'Alpha' }, { id: '2', name: 'Beta' },
+    { id: '3', name: 'Gamma' }, { id: '4', name: 'Delta' },
+  ]);
+  const listRef = useRef(null);
+  useFlipAnimation(listRef, { duration: 400 });
+
+  const shuffle = () => setItems((list) => [...list].sort(() => Math.random() - 0.5));
+  const add = () => setItems((list) => [...list, { id: String(nextId), name: 'Item ' + nextId++ }]);
+  const remove = (id) => setItems((list) => list.filter((item) => item.id !== id));
+
+  return (
+    <div style={{ padding: 24, fontFamily: 'sans-serif' }}>
+      <button onClick={shuffle}>Shuffle</button> <button onClick={add}>Add</button>
+      <ul ref={listRef} style={{ position: 'relative', listStyle: 'none', padding: 0, width: 220 }}>
+        {items.map((item) => (
+          <li
+            key={item.id}
+            data-flip-key={item.id}
+            onClick={() => remove(item.id)}
+            style={{ padding: '8px 12px', margin: '6px 0', background: '#e0e7ff', borderRadius: 6, cursor: 'pointer' }}
+          >
+            {item.name}
+          </li>
+        ))}
+      </ul>
+      <p style={{ color: '#666', fontSize: 13 }}>Click an item to remove it.</p>
+    </div>
+  );
+}`,
     keyPoints: [
       "useLayoutEffect is essential for FLIP — it fires synchronously after DOM mutations but before the browser paints. This gives you the tiny window to measure 'Last' positions and apply 'Invert' transforms before the user sees the un-animated layout change",
       "The Web Animations API (element.animate()) is used instead of CSS transitions because it provides cancel() for interruptions, onfinish callbacks for cleanup, and doesn't require managing CSS classes or inline style cleanup",
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAttempt } from './useAttempt';
+import { createAttempt } from '@/utils/attempts';
+import { loadLiveAttempt, saveLiveAttempt } from '@/utils/sittings';
+
+const run = { ranAt: 0, passed: 2, total: 2, results: [] };
+
+describe('useAttempt', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('does not persist an attempt without activity', () => {
+    const onSave = vi.fn();
+    const { unmount } = renderHook(() => useAttempt(1, 10, onSave));
+    unmount();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('persists the attempt once hints are revealed', () => {
+    const onSave = vi.fn();
+    const { result } = renderHook(() => useAttempt(1, 42, onSave));
+
+    act(() => result.current.revealNextHint());
+    expect(onSave).toHaveBeenLastCalledWith(
+      expect.objectContaining({ hintsRevealed: true, elapsedSeconds: 42, status: 'in-progress' }),
+    );
+  });
+
+  it('stores when the solution was first revealed', () => {
+    const onSave = vi.fn();
+    const { result, rerender } = renderHook(({ seconds }) => useAttempt(1, seconds, onSave), {
+      initialProps: { seconds: 610 },
+    });
+
+    act(() => result.current.markSolutionRevealed());
+    rerender({ seconds: 700 });
+    act(() => result.current.markSolutionRevealed());
+    expect(onSave).toHaveBeenLastCalledWith(
+      expect.objectContaining({ solutionRevealed: true, solutionRevealedAt: 610 }),
+    );
+  });
+
+  it('records the timer value at each hint reveal', () => {
+    const onSave = vi.fn();
+    const { result, rerender } = renderHook(({ seconds }) => useAttempt(1, seconds, onSave), {
+      initialProps: { seconds: 30 },
+    });
+
+    act(() => result.current.revealNextHint());
+    rerender({ seconds: 75 });
+    act(() => result.current.revealNextHint());
+    expect(result.current.attempt.hintReveals).toEqual([30, 75]);
+  });
+
+  it('complete records elapsed seconds and ignores later events', () => {
+    const onSave = vi.fn();
+    const { result, rerender } = renderHook(({ seconds }) => useAttempt(1, seconds, onSave), {
+      initialProps: { seconds: 30 },
+    });
+
+    rerender({ seconds: 95 });
+    act(() => result.current.complete());
+    expect(result.current.attempt.status).toBe('completed');
+    expect(onSave).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'completed', elapsedSeconds: 95 }));
+
+    onSave.mockClear();
+    act(() => result.current.addTestRun(run));
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('marks an active attempt abandoned on unmount', () => {
+    const onSave = vi.fn();
+    const { result, unmount } = renderHook(() => useAttempt(1, 20, onSave));
+
+    act(() => result.current.addTestRun(run));
+    unmount();
+    expect(onSave).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'abandoned', testsPassed: 2 }));
+  });
+
+  it('restart abandons the current attempt and starts a fresh one', () => {
+    const onSave = vi.fn();
+    const { result } = renderHook(() => useAttempt(1, 120, onSave));
+    const firstId = result.current.attempt.id;
+
+    act(() => result.current.restart());
+    expect(onSave).toHaveBeenLastCalledWith(expect.objectContaining({ id: firstId, status: 'abandoned' }));
+    expect(result.current.attempt.id).not.toBe(firstId);
+    expect(result.current.attempt.status).toBe('in-progress');
+  });
+
+  it('records the countdown outcome when the attempt ends', () => {
+    const onSave = vi.fn();
+    const { result, rerender } = renderHook(({ seconds }) => useAttempt(1, seconds, onSave), {
+      initialProps: { seconds: 0 },
+    });
+
+    act(() => result.current.restart(600));
+    expect(result.current.attempt.countdown).toEqual({ durationSeconds: 600, overrunSeconds: 0 });
+
+    rerender({ seconds: 690 });
+    act(() => result.current.complete());
+    expect(onSave).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'completed', countdown: { durationSeconds: 600, overrunSeconds: 90 } }),
+    );
+  });
+
+  it('assess attaches a self-assessment only once the attempt is completed', () => {
+    const onSave = vi.fn();
+    const { result } = renderHook(() => useAttempt(1, 60, onSave));
+    const assessment = { levels: { 'req-1': 2 }, score: 100, assessedAt: 1 };
+
+    act(() => result.current.assess(assessment));
+    expect(onSave).not.toHaveBeenCalled();
+
+    act(() => result.current.complete());
+    act(() => result.current.assess(assessment));
+    expect(onSave).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'completed', assessment }));
+  });
+
+  it('resumes a live attempt after a reload, countdown included', () => {
+    const live = { ...createAttempt(1), countdown: { durationSeconds: 600, overrunSeconds: 0 } };
+    saveLiveAttempt(live);
+
+    const onSave = vi.fn();
+    const { result } = renderHook(() => useAttempt(1, 650, onSave));
+    expect(result.current.resumed).toBe(true);
+    expect(result.current.attempt.id).toBe(live.id);
+
+    act(() => result.current.revealNextHint());
+    expect(onSave).toHaveBeenLastCalledWith(expect.objectContaining({ countdown: { durationSeconds: 600, overrunSeconds: 50 } }));
+  });
+
+  it('starts a new attempt when the stored one was completed', () => {
+    saveLiveAttempt({ ...createAttempt(1), status: 'completed' });
+    const { result } = renderHook(() => useAttempt(1, 0, vi.fn()));
+    expect(result.current.resumed).toBe(false);
+    expect(result.current.attempt.status).toBe('in-progress');
+  });
+
+  it('keeps the live attempt until the view is left', () => {
+    const { result, unmount } = renderHook(() => useAttempt(1, 0, vi.fn()));
+    act(() => result.current.restart(300));
+    expect(loadLiveAttempt(1)?.countdown?.durationSeconds).toBe(300);
+
+    unmount();
+    expect(loadLiveAttempt(1)).toBeNull();
+  });
+});
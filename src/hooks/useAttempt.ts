@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { createAttempt, withElapsed, withTestRun, hasActivity, shouldKeepAbandoned } from '@/utils/attempts';
+import { clearLiveAttempt, loadLiveAttempt, saveLiveAttempt } from '@/utils/sittings';
+import type { Attempt, RubricAssessment, TestRun } from '@/types/progress';
+
+function liveOrNewAttempt(challengeId: number) {
+  const live = loadLiveAttempt(challengeId);
+  return { attempt: live ?? createAttempt(challengeId), resumed: live !== null };
+}
+
+/**
+ * Tracks the live attempt for a challenge. The attempt is persisted through
+ * `onSave` once it has activity, when it completes, and — if it saw enough
+ * work — as abandoned when the user leaves or restarts. It is also kept in
+ * the challenge's sitting so a reload resumes it; `resumed` says whether it did.
+ */
+export function useAttempt(challengeId: number, seconds: number, onSave: (attempt: Attempt) => void) {
+  const [initial] = useState(() => liveOrNewAttempt(challengeId));
+  const [attempt, setAttempt] = useState(initial.attempt);
+  const [resumed, setResumed] = useState(initial.resumed);
+  const attemptRef = useRef(attempt);
+  const secondsRef = useRef(seconds);
+  const onSaveRef = useRef(onSave);
+  secondsRef.current = seconds;
+  onSaveRef.current = onSave;
+
+  const commit = useCallback((next: Attempt, persist: boolean) => {
+    attemptRef.current = next;
+    setAttempt(next);
+    if (persist) onSaveRef.current(next);
+  }, []);
+
+  const abandonCurrent = useCallback(() => {
+    const current = withElapsed(attemptRef.current, secondsRef.current);
+    if (current.status === 'in-progress' && shouldKeepAbandoned(current)) {
+      onSaveRef.current({ ...current, status: 'abandoned', endedAt: Date.now() });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (attemptRef.current.challengeId !== challengeId) {
+      const next = liveOrNewAttempt(challengeId);
+      setResumed(next.resumed);
+      commit(next.attempt, false);
+    }
+    // Leaving ends the sitting; only a reload, which never unmounts, resumes it
+    return () => {
+      abandonCurrent();
+      clearLiveAttempt(challengeId);
+    };
+  }, [challengeId, commit, abandonCurrent]);
+
+  useEffect(() => {
+    if (attempt.challengeId === challengeId) saveLiveAttempt(attempt);
+  }, [attempt, challengeId]);
+
+  const update = useCallback((fn: (prev: Attempt) => Attempt) => {
+    const prev = attemptRef.current;
+    if (prev.status !== 'in-progress') return;
+    const next = withElapsed(fn(prev), secondsRef.current);
+    commit(next, hasActivity(next));
+  }, [commit]);
+
+  const revealNextHint = useCallback(() => update((a) => ({
+    ...a,
+    hintsRevealed: true,
+    hintReveals: [...(a.hintReveals ?? []), secondsRef.current],
+  })), [update]);
+  const markSolutionRevealed = useCallback(() => update((a) => ({
+    ...a,
+    solutionRevealed: true,
+    solutionRevealedAt: a.solutionRevealedAt ?? secondsRef.current,
+  })), [update]);
+  const addTestRun = useCallback((run: TestRun) => update((a) => withTestRun(a, run)), [update]);
+  const setCheckedRequirements = useCallback(
+    (checked: number[]) => update((a) => ({ ...a, checkedRequirements: checked })),
+    [update],
+  );
+
+  const complete = useCallback(() => {
+    const prev = attemptRef.current;
+    if (prev.status !== 'in-progress') return;
+    commit({ ...withElapsed(prev, secondsRef.current), status: 'completed', endedAt: Date.now() }, true);
+  }, [commit]);
+
+  // Self-assessment happens after completion, so it bypasses the in-progress guard
+  const assess = useCallback((assessment: RubricAssessment) => {
+    const prev = attemptRef.current;
+    if (prev.status !== 'completed') return;
+    commit({ ...prev, assessment }, true);
+  }, [commit]);
+
+  /** Starts a fresh attempt, optionally under an interview countdown of `countdownSeconds` */
+  const restart = useCallback((countdownSeconds?: number) => {
+    abandonCurrent();
+    const next = createAttempt(challengeId);
+    commit(countdownSeconds ? { ...next, countdown: { durationSeconds: countdownSeconds, overrunSeconds: 0 } } : next, false);
+  }, [challengeId, commit, abandonCurrent]);
+
+  return {
+    attempt,
+    resumed,
+    revealNextHint,
+    markSolutionRevealed,
+    addTestRun,
+    setCheckedRequirements,
+    complete,
+    assess,
+    restart,
+  };
+}
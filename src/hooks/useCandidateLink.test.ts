@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useCandidateLink } from './useCandidateLink';
+import { interviewChannelName } from '@/utils/interview';
+import type { CandidateStatus, InterviewMessage } from '@/types/interview';
+
+const status: CandidateStatus = { seconds: 42, isActive: true, remaining: null, isCompleted: false };
+
+/** Stands in for the interviewer tab */
+function openInterviewer() {
+  const channel = new BroadcastChannel(interviewChannelName(4));
+  const received: InterviewMessage[] = [];
+  channel.onmessage = (event: MessageEvent<InterviewMessage>) => received.push(event.data);
+  return { channel, received };
+}
+
+describe('useCandidateLink', () => {
+  let interviewer: ReturnType<typeof openInterviewer>;
+
+  afterEach(() => {
+    interviewer.channel.close();
+  });
+
+  it('announces itself and mirrors its status', async () => {
+    interviewer = openInterviewer();
+    const { rerender } = renderHook(({ current }) => useCandidateLink(4, current, vi.fn()), {
+      initialProps: { current: status },
+    });
+
+    await waitFor(() => expect(interviewer.received).toEqual([
+      { type: 'hello', from: 'candidate' },
+      { type: 'status', status },
+    ]));
+
+    rerender({ current: { ...status, seconds: 43 } });
+    await waitFor(() => expect(interviewer.received[interviewer.received.length - 1]).toEqual({ type: 'status', status: { ...status, seconds: 43 } }));
+  });
+
+  it('answers an interviewer hello with the current status', async () => {
+    interviewer = openInterviewer();
+    renderHook(() => useCandidateLink(4, status, vi.fn()));
+    await waitFor(() => expect(interviewer.received).toHaveLength(2));
+
+    interviewer.channel.postMessage({ type: 'hello', from: 'interviewer' });
+    await waitFor(() => expect(interviewer.received).toHaveLength(3));
+    expect(interviewer.received[2]).toEqual({ type: 'status', status });
+  });
+
+  it('collects offered hints and ends when the interviewer does', async () => {
+    interviewer = openInterviewer();
+    const onEnd = vi.fn();
+    const { result } = renderHook(() => useCandidateLink(4, status, onEnd));
+
+    interviewer.channel.postMessage({ type: 'hints', offered: [2, 0] });
+    await waitFor(() => expect(result.current.offeredHints).toEqual([2, 0]));
+
+    interviewer.channel.postMessage({ type: 'end' });
+    await waitFor(() => expect(result.current.ended).toBe(true));
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays silent when disabled', async () => {
+    interviewer = openInterviewer();
+    renderHook(() => useCandidateLink(null, status, vi.fn()));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(interviewer.received).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react';
+import { useInterviewChannel } from './useInterviewChannel';
+import type { CandidateStatus } from '@/types/interview';
+
+/**
+ * Candidate side of a mock interview: mirrors `status` to the interviewer
+ * tab and collects the hints they offer. `challengeId` null disables it.
+ */
+export function useCandidateLink(challengeId: number | null, status: CandidateStatus, onEnd: () => void) {
+  const [offeredHints, setOfferedHints] = useState<number[]>([]);
+  const [ended, setEnded] = useState(false);
+  const statusRef = useRef(status);
+  statusRef.current = status;
+  const onEndRef = useRef(onEnd);
+  onEndRef.current = onEnd;
+
+  const post = useInterviewChannel(challengeId, (message) => {
+    switch (message.type) {
+      case 'hello':
+        if (message.from === 'interviewer') post({ type: 'status', status: statusRef.current });
+        break;
+      case 'hints':
+        setOfferedHints(message.offered);
+        break;
+      case 'end':
+        setEnded(true);
+        onEndRef.current();
+        break;
+    }
+  });
+
+  useEffect(() => {
+    post({ type: 'hello', from: 'candidate' });
+  }, [challengeId, post]);
+
+  const { seconds, isActive, remaining, isCompleted, lastTestRun } = status;
+  useEffect(() => {
+    post({ type: 'status', status: { seconds, isActive, remaining, isCompleted, lastTestRun } });
+  }, [post, seconds, isActive, remaining, isCompleted, lastTestRun]);
+
+  return { offeredHints, ended };
+}
@@ -0,0 +1,19 @@
+import { codeToTokensBase, type BundledLanguage, type ThemedToken } from 'shiki';
+import { useEffect, useState } from 'react';
+
+/** Shiki tokens per line, with the same theme as CodeBlock; null until ready */
+export function useHighlightedLines(code: string, language: BundledLanguage = 'jsx'): ThemedToken[][] | null {
+  const [tokens, setTokens] = useState<{ code: string; lines: ThemedToken[][] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    codeToTokensBase(code, { lang: language, theme: 'one-dark-pro' }).then((lines) => {
+      if (!cancelled) setTokens({ code, lines });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [code, language]);
+
+  return tokens?.code === code ? tokens.lines : null;
+}
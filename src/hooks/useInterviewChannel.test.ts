@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useInterviewChannel } from './useInterviewChannel';
+
+describe('useInterviewChannel', () => {
+  it('delivers messages between views of the same challenge', async () => {
+    const received = vi.fn();
+    renderHook(() => useInterviewChannel(4, received));
+    const { result } = renderHook(() => useInterviewChannel(4, vi.fn()));
+
+    result.current({ type: 'hello', from: 'interviewer' });
+    await waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'hello', from: 'interviewer' }));
+  });
+
+  it('keeps other challenges and disconnected views out', async () => {
+    const otherChallenge = vi.fn();
+    const disconnected = vi.fn();
+    const sameChallenge = vi.fn();
+    renderHook(() => useInterviewChannel(5, otherChallenge));
+    renderHook(() => useInterviewChannel(null, disconnected));
+    renderHook(() => useInterviewChannel(4, sameChallenge));
+    const { result } = renderHook(() => useInterviewChannel(4, vi.fn()));
+
+    result.current({ type: 'end' });
+    await waitFor(() => expect(sameChallenge).toHaveBeenCalled());
+    expect(otherChallenge).not.toHaveBeenCalled();
+    expect(disconnected).not.toHaveBeenCalled();
+  });
+
+  it('stops listening once unmounted', async () => {
+    const received = vi.fn();
+    const { unmount } = renderHook(() => useInterviewChannel(4, received));
+    const sibling = vi.fn();
+    renderHook(() => useInterviewChannel(4, sibling));
+    const { result } = renderHook(() => useInterviewChannel(4, vi.fn()));
+
+    unmount();
+    result.current({ type: 'end' });
+    await waitFor(() => expect(sibling).toHaveBeenCalled());
+    expect(received).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { interviewChannelName } from '@/utils/interview';
+import type { InterviewMessage } from '@/types/interview';
+
+/**
+ * Same-origin link between the candidate and interviewer tabs. Pass null to
+ * stay disconnected; without BroadcastChannel support posts are dropped.
+ */
+export function useInterviewChannel(challengeId: number | null, onMessage: (message: InterviewMessage) => void) {
+  const handler = useRef(onMessage);
+  handler.current = onMessage;
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  useEffect(() => {
+    if (challengeId === null || typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(interviewChannelName(challengeId));
+    channel.onmessage = (event: MessageEvent<InterviewMessage>) => handler.current(event.data);
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, [challengeId]);
+
+  return useCallback((message: InterviewMessage) => channelRef.current?.postMessage(message), []);
+}
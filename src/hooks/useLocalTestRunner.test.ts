@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLocalTestRunner } from './useLocalTestRunner';
+import type { TestResult } from '@/types/progress';
+
+const runs: Array<(results: TestResult[]) => void> = [];
+
+vi.mock('@/utils/localRunner', () => ({
+  createLocalRunner: () => ({
+    run: () => new Promise<TestResult[]>((resolve) => runs.push(resolve)),
+    dispose: () => {},
+  }),
+}));
+
+const pass = (name: string): TestResult[] => [{ name, status: 'pass' }];
+
+describe('useLocalTestRunner', () => {
+  beforeEach(() => {
+    runs.length = 0;
+  });
+
+  it('reports only the latest run and stays running until it finishes', async () => {
+    const onTestRun = vi.fn();
+    const { result } = renderHook(() => useLocalTestRunner(onTestRun));
+
+    act(() => {
+      void result.current.run('first', '');
+      void result.current.run('second', '');
+    });
+    expect(result.current.isRunning).toBe(true);
+
+    await act(async () => runs[0]!(pass('stale')));
+    expect(result.current.isRunning).toBe(true);
+    expect(onTestRun).not.toHaveBeenCalled();
+
+    await act(async () => runs[1]!(pass('latest')));
+    expect(result.current.isRunning).toBe(false);
+    expect(result.current.lastRun?.results).toEqual(pass('latest'));
+    expect(onTestRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores results that arrive after unmount', async () => {
+    const onTestRun = vi.fn();
+    const { result, unmount } = renderHook(() => useLocalTestRunner(onTestRun));
+
+    act(() => {
+      void result.current.run('code', '');
+    });
+    unmount();
+    await act(async () => runs[0]!(pass('late')));
+    expect(onTestRun).not.toHaveBeenCalled();
+  });
+});
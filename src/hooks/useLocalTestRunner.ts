@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createLocalRunner, type LocalRunner } from '@/utils/localRunner';
+import { createTestRun, suiteFailure } from '@/utils/testResults';
+import type { TestRun } from '@/types/progress';
+
+/**
+ * Runs suites on the offline engine. Only the latest request's results are
+ * reported: an earlier run that finishes late, or any run finishing after
+ * unmount, is dropped.
+ */
+export function useLocalTestRunner(onTestRun?: (run: TestRun) => void) {
+  const runner = useRef<LocalRunner | null>(null);
+  const latest = useRef(0);
+  const mounted = useRef(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastRun, setLastRun] = useState<TestRun | null>(null);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      runner.current?.dispose();
+      runner.current = null;
+    };
+  }, []);
+
+  const run = useCallback(async (code: string, testCode: string) => {
+    runner.current ??= createLocalRunner();
+    const request = ++latest.current;
+    setIsRunning(true);
+    let testRun: TestRun;
+    try {
+      testRun = createTestRun(await runner.current.run(code, testCode));
+    } catch (error) {
+      testRun = createTestRun([suiteFailure(error instanceof Error ? error.message : String(error))]);
+    }
+    if (!mounted.current || request !== latest.current) return;
+    setIsRunning(false);
+    setLastRun(testRun);
+    onTestRun?.(testRun);
+  }, [onTestRun]);
+
+  return { run, isRunning, lastRun };
+}
@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useProgress, useIsCompleted, useCompletionStats } from './useProgress';
+import { ProgressProvider } from '@/components/progress/ProgressProvider';
+import { createAttempt } from '@/utils/attempts';
+import { PROGRESS_KEY, saveProgress } from '@/utils/progressStorage';
+import { createProgressStore } from '@/utils/progressStore';
+import { completeChallenge, EMPTY_PROGRESS } from '@/utils/progressData';
+import type { ProgressAdapter } from '@/utils/progressAdapters';
+
+function renderProgress(total = 10) {
+  return renderHook(() => useProgress(), {
+    wrapper: ({ children }) => <ProgressProvider total={total}>{children}</ProgressProvider>,
+  });
+}
+
+function readStored() {
+  return JSON.parse(localStorage.getItem(PROGRESS_KEY)!).data;
+}
+
+describe('useProgress', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with empty completed set', () => {
+    const { result } = renderProgress();
+    expect(result.current.completedIds.size).toBe(0);
+    expect(result.current.progress).toBe(0);
+  });
+
+  it('markComplete adds id to set', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1));
+    expect(result.current.completedIds.has(1)).toBe(true);
+    expect(result.current.completedIds.size).toBe(1);
+  });
+
+  it('calculates progress percentage correctly', () => {
+    const { result } = renderProgress(4);
+
+    act(() => result.current.markComplete(1));
+    expect(result.current.progress).toBe(25);
+
+    act(() => result.current.markComplete(2));
+    expect(result.current.progress).toBe(50);
+  });
+
+  it('persists to localStorage', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(5));
+    act(() => result.current.markComplete(10));
+
+    expect(readStored().completedIds).toEqual([5, 10]);
+  });
+
+  it('restores from the legacy ril-completed key', () => {
+    localStorage.setItem('ril-completed', JSON.stringify([1, 2, 3]));
+
+    const { result } = renderProgress();
+    expect(result.current.completedIds.size).toBe(3);
+    expect(result.current.completedIds.has(1)).toBe(true);
+    expect(result.current.completedIds.has(2)).toBe(true);
+    expect(result.current.completedIds.has(3)).toBe(true);
+    expect(result.current.progress).toBe(30);
+  });
+
+  it('resetProgress clears state and localStorage', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1));
+    act(() => result.current.markComplete(2));
+    expect(result.current.completedIds.size).toBe(2);
+
+    act(() => result.current.resetProgress());
+    expect(result.current.completedIds.size).toBe(0);
+    expect(result.current.progress).toBe(0);
+    expect(localStorage.getItem(PROGRESS_KEY)).toBeNull();
+  });
+
+  it('markComplete stores completion time when seconds provided', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1, 120));
+    expect(result.current.completionTimes[1]).toBe(120);
+
+    expect(readStored().completionTimes['1']).toBe(120);
+  });
+
+  it('completionTimes not set when seconds omitted', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1));
+    expect(result.current.completionTimes[1]).toBeUndefined();
+    expect(readStored().completionTimes).toEqual({});
+  });
+
+  it('resetProgress clears completionTimes', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1, 90));
+    expect(result.current.completionTimes[1]).toBe(90);
+
+    act(() => result.current.resetProgress());
+    expect(result.current.completionTimes).toEqual({});
+    expect(localStorage.getItem(PROGRESS_KEY)).toBeNull();
+  });
+
+  it('restores completionTimes from the legacy ril-times key', () => {
+    localStorage.setItem('ril-completed', JSON.stringify([1, 2]));
+    localStorage.setItem('ril-times', JSON.stringify({ 1: 45, 2: 180 }));
+
+    const { result } = renderProgress();
+    expect(result.current.completionTimes[1]).toBe(45);
+    expect(result.current.completionTimes[2]).toBe(180);
+  });
+
+  it('markComplete keeps the best time across completions', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1, 300));
+    act(() => result.current.markComplete(1, 420));
+    expect(result.current.completionTimes[1]).toBe(300);
+
+    act(() => result.current.markComplete(1, 200));
+    expect(result.current.completionTimes[1]).toBe(200);
+  });
+
+  it('recordAttempt appends new attempts and updates existing ones by id', () => {
+    const { result } = renderProgress();
+    const attempt = createAttempt(1, 1000);
+
+    act(() => result.current.recordAttempt(attempt));
+    act(() => result.current.recordAttempt({ ...attempt, hintsRevealed: true }));
+    act(() => result.current.recordAttempt(createAttempt(1, 2000)));
+
+    expect(result.current.attempts[1]).toHaveLength(2);
+    expect(result.current.attempts[1]![0]!.hintsRevealed).toBe(true);
+
+    expect(readStored().attempts['1']).toHaveLength(2);
+  });
+
+  it('recordAttempt with a completed attempt marks the challenge complete', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.recordAttempt({ ...createAttempt(3), status: 'completed', elapsedSeconds: 95 }));
+    expect(result.current.completedIds.has(3)).toBe(true);
+    expect(result.current.completionTimes[3]).toBe(95);
+  });
+
+  it('resetProgress clears attempts', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.recordAttempt(createAttempt(1)));
+    act(() => result.current.resetProgress());
+    expect(result.current.attempts).toEqual({});
+    expect(localStorage.getItem(PROGRESS_KEY)).toBeNull();
+  });
+
+  it('recovers from corrupted storage and reports the issue', () => {
+    localStorage.setItem('ril-completed', '[1, 2');
+
+    const { result } = renderProgress();
+    expect(result.current.completedIds.size).toBe(0);
+    expect(result.current.storageIssue).toMatchObject({ kind: 'quarantine', raw: expect.stringContaining('[1, 2') });
+
+    act(() => result.current.dismissStorageIssue());
+    expect(result.current.storageIssue).toBeNull();
+  });
+
+  it('replaceProgress swaps in new data and persists it', () => {
+    const { result } = renderProgress();
+    const snapshot = { completedIds: [4], completionTimes: { 4: 30 }, attempts: {} };
+
+    act(() => result.current.markComplete(1));
+    act(() => result.current.replaceProgress(snapshot));
+    expect(result.current.data).toEqual(snapshot);
+    expect(readStored()).toEqual(snapshot);
+  });
+
+  it('merges writes made by another tab instead of overwriting them', () => {
+    const { result } = renderProgress();
+
+    act(() => result.current.markComplete(1, 100));
+    // Another tab writes without this hook seeing it
+    saveProgress({ completedIds: [1, 2], completionTimes: { 1: 80, 2: 50 }, attempts: {} });
+    act(() => result.current.markComplete(3));
+
+    expect(readStored().completedIds).toEqual([1, 2, 3]);
+    expect(readStored().completionTimes).toEqual({ 1: 80, 2: 50 });
+    expect(result.current.completedIds.has(2)).toBe(true);
+  });
+
+  it('picks up changes broadcast by other tabs through storage events', () => {
+    const { result } = renderProgress();
+    const newValue = JSON.stringify({ version: 1, data: { completedIds: [7], completionTimes: {}, attempts: {} } });
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: PROGRESS_KEY, newValue }));
+    });
+    expect(result.current.completedIds.has(7)).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: PROGRESS_KEY, newValue: null }));
+    });
+    expect(result.current.completedIds.size).toBe(0);
+  });
+
+  it('ignores invalid values from other tabs', () => {
+    const { result } = renderProgress();
+    act(() => result.current.markComplete(1));
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: PROGRESS_KEY, newValue: '{broken' }));
+    });
+    expect(result.current.completedIds.has(1)).toBe(true);
+  });
+
+  it('throws a helpful error outside ProgressProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useProgress())).toThrow('inside <ProgressProvider>');
+    vi.restoreAllMocks();
+  });
+
+  it('selector hooks only re-render for the slice they read', () => {
+    const store = createProgressStore();
+    let renders = 0;
+    const { result } = renderHook(
+      () => {
+        renders++;
+        return useIsCompleted(5);
+      },
+      { wrapper: ({ children }) => <ProgressProvider total={10} store={store}>{children}</ProgressProvider> },
+    );
+    const initialRenders = renders;
+
+    act(() => store.markComplete(3));
+    expect(renders).toBe(initialRenders);
+
+    act(() => store.markComplete(5));
+    expect(result.current).toBe(true);
+    expect(renders).toBe(initialRenders + 1);
+  });
+
+  it('useCompletionStats reports counts against the provider total', () => {
+    const { result } = renderHook(() => ({ stats: useCompletionStats(), progress: useProgress() }), {
+      wrapper: ({ children }) => <ProgressProvider total={4}>{children}</ProgressProvider>,
+    });
+
+    act(() => result.current.progress.markComplete(1));
+    expect(result.current.stats).toEqual({ completed: 1, total: 4, percent: 25 });
+  });
+
+  it('hydrates from an async backend and applies writes optimistically', async () => {
+    let resolveWrite: (() => void) | undefined;
+    const adapter: ProgressAdapter = {
+      loadInitial: () => null,
+      hydrate: async () => completeChallenge(EMPTY_PROGRESS, 2),
+      update: (local, apply) => new Promise((resolve) => {
+        resolveWrite = () => resolve(apply(local));
+      }),
+      replace: () => {},
+      clear: () => {},
+      subscribe: () => () => {},
+    };
+    const { result } = renderHook(() => useProgress(), {
+      wrapper: ({ children }) => <ProgressProvider total={10} adapter={adapter}>{children}</ProgressProvider>,
+    });
+
+    await waitFor(() => expect(result.current.completedIds.has(2)).toBe(true));
+
+    act(() => result.current.markComplete(4));
+    expect(result.current.completedIds.has(4)).toBe(true);
+
+    await act(async () => resolveWrite?.());
+    expect([...result.current.completedIds].sort()).toEqual([2, 4]);
+    expect(localStorage.getItem(PROGRESS_KEY)).toBeNull();
+  });
+
+  it('drops a backend write that resolves after a reset', async () => {
+    let resolveWrite: (() => void) | undefined;
+    const adapter: ProgressAdapter = {
+      loadInitial: () => null,
+      update: (local, apply) => new Promise((resolve) => {
+        resolveWrite = () => resolve(apply(local));
+      }),
+      replace: () => {},
+      clear: () => {},
+      subscribe: () => () => {},
+    };
+    const store = createProgressStore(adapter);
+
+    store.markComplete(4);
+    store.resetProgress();
+    await act(async () => resolveWrite?.());
+    expect(store.getState().data).toEqual(EMPTY_PROGRESS);
+  });
+
+  it('reports backend failures as a storage issue', async () => {
+    const adapter: ProgressAdapter = {
+      loadInitial: () => null,
+      hydrate: () => Promise.reject(new Error('Sync server responded 500')),
+      update: () => Promise.reject(new Error('quota exceeded')),
+      replace: () => {},
+      clear: () => {},
+      subscribe: () => () => {},
+    };
+    const store = createProgressStore(adapter);
+    store.connect();
+    await waitFor(() => expect(store.getState().storageIssue).toEqual({
+      kind: 'backend',
+      message: 'Loading progress failed: Sync server responded 500',
+    }));
+
+    store.markComplete(1);
+    await waitFor(() => expect(store.getState().storageIssue).toEqual({
+      kind: 'backend',
+      message: 'Saving progress failed: quota exceeded',
+    }));
+    store.dismissStorageIssue();
+    expect(store.getState().storageIssue).toBeNull();
+  });
+});
@@ -1,42 +1,75 @@
-import { useState, useCallback, useMemo } from 'react';
-
-export function useProgress(total: number) {
-  const [completedIds, setCompletedIds] = useState<Set<number>>(() => {
-    const stored = localStorage.getItem('ril-completed');
-    return stored ? new Set(JSON.parse(stored) as number[]) : new Set();
-  });
-
-  const [completionTimes, setCompletionTimes] = useState<Record<number, number>>(() => {
-    const stored = localStorage.getItem('ril-times');
-    return stored ? (JSON.parse(stored) as Record<number, number>) : {};
-  });
-
-  const markComplete = useCallback((id: number, seconds?: number) => {
-    setCompletedIds((prev) => {
-      const next = new Set([...prev, id]);
-      localStorage.setItem('ril-completed', JSON.stringify([...next]));
-      return next;
-    });
-    if (seconds !== undefined) {
-      setCompletionTimes((prev) => {
-        const next = { ...prev, [id]: seconds };
-        localStorage.setItem('ril-times', JSON.stringify(next));
-        return next;
-      });
-    }
-  }, []);
-
-  const resetProgress = useCallback(() => {
-    setCompletedIds(new Set());
-    setCompletionTimes({});
-    localStorage.removeItem('ril-completed');
-    localStorage.removeItem('ril-times');
-  }, []);
-
-  const progress = useMemo(
-    () => Math.round((completedIds.size / total) * 100),
-    [completedIds.size, total],
+import { createContext, useContext, useMemo, useSyncExternalStore } from 'react';
+import type { ProgressState, ProgressStore } from '@/utils/progressStore';
+import type { Attempt } from '@/types/progress';
+
+export interface ProgressContextValue {
+  store: ProgressStore;
+  total: number;
+}
+
+export const ProgressContext = createContext<ProgressContextValue | null>(null);
+
+const NO_ATTEMPTS: Attempt[] = [];
+
+function useProgressContext(): ProgressContextValue {
+  const context = useContext(ProgressContext);
+  if (!context) throw new Error('Progress hooks must be used inside <ProgressProvider>');
+  return context;
+}
+
+/** Subscribes to one slice of progress; the selector must return a stable value */
+export function useProgressSelector<T>(selector: (state: ProgressState) => T): T {
+  const { store } = useProgressContext();
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+}
+
+export function useProgressActions() {
+  const { store } = useProgressContext();
+  return useMemo(() => ({
+    markComplete: store.markComplete,
+    recordAttempt: store.recordAttempt,
+    replaceProgress: store.replaceProgress,
+    resetProgress: store.resetProgress,
+    dismissStorageIssue: store.dismissStorageIssue,
+  }), [store]);
+}
+
+export function useIsCompleted(id: number): boolean {
+  return useProgressSelector((s) => s.data.completedIds.includes(id));
+}
+
+export function useAttempts(id: number): Attempt[] {
+  return useProgressSelector((s) => s.data.attempts[id] ?? NO_ATTEMPTS);
+}
+
+export function useStorageIssue() {
+  return useProgressSelector((s) => s.storageIssue);
+}
+
+export function useCompletionStats() {
+  const { total } = useProgressContext();
+  const completed = useProgressSelector((s) => s.data.completedIds.length);
+  return useMemo(
+    () => ({ completed, total, percent: Math.round((completed / total) * 100) }),
+    [completed, total],
   );
+}
+
+/** Whole-model convenience hook — re-renders on any progress change */
+export function useProgress() {
+  const data = useProgressSelector((s) => s.data);
+  const storageIssue = useStorageIssue();
+  const { percent } = useCompletionStats();
+  const actions = useProgressActions();
+  const completedIds = useMemo(() => new Set(data.completedIds), [data.completedIds]);
 
-  return { completedIds, completionTimes, markComplete, resetProgress, progress };
+  return {
+    data,
+    completedIds,
+    completionTimes: data.completionTimes,
+    attempts: data.attempts,
+    progress: percent,
+    storageIssue,
+    ...actions,
+  };
 }
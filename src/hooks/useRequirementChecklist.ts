@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadChecklist, saveChecklist } from '@/utils/checklist';
+
+export function useRequirementChecklist(challengeId: number) {
+  const [state, setState] = useState(() => ({ challengeId, checked: loadChecklist(challengeId) }));
+
+  let { checked } = state;
+  if (state.challengeId !== challengeId) {
+    checked = loadChecklist(challengeId);
+    setState({ challengeId, checked });
+  }
+
+  useEffect(() => {
+    if (state.challengeId === challengeId) saveChecklist(challengeId, state.checked);
+  }, [challengeId, state]);
+
+  const toggle = useCallback((index: number) => {
+    setState((prev) => ({
+      ...prev,
+      checked: prev.checked.includes(index)
+        ? prev.checked.filter((i) => i !== index)
+        : [...prev.checked, index].sort((a, b) => a - b),
+    }));
+  }, []);
+
+  const tick = useCallback((indices: number[]) => {
+    setState((prev) => {
+      const added = indices.filter((i) => !prev.checked.includes(i));
+      return added.length === 0 ? prev : { ...prev, checked: [...prev.checked, ...added].sort((a, b) => a - b) };
+    });
+  }, []);
+
+  const reset = useCallback(() => setState((prev) => ({ ...prev, checked: [] })), []);
+
+  return { checked, toggle, tick, reset };
+}
@@ -0,0 +1,60 @@
+import { useState, useCallback } from 'react';
+import type { BackendConfig } from '@/utils/progressAdapters';
+
+/** Where sandbox tests run: CodeSandbox's hosted bundler, or the engine bundled into the app */
+export type SandboxEngine = 'sandpack' | 'local';
+
+export interface Settings extends BackendConfig {
+  autoCompleteOnPass: boolean;
+  /** Countdown warnings, in minutes left */
+  countdownWarningMinutes: number[];
+  autoPauseWhenHidden: boolean;
+  /** 0 disables idle auto-pause */
+  idlePauseMinutes: number;
+  /** Hold back the solution until the gate opens, then confirm before revealing */
+  gateSolution: boolean;
+  solutionGateMinutes: number;
+  sandboxEngine: SandboxEngine;
+  /** TypeScript diagnostics and hover types in the sandbox editor */
+  typeCheck: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  autoCompleteOnPass: false,
+  countdownWarningMinutes: [5, 1],
+  autoPauseWhenHidden: false,
+  idlePauseMinutes: 0,
+  gateSolution: true,
+  solutionGateMinutes: 10,
+  sandboxEngine: 'sandpack',
+  typeCheck: false,
+  progressBackend: 'local',
+  syncServerUrl: 'http://localhost:8787',
+  syncProfile: 'default',
+};
+
+const SETTINGS_KEY = 'ril-settings';
+
+export function loadSettings(): Settings {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_SETTINGS;
+  try {
+    return { ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as Partial<Settings>) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  const updateSettings = useCallback((patch: Partial<Settings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -5,6 +5,7 @@ import { useTimer } from './useTimer';
 describe('useTimer', () => {
   beforeEach(() => {
     vi.useFakeTimers();
+    localStorage.clear();
   });
 
   afterEach(() => {
@@ -60,4 +61,76 @@ describe('useTimer', () => {
     act(() => result.current.toggle());
     expect(result.current.isActive).toBe(false);
   });
+
+  it('counts down from a duration and keeps counting past zero', () => {
+    const { result } = renderHook(() => useTimer());
+
+    act(() => result.current.startCountdown(3));
+    expect(result.current.remaining).toBe(3);
+    expect(result.current.isActive).toBe(true);
+
+    act(() => vi.advanceTimersByTime(3000));
+    expect(result.current.remaining).toBe(0);
+    expect(result.current.isTimeUp).toBe(true);
+
+    act(() => vi.advanceTimersByTime(2000));
+    expect(result.current.remaining).toBe(-2);
+    expect(result.current.seconds).toBe(5);
+  });
+
+  it('reset leaves countdown mode', () => {
+    const { result } = renderHook(() => useTimer());
+
+    act(() => result.current.startCountdown(60));
+    act(() => result.current.reset());
+    expect(result.current.remaining).toBeNull();
+    expect(result.current.isTimeUp).toBe(false);
+  });
+
+  it('resumes a persisted session after a remount', () => {
+    const first = renderHook(() => useTimer({ challengeId: 7 }));
+    act(() => first.result.current.start());
+    act(() => vi.advanceTimersByTime(5000));
+    first.unmount();
+
+    // Time with no page open isn't counted
+    vi.advanceTimersByTime(60_000);
+    const { result } = renderHook(() => useTimer({ challengeId: 7 }));
+    expect(result.current.seconds).toBe(5);
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.log.map((e) => e.type)).toEqual(['start', 'pause', 'resume']);
+
+    act(() => vi.advanceTimersByTime(2000));
+    expect(result.current.seconds).toBe(7);
+  });
+
+  it('auto-pauses while the document is hidden', () => {
+    const { result } = renderHook(() => useTimer({ autoPauseWhenHidden: true }));
+    const setHidden = (hidden: boolean) => {
+      Object.defineProperty(document, 'hidden', { configurable: true, value: hidden });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    act(() => result.current.start());
+    act(() => vi.advanceTimersByTime(2000));
+    act(() => setHidden(true));
+    expect(result.current.pausedReason).toBe('hidden');
+
+    act(() => vi.advanceTimersByTime(10_000));
+    act(() => setHidden(false));
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.seconds).toBe(2);
+  });
+
+  it('auto-pauses after the idle timeout, excluding the idle stretch', () => {
+    const { result } = renderHook(() => useTimer({ idlePauseMinutes: 1 }));
+
+    act(() => result.current.start());
+    act(() => vi.advanceTimersByTime(65_000));
+    expect(result.current.pausedReason).toBe('idle');
+    expect(result.current.seconds).toBe(0);
+
+    act(() => window.dispatchEvent(new Event('keydown')));
+    expect(result.current.isActive).toBe(true);
+  });
 });
@@ -1,22 +1,130 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  createSession,
+  elapsedMs,
+  loadTimerSession,
+  pauseSession,
+  restoreSession,
+  saveTimerSession,
+  startSession,
+} from '@/utils/timerSession';
+import type { TimerSession } from '@/types/timer';
 
-export function useTimer() {
-  const [seconds, setSeconds] = useState(0);
-  const [isActive, setIsActive] = useState(false);
+export interface TimerOptions {
+  /** Persist the session under this challenge so a reload resumes it */
+  challengeId?: number;
+  autoPauseWhenHidden?: boolean;
+  /** Pause after this many minutes without input; 0 disables */
+  idlePauseMinutes?: number;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+const IDLE_CHECK_MS = 5000;
+
+function initialSession(challengeId: number | undefined, now: number): TimerSession {
+  const stored = challengeId === undefined ? null : loadTimerSession(challengeId);
+  return stored ? restoreSession(stored, now) : createSession(now);
+}
+
+/**
+ * Elapsed time is derived from wall-clock timestamps rather than counted
+ * ticks, so throttled background intervals can't make it drift — the
+ * interval only triggers re-renders.
+ */
+export function useTimer({ challengeId, autoPauseWhenHidden = false, idlePauseMinutes = 0 }: TimerOptions = {}) {
+  const [now, setNow] = useState(() => Date.now());
+  const [state, setState] = useState(() => ({ challengeId, session: initialSession(challengeId, now) }));
+
+  // Switching challenges swaps in that challenge's session during render
+  let { session } = state;
+  if (state.challengeId !== challengeId) {
+    session = initialSession(challengeId, Date.now());
+    setState({ challengeId, session });
+  }
+
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const isActive = session.runningSince !== null;
+
+  const update = useCallback((fn: (prev: TimerSession, at: number) => TimerSession) => {
+    const at = Date.now();
+    setState((prev) => {
+      const next = fn(prev.session, at);
+      return next === prev.session ? prev : { ...prev, session: next };
+    });
+    setNow(at);
+  }, []);
 
   useEffect(() => {
     if (!isActive) return;
-    const id = setInterval(() => setSeconds((s) => s + 1), 1000);
+    const id = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(id);
   }, [isActive]);
 
-  const start = useCallback(() => setIsActive(true), []);
-  const pause = useCallback(() => setIsActive(false), []);
-  const reset = useCallback(() => {
-    setIsActive(false);
-    setSeconds(0);
-  }, []);
-  const toggle = useCallback(() => setIsActive((a) => !a), []);
+  useEffect(() => {
+    if (challengeId === undefined || state.challengeId !== challengeId) return;
+    saveTimerSession(challengeId, { ...state.session, lastSeenAt: Math.max(now, state.session.lastSeenAt) });
+  }, [challengeId, state, now]);
+
+  useEffect(() => {
+    if (!autoPauseWhenHidden) return;
+    const handleVisibility = () => {
+      if (document.hidden) update((s, at) => pauseSession(s, at, 'hidden'));
+      else update((s, at) => (s.pausedReason === 'hidden' ? startSession(s, at, 'hidden') : s));
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [autoPauseWhenHidden, update]);
+
+  useEffect(() => {
+    if (!idlePauseMinutes) return;
+    const idleMs = idlePauseMinutes * 60_000;
+    let lastActivity = Date.now();
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (sessionRef.current.pausedReason === 'idle') update((s, at) => startSession(s, at, 'idle'));
+    };
+    // Backdated to the last input so the idle stretch itself isn't counted
+    const id = setInterval(() => {
+      if (Date.now() - lastActivity < idleMs) return;
+      update((s) => (s.runningSince === null ? s : pauseSession(s, Math.max(s.runningSince, lastActivity), 'idle')));
+    }, IDLE_CHECK_MS);
+
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, handleActivity, { passive: true }));
+    return () => {
+      clearInterval(id);
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, handleActivity));
+    };
+  }, [idlePauseMinutes, update]);
+
+  const start = useCallback(() => update((s, at) => startSession(s, at)), [update]);
+  const pause = useCallback(() => update((s, at) => pauseSession(s, at, 'manual')), [update]);
+  const reset = useCallback(() => update((_, at) => createSession(at)), [update]);
+  const toggle = useCallback(() => update((s, at) => (
+    s.runningSince === null ? startSession(s, at) : pauseSession(s, at, 'manual')
+  )), [update]);
+  // Countdown mode still counts `seconds` up; remaining goes negative on overrun
+  const startCountdown = useCallback((duration: number) => update((_, at) => (
+    startSession({ ...createSession(at), durationSeconds: duration }, at)
+  )), [update]);
+
+  const seconds = Math.floor(elapsedMs(session, Math.max(now, session.runningSince ?? now)) / 1000);
+  const { durationSeconds } = session;
+  const remaining = durationSeconds === null ? null : durationSeconds - seconds;
 
-  return { seconds, isActive, start, pause, reset, toggle };
+  return {
+    seconds,
+    isActive,
+    start,
+    pause,
+    reset,
+    toggle,
+    durationSeconds,
+    remaining,
+    isTimeUp: remaining !== null && remaining <= 0,
+    startCountdown,
+    pausedReason: session.pausedReason,
+    log: session.log,
+  };
 }
@@ -0,0 +1,21 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createTypeCheckClient, type TypeCheckClient } from '@/utils/typeCheckClient';
+import { typeCheckExtensions } from '@/utils/editorTypeCheck';
+import type { Extension } from '@codemirror/state';
+
+/** Editor extensions for TypeScript checking, backed by a worker that lives while enabled */
+export function useTypeCheck(enabled: boolean, contract?: string): Extension[] {
+  const [client, setClient] = useState<TypeCheckClient | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const next = createTypeCheckClient();
+    setClient(next);
+    return () => {
+      next.dispose();
+      setClient(null);
+    };
+  }, [enabled]);
+
+  return useMemo(() => (client ? typeCheckExtensions(client, contract) : []), [client, contract]);
+}
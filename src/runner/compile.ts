@@ -0,0 +1,24 @@
+import ts from 'typescript';
+
+/** Transpiles one TS/JSX module to CommonJS; type errors are ignored, syntax errors throw */
+export function compileModule(source: string, fileName: string): string {
+  const { outputText, diagnostics = [] } = ts.transpileModule(source, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+    },
+  });
+  const [first] = diagnostics;
+  if (first) {
+    const line = first.file && first.start !== undefined
+      ? first.file.getLineAndCharacterOfPosition(first.start).line + 1
+      : undefined;
+    const message = ts.flattenDiagnosticMessageText(first.messageText, '\n');
+    throw new SyntaxError(line === undefined ? `${fileName}: ${message}` : `${fileName}:${line}: ${message}`);
+  }
+  return outputText;
+}
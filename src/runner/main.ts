@@ -0,0 +1,35 @@
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as testingLibraryDom from '@testing-library/dom';
+import * as testingLibraryReact from '@testing-library/react';
+import { CORE_PACKAGES } from './modules';
+import { createJobQueue, runJob } from './runJob';
+import type { RunnerJob, RunnerMessage } from '@/types/runner';
+
+const PACKAGES = {
+  ...CORE_PACKAGES,
+  'react-dom': ReactDOM,
+  'react-dom/client': ReactDOMClient,
+  '@testing-library/dom': testingLibraryDom,
+  '@testing-library/react': testingLibraryReact,
+};
+
+const post = (message: RunnerMessage) => window.parent.postMessage(message, location.origin);
+
+const enqueue = createJobQueue(async (job) => {
+  // A cleanup that threw in the previous run can leave its trees mounted
+  try {
+    testingLibraryReact.cleanup();
+  } catch {
+    // Already reported against that run
+  }
+  const results = await runJob(job, { packages: PACKAGES, afterEachTest: testingLibraryReact.cleanup });
+  post({ type: 'results', id: job.id, results });
+});
+
+window.addEventListener('message', (event: MessageEvent<RunnerJob>) => {
+  if (event.source !== window.parent || event.origin !== location.origin) return;
+  enqueue(event.data);
+});
+
+post({ type: 'ready' });
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import * as testingLibraryReact from '@testing-library/react';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { exportWrapped } from '@/utils/sandboxCode';
+import { compileModule } from './compile';
+import { CORE_PACKAGES, createModuleLoader } from './modules';
+import { runJob } from './runJob';
+
+describe('createModuleLoader', () => {
+  it('resolves relative imports, vendored packages and globals', () => {
+    const files = {
+      math: compileModule('export const double = (n: number) => n * 2;', 'math.ts'),
+      main: compileModule(
+        "import { double } from './math';\nimport { useState } from 'react';\nexport default [double(answer), typeof useState];",
+        'main.ts',
+      ),
+    };
+    const loaded = createModuleLoader(files, { answer: 21 }).load('main') as { default: unknown };
+    expect(loaded.default).toEqual([42, 'function']);
+  });
+
+  it('rejects packages that are not bundled', () => {
+    const files = { main: compileModule("import 'lodash';", 'main.ts') };
+    expect(() => createModuleLoader(files, {}).load('main')).toThrow(/"lodash" isn't available offline/);
+  });
+
+  it('reports compile errors with their location', () => {
+    expect(() => compileModule('const x = ;', 'implementation.tsx')).toThrow(/^implementation\.tsx:1: /);
+  });
+
+  it('passes a challenge suite against its solution', async () => {
+    const challenge = ALL_CHALLENGES.find((c) => c.id === 21)!;
+    const job = { id: 1, code: exportWrapped(challenge.solutionCode), testCode: challenge.testCode! };
+    const results = await runJob(job, {
+      packages: { ...CORE_PACKAGES, '@testing-library/react': testingLibraryReact },
+      afterEachTest: testingLibraryReact.cleanup,
+    });
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.filter((r) => r.status === 'fail')).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import * as React from 'react';
+import * as jsxRuntime from 'react/jsx-runtime';
+
+/** Packages bundled into the app, so tests resolve them without a network */
+export type Packages = Record<string, unknown>;
+
+/** What every runner provides; the runner page adds react-dom and Testing Library */
+export const CORE_PACKAGES: Packages = {
+  react: React,
+  'react/jsx-runtime': jsxRuntime,
+};
+
+const localName = (specifier: string) => specifier.replace(/^\.\//, '').replace(/\.[jt]sx?$/, '');
+
+/**
+ * Evaluates compiled CommonJS modules. Relative imports resolve against
+ * `files` (keyed by name without extension), everything else against
+ * `packages`. `globals` are in scope for every module.
+ */
+export function createModuleLoader(
+  files: Record<string, string>,
+  globals: Record<string, unknown>,
+  packages: Packages = CORE_PACKAGES,
+) {
+  const cache = new Map<string, { exports: unknown }>();
+
+  function load(name: string): unknown {
+    const cached = cache.get(name);
+    if (cached) return cached.exports;
+
+    const code = files[name];
+    if (code === undefined) throw new Error(`Cannot find module './${name}'`);
+    const module = { exports: {} as unknown };
+    cache.set(name, module);
+    const evaluate = new Function('require', 'module', 'exports', ...Object.keys(globals), code);
+    evaluate(require, module, module.exports, ...Object.values(globals));
+    return module.exports;
+  }
+
+  function require(specifier: string): unknown {
+    if (specifier.startsWith('./')) return load(localName(specifier));
+    if (specifier in packages) return packages[specifier];
+    throw new Error(`Module "${specifier}" isn't available offline; bundled: ${Object.keys(packages).join(', ')}`);
+  }
+
+  return { load };
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { createJobQueue } from './runJob';
+
+const job = (id: number) => ({ id, code: '', testCode: '' });
+
+describe('createJobQueue', () => {
+  it('starts a job only after the previous one has finished, even if it failed', async () => {
+    const events: string[] = [];
+    let finishFirst = () => {};
+    const enqueue = createJobQueue(async ({ id }) => {
+      events.push(`start ${id}`);
+      if (id === 1) await new Promise<void>((resolve) => { finishFirst = resolve; });
+      if (id === 2) throw new Error('boom');
+      events.push(`end ${id}`);
+    });
+
+    enqueue(job(1));
+    enqueue(job(2));
+    enqueue(job(3));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual(['start 1']);
+
+    finishFirst();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual(['start 1', 'end 1', 'start 2', 'start 3', 'end 3']);
+  });
+});
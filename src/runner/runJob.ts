@@ -0,0 +1,39 @@
+import { createTestApi } from './testApi';
+import { createModuleLoader, type Packages } from './modules';
+import { suiteFailure } from '@/utils/testResults';
+import type { TestResult } from '@/types/progress';
+import type { RunnerJob } from '@/types/runner';
+
+interface RunJobOptions {
+  packages: Packages;
+  afterEachTest?: () => unknown;
+}
+
+/** Compiles the job's two modules, evaluates the tests and runs them */
+export async function runJob({ code, testCode }: RunnerJob, { packages, afterEachTest }: RunJobOptions): Promise<TestResult[]> {
+  const api = createTestApi({ afterEachTest });
+  try {
+    // TypeScript is large, so it loads with the first run rather than the page
+    const { compileModule } = await import('./compile');
+    const files = {
+      implementation: compileModule(code, 'implementation.tsx'),
+      test: compileModule(testCode, 'test.tsx'),
+    };
+    createModuleLoader(files, api.globals, packages).load('test');
+  } catch (error) {
+    return [suiteFailure(error instanceof Error ? error.message : String(error))];
+  }
+  return api.run();
+}
+
+/**
+ * Handles jobs one at a time in arrival order. Suites share the page's
+ * globals and the DOM, so a second job must not start while one is awaiting.
+ */
+export function createJobQueue(handle: (job: RunnerJob) => Promise<void>) {
+  let tail = Promise.resolve();
+  return (job: RunnerJob) => {
+    // A job that fails must not stall the ones queued behind it
+    tail = tail.then(() => handle(job)).catch(() => {});
+  };
+}
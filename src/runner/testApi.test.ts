@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createTestApi } from './testApi';
+
+describe('createTestApi', () => {
+  it('runs nested tests in order with inherited hooks', async () => {
+    const api = createTestApi();
+    const { describe: suite, test, beforeEach, expect: expectFn } = api.globals;
+    const log: string[] = [];
+
+    beforeEach(() => log.push('outer'));
+    suite('store', () => {
+      beforeEach(() => log.push('inner'));
+      test('adds', () => expectFn(1 + 1).toBe(2));
+      test('fails', () => expectFn({ a: 1 }).toEqual({ a: 2 }));
+    });
+    test('async', async () => expectFn(await Promise.resolve('ok')).toBe('ok'));
+
+    const results = await api.run();
+    expect(results.map((r) => [r.name, r.status])).toEqual([
+      ['store › adds', 'pass'],
+      ['store › fails', 'fail'],
+      ['async', 'pass'],
+    ]);
+    expect(results[1]!.error).toMatch(/deeply equal/);
+    expect(results[1]!.diff).toBe('- Expected\n+ Received\n\n  {\n-   "a": 2,\n+   "a": 1,\n  }');
+    expect(results[0]).not.toHaveProperty('diff');
+    expect(log).toEqual(['outer', 'inner', 'outer', 'inner', 'outer']);
+  });
+
+  it('supports jest.fn matchers and times out hanging tests', async () => {
+    const api = createTestApi({ timeoutMs: 20 });
+    const { test, jest, expect: expectFn } = api.globals;
+
+    test('spy', () => {
+      const spy = jest.fn();
+      spy('a');
+      expectFn(spy).toHaveBeenCalledWith('a');
+    });
+    test('hangs', () => new Promise(() => {}));
+
+    const results = await api.run();
+    expect(results[0]!.status).toBe('pass');
+    expect(results[1]).toMatchObject({ status: 'fail', error: 'Timed out after 20ms' });
+  });
+
+  it('runs the afterEachTest callback after every test', async () => {
+    let cleaned = 0;
+    const api = createTestApi({ afterEachTest: () => { cleaned++; } });
+    api.globals.test('a', () => {});
+    api.globals.test('b', () => { throw new Error('boom'); });
+
+    const results = await api.run();
+    expect(cleaned).toBe(2);
+    expect(results[1]).toMatchObject({ status: 'fail', error: 'boom' });
+  });
+});
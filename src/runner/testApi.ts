@@ -0,0 +1,145 @@
+import { chai, JestAsymmetricMatchers, JestChaiExpect, JestExtend, type ExpectStatic } from '@vitest/expect';
+import { fn, spyOn, type Procedure } from '@vitest/spy';
+import { diff, type DiffOptions } from '@vitest/utils/diff';
+import type { TestResult } from '@/types/progress';
+
+chai.use(JestExtend);
+chai.use(JestChaiExpect);
+chai.use(JestAsymmetricMatchers);
+
+type Callback = () => unknown;
+
+interface Block {
+  entries: Array<{ name: string; body: Callback } | { name: string; block: Block }>;
+  beforeAll: Callback[];
+  afterAll: Callback[];
+  beforeEach: Callback[];
+  afterEach: Callback[];
+}
+
+export interface TestApiOptions {
+  /** Per-test limit, so a promise that never settles fails instead of hanging the run */
+  timeoutMs?: number;
+  /** Runs after every test, after the suite's own afterEach hooks */
+  afterEachTest?: Callback;
+}
+
+const emptyBlock = (): Block => ({ entries: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] });
+
+function withTimeout(body: Callback, ms: number): Promise<unknown> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    Promise.resolve().then(body),
+    new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Results are shown as plain text, so no ANSI colors (which are on in Chrome)
+const plain = (text: string) => text;
+const DIFF_OPTIONS: DiffOptions = {
+  aColor: plain,
+  bColor: plain,
+  changeColor: plain,
+  commonColor: plain,
+  patchColor: plain,
+  changeLineTrailingSpaceColor: plain,
+  commonLineTrailingSpaceColor: plain,
+  truncateAnnotationColor: plain,
+};
+
+/** Expected/received diff for a failed `expect`, like Jest prints under the message */
+function assertionDiff(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null || !('expected' in error) || !('actual' in error)) return undefined;
+  if ((error as { showDiff?: boolean }).showDiff === false) return undefined;
+  return diff(error.expected, error.actual, DIFF_OPTIONS);
+}
+
+function failure(name: string, error: unknown): TestResult {
+  const diffText = assertionDiff(error);
+  return { name, status: 'fail', error: errorMessage(error), ...(diffText ? { diff: diffText } : {}) };
+}
+
+/**
+ * A Jest-compatible subset of globals for `testCode`: describe/test/it, the
+ * lifecycle hooks, Jest's `expect` matchers and `jest.fn`. Tests are collected
+ * while the test module evaluates, then `run` executes them in order.
+ */
+export function createTestApi({ timeoutMs = 5000, afterEachTest }: TestApiOptions = {}) {
+  const root = emptyBlock();
+  let current = root;
+
+  const describe = (name: string, body: Callback) => {
+    const block = emptyBlock();
+    current.entries.push({ name, block });
+    const parent = current;
+    current = block;
+    try {
+      body();
+    } finally {
+      current = parent;
+    }
+  };
+  const test = (name: string, body: Callback) => {
+    current.entries.push({ name, body });
+  };
+
+  const globals = {
+    describe,
+    test,
+    it: test,
+    expect: chai.expect as unknown as ExpectStatic,
+    jest: {
+      fn: (implementation?: Procedure) => fn(implementation).mockName('jest.fn()'),
+      spyOn,
+    },
+    beforeAll: (cb: Callback) => current.beforeAll.push(cb),
+    afterAll: (cb: Callback) => current.afterAll.push(cb),
+    beforeEach: (cb: Callback) => current.beforeEach.push(cb),
+    afterEach: (cb: Callback) => current.afterEach.push(cb),
+  };
+
+  async function runBlock(block: Block, path: string[], beforeEach: Callback[], afterEach: Callback[]) {
+    const results: TestResult[] = [];
+    const before = [...beforeEach, ...block.beforeEach];
+    const after = [...block.afterEach, ...afterEach];
+
+    try {
+      for (const hook of block.beforeAll) await withTimeout(hook, timeoutMs);
+    } catch (error) {
+      return [failure([...path, 'beforeAll'].join(' › '), error)];
+    }
+
+    for (const entry of block.entries) {
+      if ('block' in entry) {
+        results.push(...await runBlock(entry.block, [...path, entry.name], before, after));
+        continue;
+      }
+      const startedAt = performance.now();
+      let error: unknown;
+      try {
+        for (const hook of before) await withTimeout(hook, timeoutMs);
+        await withTimeout(entry.body, timeoutMs);
+      } catch (caught) {
+        error = caught;
+      }
+      try {
+        for (const hook of after) await withTimeout(hook, timeoutMs);
+        await afterEachTest?.();
+      } catch (caught) {
+        error ??= caught;
+      }
+      const name = [...path, entry.name].join(' › ');
+      const durationMs = Math.round(performance.now() - startedAt);
+      results.push(error === undefined ? { name, status: 'pass', durationMs } : { ...failure(name, error), durationMs });
+    }
+
+    for (const hook of block.afterAll) await withTimeout(hook, timeoutMs).catch(() => undefined);
+    return results;
+  }
+
+  return { globals, run: () => runBlock(root, [], [], []) };
+}
@@ -0,0 +1,13 @@
+import { CORE_PACKAGES } from './modules';
+import { createJobQueue, runJob } from './runJob';
+import type { RunnerJob, RunnerMessage } from '@/types/runner';
+
+// Typed against the page's Window by default; a dedicated worker posts without a target origin
+const scope = self as unknown as Pick<Worker, 'addEventListener' | 'postMessage'>;
+const post = (message: RunnerMessage) => scope.postMessage(message);
+
+const enqueue = createJobQueue(async (job) => {
+  post({ type: 'results', id: job.id, results: await runJob(job, { packages: CORE_PACKAGES }) });
+});
+
+scope.addEventListener('message', (event: MessageEvent<RunnerJob>) => enqueue(event.data));
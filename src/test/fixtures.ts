@@ -0,0 +1,20 @@
+import type { Challenge } from '@/types/challenge';
+
+/** A minimal valid challenge for tests; `patch` sets only the fields a test cares about */
+export function challenge(id: number, patch: Partial<Challenge> = {}): Challenge {
+  return {
+    id,
+    category: 'Performance',
+    difficulty: 'Hard',
+    title: `Challenge ${id}`,
+    timeEstimate: { minutes: 30 },
+    description: '',
+    realWorld: '',
+    requirements: [],
+    starterCode: '',
+    solutionCode: '',
+    keyPoints: [],
+    followUp: '',
+    ...patch,
+  };
+}
@@ -0,0 +1,31 @@
+const LIB_DIR = '/node_modules/typescript/lib/';
+/** ES2020 plus the DOM, matching what the sandbox runs */
+export const DEFAULT_LIB = `${LIB_DIR}lib.es2020.full.d.ts`;
+
+const LIBS = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', { query: '?raw', import: 'default' });
+// Enough of React's types for hooks and JSX; resolved like a real node_modules
+const REACT_TYPES = import.meta.glob<string>(
+  ['/node_modules/@types/react/{index,global,jsx-runtime}.d.ts', '/node_modules/csstype/index.d.ts'],
+  { query: '?raw', import: 'default', eager: true },
+);
+
+const LIB_REFERENCE = /\/\/\/\s*<reference lib="([^"]+)"\s*\/>/g;
+
+/**
+ * Declaration files for the checker, keyed by path: the default lib, every
+ * lib it references, and React's types.
+ */
+export async function loadDeclarationFiles(): Promise<Record<string, string>> {
+  const files: Record<string, string> = { ...REACT_TYPES };
+
+  const visit = async (path: string): Promise<void> => {
+    const load = LIBS[path];
+    if (!load || path in files) return;
+    files[path] = '';
+    const text = await load();
+    files[path] = text;
+    await Promise.all([...text.matchAll(LIB_REFERENCE)].map(([, name]) => visit(`${LIB_DIR}lib.${name!.toLowerCase()}.d.ts`)));
+  };
+  await visit(DEFAULT_LIB);
+  return files;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { exportWrapped } from '@/utils/sandboxCode';
+import { loadDeclarationFiles } from './libs';
+import { createTypeChecker } from './service';
+
+let checker: ReturnType<typeof createTypeChecker>;
+
+beforeAll(async () => {
+  checker = createTypeChecker(await loadDeclarationFiles());
+});
+
+const messages = (code: string, contract?: string) => checker.check({ code, contract }).map((d) => d.message);
+
+describe('createTypeChecker', () => {
+  it('checks plain JS leniently and TypeScript as TypeScript', () => {
+    expect(messages('export function make() {\n  const state = {};\n  state.count = 1;\n  return state;\n}')).toEqual([]);
+    expect(messages('const n: number = "one";')).toEqual(["Type 'string' is not assignable to type 'number'."]);
+    expect(messages("import { useState } from 'react';\nexport function useFlag() {\n  const [on, setOn] = useState(false);\n  return on.toFixed();\n}"))
+      .toEqual(["Property 'toFixed' does not exist on type 'boolean'."]);
+  });
+
+  it('reports exports that are missing from or mismatch the contract on the declaration', () => {
+    const contract = 'export declare function add(a: number, b: number): number;\nexport declare const VERSION: string;';
+    const code = 'export function add(a) {\n  return String(a);\n}';
+    const diagnostics = checker.check({ code, contract });
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      expect.stringMatching(/^"add" doesn't match the challenge's API contract:\nType '\(a: any\) => string' is not assignable/),
+      'Missing export "VERSION" required by the challenge\'s API contract',
+    ]);
+    expect(code.slice(diagnostics[0]!.from, diagnostics[0]!.to)).toBe('add');
+    expect(messages('export function add(a, b) {\n  return a + b;\n}\nexport const VERSION = "1";', contract)).toEqual([]);
+  });
+
+  it('describes the type under the cursor', () => {
+    const code = 'export const double = (n: number) => n * 2;';
+    expect(checker.hover({ code }, code.indexOf('double'))).toBe('const double: (n: number) => number');
+  });
+
+  it('authored contracts accept their solutions and reject the starter code', () => {
+    const contractErrors = (code: string, contract: string) =>
+      messages(exportWrapped(code), contract).filter((m) => m.includes('API contract'));
+
+    ALL_CHALLENGES.filter((c) => c.contract).forEach((c) => {
+      expect(contractErrors(c.solutionCode, c.contract!), c.title).toEqual([]);
+      expect(contractErrors(c.starterCode, c.contract!), c.title).not.toEqual([]);
+    });
+  });
+});
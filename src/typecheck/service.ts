@@ -0,0 +1,183 @@
+import ts from 'typescript';
+import { DEFAULT_LIB } from './libs';
+import type { TypeCheckInput, TypeDiagnostic } from '@/types/typecheck';
+
+const CONTRACT_PATH = '/contract.d.ts';
+const CONTRACT_CHECK_PATH = '/contract-check.ts';
+// Lines of the generated check file before the first export
+const CHECK_HEADER_LINES = 2;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.ReactJSX,
+  allowJs: true,
+  checkJs: true,
+  esModuleInterop: true,
+  // Starter code is plain JS, so only report what's wrong rather than what's untyped
+  strict: false,
+  types: [],
+};
+
+// Bare imports other than React can't be resolved here and aren't the user's mistake
+const IGNORED_CODES = new Set([2307, 7016]);
+// "... can only be used in TypeScript files": the code is TS, not JS
+const isTypeScriptOnlySyntax = (d: ts.Diagnostic) => d.code >= 8002 && d.code <= 8017;
+const MISSING_EXPORT_CODES = new Set([2339, 2551, 2614]);
+
+function isPlainJs(code: string): boolean {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: 'implementation.jsx',
+    reportDiagnostics: true,
+    compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+  });
+  return !diagnostics.some(isTypeScriptOnlySyntax);
+}
+
+/** Names of the values a contract declares, in source order */
+function contractExports(contract: string): string[] {
+  const source = ts.createSourceFile(CONTRACT_PATH, contract, ts.ScriptTarget.ES2020);
+  return source.statements.flatMap((node) => {
+    const exported = ts.canHaveModifiers(node)
+      && ts.getModifiers(node)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    if (!exported) return [];
+    if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isEnumDeclaration(node)) && node.name) {
+      return [node.name.text];
+    }
+    if (ts.isVariableStatement(node)) {
+      return node.declarationList.declarations.flatMap((d) => (ts.isIdentifier(d.name) ? [d.name.text] : []));
+    }
+    return [];
+  });
+}
+
+const contractCheck = (names: string[]) => [
+  "import type * as contract from './contract';",
+  "import * as implementation from './implementation';",
+  ...names.map((name, i) => `export const check${i}: typeof contract.${name} = implementation.${name};`),
+].join('\n');
+
+const severity = (d: ts.Diagnostic): TypeDiagnostic['severity'] =>
+  d.category === ts.DiagnosticCategory.Error ? 'error' : 'warning';
+
+/**
+ * A TypeScript language service over the editor's file. Plain JS is checked
+ * as JS (like `checkJs`), and a contract's exports are checked against the
+ * code's, with mismatches reported on the user's declaration.
+ */
+export function createTypeChecker(declarationFiles: Record<string, string>) {
+  const files = new Map<string, { text: string; version: number }>(
+    Object.entries(declarationFiles).map(([path, text]) => [path, { text, version: 0 }]),
+  );
+  let implementationPath = '/implementation.tsx';
+  let roots: string[] = [];
+  let contractNames: string[] = [];
+  // Global rather than per file, so a file that is removed and re-added never reuses a version
+  let version = 0;
+
+  const write = (path: string, text: string) => {
+    if (files.get(path)?.text !== text) files.set(path, { text, version: ++version });
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => COMPILER_OPTIONS,
+    getScriptFileNames: () => roots,
+    getScriptVersion: (path) => String(files.get(path)?.version ?? 0),
+    getScriptSnapshot: (path) => {
+      const file = files.get(path);
+      return file && ts.ScriptSnapshot.fromString(file.text);
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: () => DEFAULT_LIB,
+    fileExists: (path) => files.has(path),
+    readFile: (path) => files.get(path)?.text,
+  };
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  function update({ code, contract }: TypeCheckInput) {
+    const path = isPlainJs(code) ? '/implementation.jsx' : '/implementation.tsx';
+    if (path !== implementationPath) files.delete(implementationPath);
+    implementationPath = path;
+    write(path, code);
+    roots = [path];
+
+    contractNames = contract ? contractExports(contract) : [];
+    if (contract && contractNames.length > 0) {
+      write(CONTRACT_PATH, contract);
+      write(CONTRACT_CHECK_PATH, contractCheck(contractNames));
+      roots.push(CONTRACT_CHECK_PATH);
+    }
+  }
+
+  /** Where the user's code declares an export, for pinning a contract mismatch on it */
+  function declarationSpan(name: string): { from: number; to: number } | null {
+    const program = service.getProgram();
+    const source = program?.getSourceFile(implementationPath);
+    const checker = program?.getTypeChecker();
+    const module = source && checker?.getSymbolAtLocation(source);
+    const symbol = module && checker?.getExportsOfModule(module).find((s) => s.name === name);
+    const declaration = symbol?.declarations?.[0];
+    if (!declaration) return null;
+    const node = ts.getNameOfDeclaration(declaration) ?? declaration;
+    return { from: node.getStart(), to: node.getEnd() };
+  }
+
+  function contractDiagnostics(): TypeDiagnostic[] {
+    if (!roots.includes(CONTRACT_CHECK_PATH)) return [];
+    const program = service.getProgram();
+    const checkFile = program?.getSourceFile(CONTRACT_CHECK_PATH);
+    if (!checkFile) return [];
+    const firstLine = (files.get(implementationPath)?.text ?? '').indexOf('\n');
+
+    const reported = new Set<string>();
+    return service.getSemanticDiagnostics(CONTRACT_CHECK_PATH).flatMap((d): TypeDiagnostic[] => {
+      const line = checkFile.getLineAndCharacterOfPosition(d.start ?? 0).line;
+      const name = contractNames[line - CHECK_HEADER_LINES];
+      if (name === undefined || reported.has(name)) return [];
+      reported.add(name);
+
+      const span = declarationSpan(name);
+      if (!span || MISSING_EXPORT_CODES.has(d.code)) {
+        return [{
+          from: 0,
+          to: firstLine === -1 ? 0 : firstLine,
+          message: `Missing export "${name}" required by the challenge's API contract`,
+          severity: 'error',
+        }];
+      }
+      const detail = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+      return [{ ...span, message: `"${name}" doesn't match the challenge's API contract:\n${detail}`, severity: 'error' }];
+    });
+  }
+
+  function check(input: TypeCheckInput): TypeDiagnostic[] {
+    update(input);
+    const diagnostics = [
+      ...service.getSyntacticDiagnostics(implementationPath),
+      ...service.getSemanticDiagnostics(implementationPath),
+    ].filter((d) => !IGNORED_CODES.has(d.code));
+
+    return [
+      ...diagnostics.map((d) => ({
+        from: d.start ?? 0,
+        to: (d.start ?? 0) + (d.length ?? 0),
+        message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+        severity: severity(d),
+      })),
+      ...contractDiagnostics(),
+    ];
+  }
+
+  /** The type at `pos`, as the editor's hover shows it */
+  function hover(input: TypeCheckInput, pos: number): string | null {
+    update(input);
+    const info = service.getQuickInfoAtPosition(implementationPath, pos);
+    if (!info) return null;
+    const signature = ts.displayPartsToString(info.displayParts);
+    const documentation = ts.displayPartsToString(info.documentation);
+    return documentation ? `${signature}\n\n${documentation}` : signature;
+  }
+
+  return { check, hover };
+}
@@ -0,0 +1,21 @@
+import { loadDeclarationFiles } from './libs';
+import { createTypeChecker } from './service';
+import type { TypeCheckRequest, TypeCheckResponse } from '@/types/typecheck';
+
+// Typed against the page's Window by default; a dedicated worker posts without a target origin
+const scope = self as unknown as Pick<Worker, 'addEventListener' | 'postMessage'>;
+const post = (message: TypeCheckResponse) => scope.postMessage(message);
+
+const checker = loadDeclarationFiles().then(createTypeChecker);
+
+scope.addEventListener('message', async (event: MessageEvent<TypeCheckRequest>) => {
+  const request = event.data;
+  try {
+    const { check, hover } = await checker;
+    if (request.type === 'check') post({ type: 'check', id: request.id, diagnostics: check(request) });
+    else post({ type: 'hover', id: request.id, text: hover(request, request.pos) });
+  } catch (error) {
+    // Lib files that failed to load, or a compiler crash, must still answer the request
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
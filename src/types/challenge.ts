@@ -1,18 +1,51 @@
 export type Category = 'Hooks & State' | 'Performance' | 'Architecture';
 export type Difficulty = 'Medium' | 'Hard' | 'Expert';
 
+/** Expected solve time in minutes; `maxMinutes` makes it a range */
+export interface TimeEstimate {
+  minutes: number;
+  maxMinutes?: number;
+}
+
+/** One assessable criterion; `levels` run from worst to best */
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  /** Relative weight; 1 when omitted */
+  weight?: number;
+  levels: string[];
+}
+
+/** One stop in a solution tour; lines are 1-based and inclusive */
+export interface WalkthroughStep {
+  title: string;
+  startLine: number;
+  endLine: number;
+  explanation: string;
+}
+
 export interface Challenge {
   id: number;
   category: Category;
   difficulty: Difficulty;
   title: string;
-  timeEstimate: string;
+  timeEstimate: TimeEstimate;
   description: string;
   realWorld: string;
   requirements: string[];
   starterCode: string;
   solutionCode: string;
   testCode?: string;
+  /** Module default-exporting a component for the sandbox preview; imports the user's code from './implementation' */
+  demoEntry?: string;
+  /** `.d.ts` module declaring the API the tests expect; the editor's type check holds the code's exports to it */
+  contract?: string;
   keyPoints: string[];
   followUp: string;
+  /** `testCode` test names verifying each requirement, keyed by requirement index */
+  requirementTests?: Record<number, string[]>;
+  /** Falls back to one missing/partial/correct criterion per requirement */
+  rubric?: RubricCriterion[];
+  /** Ordered, annotated tour of `solutionCode` */
+  walkthrough?: WalkthroughStep[];
 }
@@ -0,0 +1,30 @@
+import type { TestRun } from './progress';
+
+/** What the candidate tab broadcasts so the interviewer can follow along */
+export interface CandidateStatus {
+  seconds: number;
+  isActive: boolean;
+  /** Countdown seconds left; null when no countdown is running */
+  remaining: number | null;
+  isCompleted: boolean;
+  lastTestRun?: TestRun;
+}
+
+export type InterviewRole = 'candidate' | 'interviewer';
+
+export type InterviewMessage =
+  /** Sent when a view opens; the other side answers with its current state */
+  | { type: 'hello'; from: InterviewRole }
+  | { type: 'status'; status: CandidateStatus }
+  | { type: 'hints'; offered: number[] }
+  | { type: 'end' };
+
+/** Interviewer-side record; scores and comments are keyed by rubric criterion id */
+export interface InterviewRecord {
+  /** Chosen level index per criterion */
+  scores: Record<string, number>;
+  comments: Record<string, string>;
+  notes: string;
+  offeredHints: number[];
+  endedAt?: number;
+}
@@ -0,0 +1,65 @@
+export type TestStatus = 'pass' | 'fail';
+
+export interface TestResult {
+  name: string;
+  status: TestStatus;
+  durationMs?: number;
+  error?: string;
+  /** Expected/received diff when a failed assertion compared two values */
+  diff?: string;
+}
+
+export interface TestRun {
+  ranAt: number;
+  passed: number;
+  total: number;
+  results: TestResult[];
+}
+
+/** Interview-mode countdown an attempt ran under */
+export interface CountdownResult {
+  durationSeconds: number;
+  /** Seconds past the limit; 0 means it finished (or is still) in time */
+  overrunSeconds: number;
+}
+
+/** Self-assessment against the challenge rubric */
+export interface RubricAssessment {
+  /** Chosen level index, keyed by criterion id */
+  levels: Record<string, number>;
+  /** Weighted score, 0–100 */
+  score: number;
+  assessedAt: number;
+}
+
+export type AttemptStatus = 'in-progress' | 'completed' | 'abandoned';
+
+export interface Attempt {
+  id: string;
+  challengeId: number;
+  startedAt: number;
+  endedAt?: number;
+  elapsedSeconds: number;
+  hintsRevealed: boolean;
+  /** Timer seconds at each progressive hint reveal; its length is the hints used */
+  hintReveals?: number[];
+  solutionRevealed: boolean;
+  /** Timer seconds when the solution was first revealed */
+  solutionRevealedAt?: number;
+  /** Best pass count across this attempt's test runs */
+  testsPassed: number;
+  testsTotal: number;
+  testRuns: TestRun[];
+  countdown?: CountdownResult;
+  /** Requirement indices ticked off during the attempt */
+  checkedRequirements?: number[];
+  assessment?: RubricAssessment;
+  status: AttemptStatus;
+}
+
+export interface ProgressData {
+  completedIds: number[];
+  /** Best completion time in seconds, keyed by challenge id */
+  completionTimes: Record<number, number>;
+  attempts: Record<number, Attempt[]>;
+}
@@ -0,0 +1,12 @@
+import type { TestResult } from './progress';
+
+/** Sent to the offline runner page: the user's module and the challenge's tests */
+export interface RunnerJob {
+  id: number;
+  code: string;
+  testCode: string;
+}
+
+export type RunnerMessage =
+  | { type: 'ready' }
+  | { type: 'results'; id: number; results: TestResult[] };
@@ -0,0 +1,23 @@
+export type TimerEventType = 'start' | 'pause' | 'resume';
+
+/** Why the timer stopped (or restarted): `closed` covers reloads and closed tabs */
+export type PauseReason = 'manual' | 'hidden' | 'idle' | 'closed';
+
+export interface TimerEvent {
+  type: TimerEventType;
+  at: number;
+  reason: PauseReason;
+}
+
+export interface TimerSession {
+  /** Time banked by earlier run segments */
+  accumulatedMs: number;
+  /** Wall-clock start of the current run segment; null while paused */
+  runningSince: number | null;
+  /** Countdown length in seconds; null when counting up */
+  durationSeconds: number | null;
+  pausedReason: PauseReason | null;
+  log: TimerEvent[];
+  /** Last moment an open page vouched for the timer — closed-tab time isn't counted */
+  lastSeenAt: number;
+}
@@ -0,0 +1,22 @@
+/** A type error in the editor's file, as document offsets */
+export interface TypeDiagnostic {
+  from: number;
+  to: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/** The editor's code and the challenge's `.d.ts` contract, checked together */
+export interface TypeCheckInput {
+  code: string;
+  contract?: string;
+}
+
+export type TypeCheckRequest =
+  | ({ type: 'check'; id: number } & TypeCheckInput)
+  | ({ type: 'hover'; id: number; pos: number } & TypeCheckInput);
+
+export type TypeCheckResponse =
+  | { type: 'check'; id: number; diagnostics: TypeDiagnostic[] }
+  | { type: 'hover'; id: number; text: string | null }
+  | { type: 'error'; id: number; message: string };
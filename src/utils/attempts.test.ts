@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createAttempt,
+  withTestRun,
+  shouldKeepAbandoned,
+  bestCompletedTime,
+  upsertAttempt,
+  hintsUsed,
+  onlyAssistedCompletions,
+  MAX_TEST_RUNS_PER_ATTEMPT,
+} from './attempts';
+import type { TestRun } from '@/types/progress';
+
+const run = (passed: number, total = 5): TestRun => ({ ranAt: 0, passed, total, results: [] });
+
+describe('attempts', () => {
+  it('createAttempt starts an empty in-progress attempt', () => {
+    const attempt = createAttempt(7, 1234);
+    expect(attempt).toMatchObject({
+      challengeId: 7,
+      startedAt: 1234,
+      elapsedSeconds: 0,
+      status: 'in-progress',
+      testRuns: [],
+    });
+  });
+
+  it('withTestRun tracks the best pass count', () => {
+    let attempt = createAttempt(1);
+    attempt = withTestRun(attempt, run(3));
+    attempt = withTestRun(attempt, run(1));
+    expect(attempt.testsPassed).toBe(3);
+    expect(attempt.testsTotal).toBe(5);
+    expect(attempt.testRuns).toHaveLength(2);
+  });
+
+  it('withTestRun caps stored runs', () => {
+    let attempt = createAttempt(1);
+    for (let i = 0; i < MAX_TEST_RUNS_PER_ATTEMPT + 3; i++) attempt = withTestRun(attempt, run(i));
+    expect(attempt.testRuns).toHaveLength(MAX_TEST_RUNS_PER_ATTEMPT);
+  });
+
+  it('shouldKeepAbandoned ignores quick looks without activity', () => {
+    const attempt = createAttempt(1);
+    expect(shouldKeepAbandoned({ ...attempt, elapsedSeconds: 5 })).toBe(false);
+    expect(shouldKeepAbandoned({ ...attempt, elapsedSeconds: 5, hintsRevealed: true })).toBe(true);
+    expect(shouldKeepAbandoned({ ...attempt, elapsedSeconds: 600 })).toBe(true);
+  });
+
+  it('hintsUsed counts progressive reveals and falls back for older attempts', () => {
+    const attempt = createAttempt(1);
+    expect(hintsUsed(attempt)).toBe(0);
+    expect(hintsUsed({ ...attempt, hintsRevealed: true })).toBe(1);
+    expect(hintsUsed({ ...attempt, hintsRevealed: true, hintReveals: [40, 95, 120] })).toBe(3);
+  });
+
+  it('onlyAssistedCompletions needs every completion to have used help', () => {
+    const done = { ...createAttempt(1), status: 'completed' as const };
+    expect(onlyAssistedCompletions([])).toBe(false);
+    expect(onlyAssistedCompletions([{ ...done, hintsRevealed: true }])).toBe(true);
+    expect(onlyAssistedCompletions([{ ...done, solutionRevealed: true }, done])).toBe(false);
+    expect(onlyAssistedCompletions([{ ...done, status: 'abandoned', hintsRevealed: true }])).toBe(false);
+  });
+
+  it('bestCompletedTime only considers completed attempts', () => {
+    const base = createAttempt(1);
+    expect(bestCompletedTime([])).toBeUndefined();
+    expect(
+      bestCompletedTime([
+        { ...base, status: 'completed', elapsedSeconds: 400 },
+        { ...base, status: 'abandoned', elapsedSeconds: 100 },
+        { ...base, status: 'completed', elapsedSeconds: 250 },
+      ]),
+    ).toBe(250);
+  });
+
+  it('upsertAttempt replaces by id and appends otherwise', () => {
+    const a = createAttempt(1, 1);
+    const b = createAttempt(1, 2);
+    expect(upsertAttempt([a], b)).toEqual([a, b]);
+    expect(upsertAttempt([a, b], { ...a, elapsedSeconds: 9 })[0]!.elapsedSeconds).toBe(9);
+  });
+});
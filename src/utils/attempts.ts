@@ -0,0 +1,71 @@
+import type { Attempt, TestRun } from '@/types/progress';
+
+export const MAX_TEST_RUNS_PER_ATTEMPT = 10;
+
+// Opening a challenge for a quick look shouldn't litter the history
+export const MIN_ABANDONED_SECONDS = 60;
+
+export function createAttempt(challengeId: number, startedAt = Date.now()): Attempt {
+  return {
+    id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    challengeId,
+    startedAt,
+    elapsedSeconds: 0,
+    hintsRevealed: false,
+    solutionRevealed: false,
+    testsPassed: 0,
+    testsTotal: 0,
+    testRuns: [],
+    status: 'in-progress',
+  };
+}
+
+/** Stamps the timer's elapsed seconds, keeping any countdown overrun in step */
+export function withElapsed(attempt: Attempt, elapsedSeconds: number): Attempt {
+  if (!attempt.countdown) return { ...attempt, elapsedSeconds };
+  const overrunSeconds = Math.max(0, elapsedSeconds - attempt.countdown.durationSeconds);
+  return { ...attempt, elapsedSeconds, countdown: { ...attempt.countdown, overrunSeconds } };
+}
+
+export function withTestRun(attempt: Attempt, run: TestRun): Attempt {
+  const isBetter = run.passed > attempt.testsPassed || attempt.testsTotal === 0;
+  return {
+    ...attempt,
+    testsPassed: isBetter ? run.passed : attempt.testsPassed,
+    testsTotal: isBetter ? run.total : attempt.testsTotal,
+    testRuns: [...attempt.testRuns, run].slice(-MAX_TEST_RUNS_PER_ATTEMPT),
+  };
+}
+
+export function hasActivity(attempt: Attempt): boolean {
+  return attempt.hintsRevealed || attempt.solutionRevealed || attempt.testRuns.length > 0;
+}
+
+export function hintsUsed(attempt: Attempt): number {
+  return attempt.hintReveals?.length ?? (attempt.hintsRevealed ? 1 : 0);
+}
+
+export function isAssisted(attempt: Attempt): boolean {
+  return attempt.hintsRevealed || attempt.solutionRevealed;
+}
+
+/** True when the challenge was only ever completed with hints or the solution open */
+export function onlyAssistedCompletions(attempts: Attempt[] = []): boolean {
+  const completed = attempts.filter((a) => a.status === 'completed');
+  return completed.length > 0 && completed.every(isAssisted);
+}
+
+export function shouldKeepAbandoned(attempt: Attempt): boolean {
+  return hasActivity(attempt) || attempt.elapsedSeconds >= MIN_ABANDONED_SECONDS;
+}
+
+export function bestCompletedTime(attempts: Attempt[]): number | undefined {
+  const times = attempts.filter((a) => a.status === 'completed').map((a) => a.elapsedSeconds);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+export function upsertAttempt(attempts: Attempt[], attempt: Attempt): Attempt[] {
+  const index = attempts.findIndex((a) => a.id === attempt.id);
+  if (index === -1) return [...attempts, attempt];
+  return attempts.map((a, i) => (i === index ? attempt : a));
+}
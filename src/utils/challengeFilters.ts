@@ -0,0 +1,29 @@
+import { estimateMinutes } from './time';
+import type { Challenge, Category, Difficulty } from '@/types/challenge';
+
+export interface ChallengeFilters {
+  category: 'All' | Category;
+  difficulty: 'All' | Difficulty;
+  /** Only challenges whose estimate fits in this many minutes */
+  maxMinutes: number | null;
+  query?: string;
+}
+
+export type ChallengeSort = 'default' | 'shortest' | 'longest';
+
+export function filterChallenges(challenges: Challenge[], filters: ChallengeFilters): Challenge[] {
+  const q = filters.query?.toLowerCase() ?? '';
+  return challenges
+    .filter((c) => filters.category === 'All' || c.category === filters.category)
+    .filter((c) => filters.difficulty === 'All' || c.difficulty === filters.difficulty)
+    .filter((c) => filters.maxMinutes === null || estimateMinutes(c.timeEstimate) <= filters.maxMinutes)
+    .filter((c) => !q || c.title.toLowerCase().includes(q) || c.description.toLowerCase().includes(q));
+}
+
+export function sortChallenges(challenges: Challenge[], sort: ChallengeSort): Challenge[] {
+  if (sort === 'default') return challenges;
+  const direction = sort === 'shortest' ? 1 : -1;
+  return [...challenges].sort(
+    (a, b) => direction * (estimateMinutes(a.timeEstimate) - estimateMinutes(b.timeEstimate)),
+  );
+}
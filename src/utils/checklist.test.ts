@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { clearChecklist, loadChecklist, saveChecklist, verifiedRequirements } from './checklist';
+import type { TestRun } from '@/types/progress';
+
+const run: TestRun = {
+  ranAt: 0,
+  passed: 2,
+  total: 3,
+  results: [
+    { name: 'store › updates when store changes', status: 'pass' },
+    { name: 'store › unsubscribes on unmount', status: 'pass' },
+    { name: 'store › returns the initial snapshot', status: 'fail' },
+  ],
+};
+
+describe('checklist', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('persists checked indices per challenge and ignores junk', () => {
+    saveChecklist(3, [0, 2]);
+    expect(loadChecklist(3)).toEqual([0, 2]);
+    expect(loadChecklist(4)).toEqual([]);
+
+    saveChecklist(3, []);
+    expect(localStorage.getItem('ril-checklist-3')).toBeNull();
+
+    localStorage.setItem('ril-checklist-3', '[1, "x", -1]');
+    expect(loadChecklist(3)).toEqual([1]);
+    clearChecklist(3);
+    expect(loadChecklist(3)).toEqual([]);
+  });
+
+  it('verifies a requirement only when every mapped test passed', () => {
+    const mapping = {
+      0: ['updates when store changes', 'store › unsubscribes on unmount'],
+      1: ['returns the initial snapshot'],
+      2: ['a test that never ran'],
+      3: [],
+    };
+    expect(verifiedRequirements(mapping, run)).toEqual([0]);
+    expect(verifiedRequirements(undefined, run)).toEqual([]);
+    expect(verifiedRequirements(mapping, undefined)).toEqual([]);
+  });
+
+  it('does not match partial test names', () => {
+    expect(verifiedRequirements({ 0: ['when store changes'] }, run)).toEqual([]);
+  });
+});
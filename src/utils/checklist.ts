@@ -0,0 +1,41 @@
+import type { TestRun } from '@/types/progress';
+
+const CHECKLIST_PREFIX = 'ril-checklist-';
+
+/** Checked requirement indices for the challenge's current sitting */
+export function loadChecklist(challengeId: number): number[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(`${CHECKLIST_PREFIX}${challengeId}`) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((i): i is number => Number.isInteger(i) && i >= 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveChecklist(challengeId: number, checked: number[]) {
+  if (checked.length > 0) {
+    localStorage.setItem(`${CHECKLIST_PREFIX}${challengeId}`, JSON.stringify(checked));
+  } else {
+    localStorage.removeItem(`${CHECKLIST_PREFIX}${challengeId}`);
+  }
+}
+
+export function clearChecklist(challengeId: number) {
+  localStorage.removeItem(`${CHECKLIST_PREFIX}${challengeId}`);
+}
+
+// Results are named "describe › test"; a mapping may give either form
+function matchesTest(resultName: string, testName: string): boolean {
+  return resultName === testName || resultName.endsWith(` › ${testName}`);
+}
+
+/** Requirements whose mapped tests were all present and passing in `run` */
+export function verifiedRequirements(mapping: Record<number, string[]> | undefined, run: TestRun | undefined): number[] {
+  if (!mapping || !run) return [];
+  return Object.entries(mapping).flatMap(([index, tests]) => {
+    const verified = tests.length > 0 && tests.every((name) =>
+      run.results.some((r) => r.status === 'pass' && matchesTest(r.name, name)),
+    );
+    return verified ? [Number(index)] : [];
+  });
+}
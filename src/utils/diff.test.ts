@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffStats, toSplitRows } from './diff';
+
+const ops = (text: ReturnType<typeof diffLines>) => text.map((l) => `${l.op[0]} ${l.text}`);
+
+describe('diffLines', () => {
+  it('reports identical text as all equal', () => {
+    const lines = diffLines('a\nb', 'a\nb');
+    expect(ops(lines)).toEqual(['e a', 'e b']);
+    expect(diffStats(lines)).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('finds additions, removals and keeps line numbers for both sides', () => {
+    const lines = diffLines('a\nb\nc\nd', 'a\nc\nx\nd');
+    expect(ops(lines)).toEqual(['e a', 'r b', 'e c', 'a x', 'e d']);
+    expect(lines[1]).toEqual({ op: 'remove', text: 'b', oldNumber: 2 });
+    expect(lines[3]).toEqual({ op: 'add', text: 'x', newNumber: 3 });
+    expect(lines[4]).toMatchObject({ oldNumber: 4, newNumber: 4 });
+  });
+
+  it('handles empty inputs', () => {
+    expect(ops(diffLines('', 'a'))).toEqual(['r ', 'a a']);
+    expect(diffStats(diffLines('a\nb', ''))).toEqual({ added: 1, removed: 2 });
+  });
+
+  it('can ignore whitespace-only changes', () => {
+    const before = 'function f() {\n  return 1;\n}';
+    const after = 'function f()  {\n    return 1;\n}';
+    expect(diffStats(diffLines(before, after))).toEqual({ added: 2, removed: 2 });
+    expect(diffStats(diffLines(before, after, { ignoreWhitespace: true }))).toEqual({ added: 0, removed: 0 });
+  });
+});
+
+describe('toSplitRows', () => {
+  it('pairs removals with the additions that replace them', () => {
+    const rows = toSplitRows(diffLines('a\nb\nc\nd', 'a\nx\ny\nd'));
+    expect(rows.map((r) => [r.left?.text, r.right?.text])).toEqual([
+      ['a', 'a'],
+      ['b', 'x'],
+      ['c', 'y'],
+      ['d', 'd'],
+    ]);
+  });
+
+  it('leaves a side empty when a change only adds or removes', () => {
+    const rows = toSplitRows(diffLines('a\nb', 'a\nb\nc'));
+    expect(rows[2]).toEqual({ left: undefined, right: { op: 'add', text: 'c', newNumber: 3 } });
+  });
+});
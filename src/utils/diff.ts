@@ -0,0 +1,107 @@
+export type DiffOp = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  /** 1-based line in the old text; absent for additions */
+  oldNumber?: number;
+  /** 1-based line in the new text; absent for removals */
+  newNumber?: number;
+}
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffOptions {
+  /** Treat lines differing only in whitespace as equal */
+  ignoreWhitespace?: boolean;
+}
+
+const normalizeWhitespace = (line: string) => line.replace(/\s+/g, ' ').trim();
+
+/** Line diff via longest common subsequence, after trimming the shared prefix and suffix */
+export function diffLines(oldText: string, newText: string, { ignoreWhitespace = false }: DiffOptions = {}): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  const key = ignoreWhitespace ? normalizeWhitespace : (line: string) => line;
+  const ka = a.map(key);
+  const kb = b.map(key);
+
+  let start = 0;
+  while (start < a.length && start < b.length && ka[start] === kb[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && ka[endA - 1] === kb[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  // lcs[i][j] = LCS length of a[i..endA) and b[j..endB)
+  const rows = endA - start;
+  const cols = endB - start;
+  const lcs = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i]![j] = ka[start + i] === kb[start + j]
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  const equal = (i: number, j: number) => result.push({ op: 'equal', text: b[j]!, oldNumber: i + 1, newNumber: j + 1 });
+
+  for (let k = 0; k < start; k++) equal(k, k);
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && ka[start + i] === kb[start + j]) {
+      equal(start + i, start + j);
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      // Removals go first on ties so a replaced line reads old-then-new
+      result.push({ op: 'remove', text: a[start + i]!, oldNumber: start + i + 1 });
+      i++;
+    } else {
+      result.push({ op: 'add', text: b[start + j]!, newNumber: start + j + 1 });
+      j++;
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) equal(endA + k, endB + k);
+
+  return result;
+}
+
+/** Pairs each run of removals with the additions that follow it, side by side */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let k = 0;
+  while (k < lines.length) {
+    const line = lines[k]!;
+    if (line.op === 'equal') {
+      rows.push({ left: line, right: line });
+      k++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (k < lines.length && lines[k]!.op !== 'equal') {
+      (lines[k]!.op === 'remove' ? removed : added).push(lines[k]!);
+      k++;
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      rows.push({ left: removed[r], right: added[r] });
+    }
+  }
+  return rows;
+}
+
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter((l) => l.op === 'add').length,
+    removed: lines.filter((l) => l.op === 'remove').length,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadDraft, saveDraft, clearDraft, draftKey, listDrafts, writeDrafts } from './drafts';
+
+describe('drafts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns null when no draft is stored', () => {
+    expect(loadDraft(1, 'starter')).toBeNull();
+  });
+
+  it('round-trips a saved draft', () => {
+    const saved = saveDraft(1, 'starter', 'const x = 1;');
+    expect(loadDraft(1, 'starter')).toEqual(saved);
+  });
+
+  it('keeps starter and solution drafts separate', () => {
+    saveDraft(1, 'starter', 'mine');
+    saveDraft(1, 'solution', 'tweaked solution');
+
+    expect(loadDraft(1, 'starter')!.code).toBe('mine');
+    expect(loadDraft(1, 'solution')!.code).toBe('tweaked solution');
+    expect(loadDraft(2, 'starter')).toBeNull();
+  });
+
+  it('clearDraft removes only the targeted draft', () => {
+    saveDraft(1, 'starter', 'mine');
+    saveDraft(1, 'solution', 'theirs');
+
+    clearDraft(1, 'starter');
+    expect(loadDraft(1, 'starter')).toBeNull();
+    expect(loadDraft(1, 'solution')).not.toBeNull();
+  });
+
+  it('ignores corrupted or malformed drafts', () => {
+    localStorage.setItem(draftKey(1, 'starter'), '{not json');
+    localStorage.setItem(draftKey(2, 'starter'), JSON.stringify({ code: 42 }));
+
+    expect(loadDraft(1, 'starter')).toBeNull();
+    expect(loadDraft(2, 'starter')).toBeNull();
+  });
+
+  it('listDrafts collects every stored draft by id and variant', () => {
+    const a = saveDraft(1, 'starter', 'a');
+    const b = saveDraft(4, 'solution', 'b');
+    localStorage.setItem('ril-progress', '{}');
+
+    expect(listDrafts()).toEqual({ '1-starter': a, '4-solution': b });
+  });
+
+  it('writeDrafts restores drafts listed by listDrafts', () => {
+    writeDrafts({ '2-starter': { code: 'restored', savedAt: 5 } });
+    expect(loadDraft(2, 'starter')).toEqual({ code: 'restored', savedAt: 5 });
+  });
+});
@@ -0,0 +1,70 @@
+export type DraftVariant = 'starter' | 'solution';
+
+export interface Draft {
+  code: string;
+  savedAt: number;
+}
+
+const DRAFT_PREFIX = 'ril-draft-';
+const DRAFT_ID = /^\d+-(?:starter|solution)$/;
+
+export function draftKey(challengeId: number, variant: DraftVariant): string {
+  return `${DRAFT_PREFIX}${challengeId}-${variant}`;
+}
+
+/** Whether `id` is a `${challengeId}-${variant}` draft id, as used by listDrafts */
+export function isDraftId(id: string): boolean {
+  return DRAFT_ID.test(id);
+}
+
+export function isDraft(value: unknown): value is Draft {
+  const draft = value as Partial<Draft> | null;
+  return typeof draft?.code === 'string' && typeof draft.savedAt === 'number';
+}
+
+function parseDraft(stored: string | null): Draft | null {
+  if (!stored) return null;
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return isDraft(parsed) ? { code: parsed.code, savedAt: parsed.savedAt } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadDraft(challengeId: number, variant: DraftVariant): Draft | null {
+  return parseDraft(localStorage.getItem(draftKey(challengeId, variant)));
+}
+
+/** Every stored draft, keyed by `${challengeId}-${variant}` */
+export function listDrafts(): Record<string, Draft> {
+  const drafts: Record<string, Draft> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(DRAFT_PREFIX)) continue;
+    const draft = parseDraft(localStorage.getItem(key));
+    if (draft) drafts[key.slice(DRAFT_PREFIX.length)] = draft;
+  }
+  return drafts;
+}
+
+export function writeDrafts(drafts: Record<string, Draft>) {
+  Object.entries(drafts).forEach(([id, draft]) => {
+    if (!isDraftId(id) || !isDraft(draft)) return;
+    localStorage.setItem(`${DRAFT_PREFIX}${id}`, JSON.stringify(draft));
+  });
+}
+
+export function saveDraft(challengeId: number, variant: DraftVariant, code: string): Draft {
+  const draft: Draft = { code, savedAt: Date.now() };
+  localStorage.setItem(draftKey(challengeId, variant), JSON.stringify(draft));
+  return draft;
+}
+
+export function clearDraft(challengeId: number, variant: DraftVariant): void {
+  localStorage.removeItem(draftKey(challengeId, variant));
+}
+
+export function clearAllDrafts() {
+  Object.keys(listDrafts()).forEach((id) => localStorage.removeItem(`${DRAFT_PREFIX}${id}`));
+}
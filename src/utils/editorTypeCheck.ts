@@ -0,0 +1,33 @@
+import { linter, type Diagnostic } from '@codemirror/lint';
+import { hoverTooltip } from '@codemirror/view';
+import type { Extension } from '@codemirror/state';
+import type { TypeCheckClient } from './typeCheckClient';
+import type { TypeDiagnostic } from '@/types/typecheck';
+
+/** CodeMirror extensions showing the client's diagnostics inline and types on hover */
+export function typeCheckExtensions(client: TypeCheckClient, contract?: string): Extension[] {
+  const lint = linter(async (view): Promise<Diagnostic[]> => {
+    const code = view.state.doc.toString();
+    // A failed check shows no squiggles rather than leaving the linter waiting
+    const diagnostics = await client.check({ code, contract }).catch((): TypeDiagnostic[] => []);
+    // The document may have changed while the worker was busy
+    if (view.state.doc.toString() !== code) return [];
+    return diagnostics.map((d) => ({ ...d, source: 'TypeScript' }));
+  });
+
+  const hover = hoverTooltip(async (view, pos) => {
+    const text = await client.hover({ code: view.state.doc.toString(), contract }, pos).catch(() => null);
+    if (!text) return null;
+    return {
+      pos,
+      create: () => {
+        const dom = document.createElement('pre');
+        dom.className = 'm-0 px-2 py-1 max-w-[480px] text-xs whitespace-pre-wrap font-mono';
+        dom.textContent = text;
+        return { dom };
+      },
+    };
+  });
+
+  return [lint, hover];
+}
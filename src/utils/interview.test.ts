@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildFeedbackReport, EMPTY_INTERVIEW, loadInterview, saveInterview } from './interview';
+import { challenge } from '@/test/fixtures';
+import type { InterviewRecord } from '@/types/interview';
+
+const virtualizedList = challenge(4, {
+  title: 'Virtualized List',
+  requirements: ['Render only visible rows', 'Support variable heights'],
+  keyPoints: ['Measure rows', 'Use an overscan', 'Binary search offsets'],
+});
+
+describe('interview', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('round-trips the interviewer record and tolerates corrupt data', () => {
+    const record: InterviewRecord = { ...EMPTY_INTERVIEW, notes: 'Clear communicator', offeredHints: [1] };
+    saveInterview(4, record);
+    expect(loadInterview(4)).toEqual(record);
+
+    localStorage.setItem('ril-interview-4', '{broken');
+    expect(loadInterview(4)).toEqual(EMPTY_INTERVIEW);
+  });
+
+  it('ignores a stored record with the wrong shape', () => {
+    ['null', '[]', '{"notes":"hi"}', JSON.stringify({ ...EMPTY_INTERVIEW, offeredHints: 'all' })].forEach((raw) => {
+      localStorage.setItem('ril-interview-4', raw);
+      expect(loadInterview(4)).toEqual(EMPTY_INTERVIEW);
+    });
+  });
+
+  it('buildFeedbackReport combines scores, comments, status and notes', () => {
+    const report = buildFeedbackReport(
+      virtualizedList,
+      {
+        scores: { 'req-1': 1 },
+        comments: { 'req-1': 'Forgot overscan at first' },
+        notes: 'Talked through trade-offs well.',
+        offeredHints: [1],
+      },
+      {
+        seconds: 1500,
+        isActive: false,
+        remaining: null,
+        isCompleted: true,
+        lastTestRun: { ranAt: 0, passed: 3, total: 4, results: [] },
+      },
+    );
+
+    expect(report).toContain('# Interview feedback — Virtualized List');
+    expect(report).toContain('- Overall: 25%');
+    expect(report).toContain('- Time: 25:00 (marked complete)');
+    expect(report).toContain('- Tests: 3/4 passing');
+    expect(report).toContain('- Hints offered: 1 of 3');
+    expect(report).toContain('1. Render only visible rows\n   - Partial\n   - Forgot overscan at first');
+    expect(report).toContain('2. Support variable heights\n   - Not scored');
+    expect(report).toContain('## Notes\n\nTalked through trade-offs well.');
+  });
+});
@@ -0,0 +1,79 @@
+import { formatTime } from './time';
+import { challengeRubric, weightedScore } from './rubric';
+import type { Challenge } from '@/types/challenge';
+import type { CandidateStatus, InterviewRecord } from '@/types/interview';
+
+const INTERVIEW_PREFIX = 'ril-interview-';
+
+export const EMPTY_INTERVIEW: InterviewRecord = { scores: {}, comments: {}, notes: '', offeredHints: [] };
+
+export function interviewChannelName(challengeId: number): string {
+  return `${INTERVIEW_PREFIX}${challengeId}`;
+}
+
+const isRecordOf = <T>(value: unknown, isValue: (v: unknown) => v is T): value is Record<string, T> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isValue);
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function isInterviewRecord(value: unknown): value is InterviewRecord {
+  const record = value as Partial<InterviewRecord> | null;
+  return typeof record === 'object' && record !== null
+    && isRecordOf(record.scores, isIndex)
+    && isRecordOf(record.comments, isString)
+    && isString(record.notes)
+    && Array.isArray(record.offeredHints) && record.offeredHints.every(isIndex)
+    && (record.endedAt === undefined || typeof record.endedAt === 'number');
+}
+
+/** The stored record, or a blank one when there is none or it can't be trusted */
+export function loadInterview(challengeId: number): InterviewRecord {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(`${INTERVIEW_PREFIX}${challengeId}`) ?? 'null');
+    return isInterviewRecord(parsed) ? parsed : EMPTY_INTERVIEW;
+  } catch {
+    return EMPTY_INTERVIEW;
+  }
+}
+
+export function saveInterview(challengeId: number, record: InterviewRecord) {
+  localStorage.setItem(`${INTERVIEW_PREFIX}${challengeId}`, JSON.stringify(record));
+}
+
+export function clearInterview(challengeId: number) {
+  localStorage.removeItem(`${INTERVIEW_PREFIX}${challengeId}`);
+}
+
+/** Markdown report combining rubric scores, per-requirement comments and notes */
+export function buildFeedbackReport(
+  challenge: Challenge,
+  record: InterviewRecord,
+  status: CandidateStatus | null,
+): string {
+  const rubric = challengeRubric(challenge);
+  const percent = weightedScore(rubric, record.scores);
+  const lines = [
+    `# Interview feedback — ${challenge.title}`,
+    '',
+    `- Overall: ${percent === null ? 'not scored' : `${percent}%`}`,
+  ];
+
+  if (status) {
+    lines.push(`- Time: ${formatTime(status.seconds)}${status.isCompleted ? ' (marked complete)' : ''}`);
+    if (status.lastTestRun) lines.push(`- Tests: ${status.lastTestRun.passed}/${status.lastTestRun.total} passing`);
+  }
+  lines.push(`- Hints offered: ${record.offeredHints.length} of ${challenge.keyPoints.length}`);
+
+  lines.push('', '## Rubric', '');
+  rubric.forEach((criterion, i) => {
+    const level = record.scores[criterion.id];
+    lines.push(`${i + 1}. ${criterion.label}`);
+    lines.push(`   - ${level === undefined ? 'Not scored' : criterion.levels[level]}`);
+    const comment = record.comments[criterion.id]?.trim();
+    if (comment) lines.push(`   - ${comment}`);
+  });
+
+  if (record.notes.trim()) lines.push('', '## Notes', '', record.notes.trim());
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLocalRunner, needsDom, unbundledPackages } from './localRunner';
+
+describe('needsDom', () => {
+  it('sends suites that render or use browser globals to the runner page', () => {
+    expect(needsDom('', "import { renderHook } from '@testing-library/react';")).toBe(true);
+    expect(needsDom('', "import { createRoot } from 'react-dom/client';")).toBe(true);
+    expect(needsDom('const saved = localStorage.getItem(key);', '')).toBe(true);
+  });
+
+  it('keeps plain logic suites in the worker', () => {
+    expect(needsDom('export function createStore() {}', "import { createStore } from './implementation';")).toBe(false);
+    expect(needsDom('const windowSize = 3;', '')).toBe(false);
+  });
+});
+
+describe('unbundledPackages', () => {
+  it('lists imported packages the offline runner does not bundle', () => {
+    const starter = "import Reconciler from 'react-reconciler';\nimport { useState } from 'react';";
+    const tests = "import { render } from '@testing-library/react';\nconst { createRoot } = require('./implementation');";
+    expect(unbundledPackages(starter, tests)).toEqual(['react-reconciler']);
+  });
+
+  it('ignores type-only imports and code without imports', () => {
+    expect(unbundledPackages("import type { HostConfig } from 'react-reconciler';", 'const x = 1;')).toEqual([]);
+  });
+});
+
+describe('createLocalRunner', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects pending runs and clears their timeouts when disposed', async () => {
+    vi.useFakeTimers();
+    const runner = createLocalRunner(1000);
+    const pending = runner.run('', "import { render } from '@testing-library/react';");
+    expect(vi.getTimerCount()).toBe(1);
+
+    runner.dispose();
+    await expect(pending).rejects.toThrow('stopped');
+    expect(vi.getTimerCount()).toBe(0);
+    expect(document.querySelector('iframe')).toBeNull();
+    await expect(runner.run('', "import { render } from '@testing-library/react';")).rejects.toThrow('stopped');
+  });
+});
@@ -0,0 +1,194 @@
+import { suiteFailure } from './testResults';
+import type { TestResult } from '@/types/progress';
+import type { RunnerJob, RunnerMessage } from '@/types/runner';
+
+const RUNNER_URL = `${import.meta.env.BASE_URL}runner.html`;
+
+const DOM_USAGE = /['"](?:react-dom|@testing-library\/[\w-]+)(?:\/[\w-]+)?['"]|\b(?:document|window|localStorage|sessionStorage)\b/;
+
+export interface LocalRunner {
+  run: (code: string, testCode: string) => Promise<TestResult[]>;
+  dispose: () => void;
+}
+
+// What the runner page bundles (src/runner/main.ts); the worker has only React
+const OFFLINE_PACKAGES = new Set([
+  'react',
+  'react/jsx-runtime',
+  'react-dom',
+  'react-dom/client',
+  '@testing-library/dom',
+  '@testing-library/react',
+]);
+
+// Type-only imports are erased when compiling, so they don't need a package
+const IMPORT_SPECIFIER = /\bimport\s+(?!type\s)(?:[^'"]*?\sfrom\s+)?['"]([^'"]+)['"]|\brequire\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+/** Packages the sources import that the offline runner can't provide */
+export function unbundledPackages(...sources: string[]): string[] {
+  const specifiers = sources.flatMap((source) =>
+    [...source.matchAll(IMPORT_SPECIFIER)].map((match) => match[1] ?? match[2]!));
+  return [...new Set(specifiers.filter((s) => !s.startsWith('.') && !OFFLINE_PACKAGES.has(s)))];
+}
+
+/** Whether a suite renders or touches browser globals, so it can't run in a worker */
+export function needsDom(code: string, testCode: string): boolean {
+  return DOM_USAGE.test(testCode) || DOM_USAGE.test(code);
+}
+
+interface PendingJob {
+  timer: ReturnType<typeof setTimeout>;
+  settle: (results: TestResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+const stopped = () => new Error('The test runner has been stopped');
+
+/** Matches results to jobs, and fails a job that doesn't answer in time */
+function createJobTracker(timeoutMs: number, onTimeout: () => void) {
+  let nextId = 1;
+  let disposed = false;
+  const pending = new Map<number, PendingJob>();
+
+  const submit = (code: string, testCode: string, send: (job: RunnerJob) => void) => {
+    if (disposed) return Promise.reject(stopped());
+    const job: RunnerJob = { id: nextId++, code, testCode };
+    return new Promise<TestResult[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(job.id);
+        onTimeout();
+        resolve([suiteFailure(`No result after ${timeoutMs / 1000}s. Is there an infinite loop?`)]);
+      }, timeoutMs);
+      pending.set(job.id, {
+        timer,
+        settle: (results) => {
+          clearTimeout(timer);
+          pending.delete(job.id);
+          resolve(results);
+        },
+        reject,
+      });
+      send(job);
+    });
+  };
+
+  const settle = (message: RunnerMessage) => {
+    if (message.type === 'results') pending.get(message.id)?.settle(message.results);
+  };
+
+  /** Rejects every job still waiting and refuses new ones */
+  const dispose = () => {
+    disposed = true;
+    pending.forEach(({ timer, reject }) => {
+      clearTimeout(timer);
+      reject(stopped());
+    });
+    pending.clear();
+  };
+
+  return { submit, settle, dispose };
+}
+
+/**
+ * Runs suites in a hidden page built into the app, which has a real DOM for
+ * component tests. The page is reused between runs and replaced when a run
+ * doesn't answer in time.
+ */
+function createPageRunner(timeoutMs: number): LocalRunner {
+  let frame: HTMLIFrameElement | null = null;
+  let ready: Promise<void> = Promise.resolve();
+  let markReady = () => {};
+
+  const stop = () => {
+    frame?.remove();
+    frame = null;
+  };
+  const jobs = createJobTracker(timeoutMs, stop);
+
+  const handleMessage = (event: MessageEvent<RunnerMessage>) => {
+    if (!frame || event.source !== frame.contentWindow) return;
+    if (event.data.type === 'ready') markReady();
+    jobs.settle(event.data);
+  };
+  window.addEventListener('message', handleMessage);
+
+  const start = () => {
+    ready = new Promise((resolve) => {
+      markReady = resolve;
+    });
+    frame = document.createElement('iframe');
+    frame.src = RUNNER_URL;
+    frame.title = 'Offline test runner';
+    frame.hidden = true;
+    document.body.appendChild(frame);
+  };
+
+  const run = (code: string, testCode: string) => {
+    if (!frame) start();
+    const target = frame;
+    return jobs.submit(code, testCode, (job) => {
+      ready.then(() => target?.contentWindow?.postMessage(job, location.origin));
+    });
+  };
+
+  const dispose = () => {
+    window.removeEventListener('message', handleMessage);
+    jobs.dispose();
+    stop();
+  };
+
+  return { run, dispose };
+}
+
+/** Runs DOM-free suites in a Web Worker, terminated when a run doesn't answer in time */
+function createWorkerRunner(timeoutMs: number): LocalRunner {
+  let worker: Worker | null = null;
+
+  const stop = () => {
+    worker?.terminate();
+    worker = null;
+  };
+  const jobs = createJobTracker(timeoutMs, stop);
+
+  const run = (code: string, testCode: string) => {
+    if (!worker) {
+      worker = new Worker(new URL('../runner/worker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<RunnerMessage>) => jobs.settle(event.data));
+    }
+    const target = worker;
+    return jobs.submit(code, testCode, (job) => target.postMessage(job));
+  };
+
+  const dispose = () => {
+    jobs.dispose();
+    stop();
+  };
+
+  return { run, dispose };
+}
+
+/**
+ * Runs `testCode` against the user's code without Sandpack's bundler or any
+ * fetched packages: in a worker when the suite is plain logic, else in the
+ * hidden runner page. Each is started on first use.
+ */
+export function createLocalRunner(timeoutMs = 30_000): LocalRunner {
+  let page: LocalRunner | null = null;
+  let worker: LocalRunner | null = null;
+
+  const run = (code: string, testCode: string) => {
+    if (needsDom(code, testCode)) {
+      page ??= createPageRunner(timeoutMs);
+      return page.run(code, testCode);
+    }
+    worker ??= createWorkerRunner(timeoutMs);
+    return worker.run(code, testCode);
+  };
+
+  const dispose = () => {
+    page?.dispose();
+    worker?.dispose();
+  };
+
+  return { run, dispose };
+}
@@ -0,0 +1,32 @@
+const NOTE_PREFIX = 'ril-note-';
+
+export function loadNote(challengeId: number): string {
+  return localStorage.getItem(`${NOTE_PREFIX}${challengeId}`) ?? '';
+}
+
+export function saveNote(challengeId: number, text: string) {
+  if (text.trim()) {
+    localStorage.setItem(`${NOTE_PREFIX}${challengeId}`, text);
+  } else {
+    localStorage.removeItem(`${NOTE_PREFIX}${challengeId}`);
+  }
+}
+
+export function listNotes(): Record<number, string> {
+  const notes: Record<number, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(NOTE_PREFIX)) continue;
+    const id = Number(key.slice(NOTE_PREFIX.length));
+    if (Number.isInteger(id)) notes[id] = localStorage.getItem(key) ?? '';
+  }
+  return notes;
+}
+
+export function writeNotes(notes: Record<number, string>) {
+  Object.entries(notes).forEach(([id, text]) => saveNote(Number(id), text));
+}
+
+export function clearAllNotes() {
+  Object.keys(listNotes()).forEach((id) => localStorage.removeItem(`${NOTE_PREFIX}${id}`));
+}
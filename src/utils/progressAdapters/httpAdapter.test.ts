@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHttpAdapter, hasPendingSync } from './httpAdapter';
+import { completeChallenge, EMPTY_PROGRESS } from '../progressData';
+import { createEnvelope, readStoredProgress, saveProgress, type ProgressEnvelope } from '../progressStorage';
+
+interface FakeServer {
+  revision: number;
+  envelope: ProgressEnvelope | null;
+  online: boolean;
+}
+
+/** Mirrors server/sync-server.mjs closely enough to exercise the client protocol */
+function stubServer(server: FakeServer) {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    if (!server.online) throw new TypeError('Failed to fetch');
+    const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+    if (!init?.method) return json(200, { revision: server.revision, envelope: server.envelope });
+
+    const body = JSON.parse(init.body as string) as { baseRevision: number | null; force: boolean; envelope: ProgressEnvelope };
+    if (!body.force && body.baseRevision !== server.revision) {
+      return json(409, { revision: server.revision, envelope: server.envelope });
+    }
+    server.revision += 1;
+    server.envelope = body.envelope;
+    return json(200, { revision: server.revision });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const serverIds = (server: FakeServer) => (server.envelope?.data as { completedIds: number[] } | undefined)?.completedIds;
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createHttpAdapter', () => {
+  let server: FakeServer;
+
+  beforeEach(() => {
+    localStorage.clear();
+    server = { revision: 0, envelope: null, online: true };
+    stubServer(server);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const adapter = () => createHttpAdapter({ serverUrl: 'http://sync.test/', profile: 'me', retryMs: 60_000 });
+
+  it('writes locally straight away and pushes to the server', async () => {
+    const result = adapter().update(EMPTY_PROGRESS, (d) => completeChallenge(d, 1, 90));
+
+    expect(result).toEqual(expect.objectContaining({ completedIds: [1] }));
+    expect(readStoredProgress()?.completedIds).toEqual([1]);
+    await settle();
+    expect(serverIds(server)).toEqual([1]);
+    expect(hasPendingSync()).toBe(false);
+  });
+
+  it('hydrates by merging server progress with the local cache and uploads the union', async () => {
+    saveProgress(completeChallenge(EMPTY_PROGRESS, 1));
+    server.revision = 4;
+    server.envelope = createEnvelope(completeChallenge(EMPTY_PROGRESS, 2));
+
+    const hydrated = await adapter().hydrate!();
+    expect(hydrated?.completedIds.sort()).toEqual([1, 2]);
+    await settle();
+    expect(serverIds(server)?.sort()).toEqual([1, 2]);
+    expect(server.revision).toBe(5);
+  });
+
+  it('queues writes while offline and flushes them when back online', async () => {
+    server.online = false;
+    const a = adapter();
+    const unsubscribe = a.subscribe(() => {});
+
+    a.update(EMPTY_PROGRESS, (d) => completeChallenge(d, 3));
+    await settle();
+    expect(hasPendingSync()).toBe(true);
+    expect(server.envelope).toBeNull();
+
+    server.online = true;
+    window.dispatchEvent(new Event('online'));
+    await settle();
+    await settle();
+    expect(serverIds(server)).toEqual([3]);
+    expect(hasPendingSync()).toBe(false);
+    unsubscribe();
+  });
+
+  it('merges and retries when another device wrote first', async () => {
+    const a = adapter();
+    const changes: unknown[] = [];
+    const unsubscribe = a.subscribe((d) => changes.push(d));
+    await a.hydrate!();
+
+    // Another device pushes after our last pull
+    server.revision += 1;
+    server.envelope = createEnvelope(completeChallenge(EMPTY_PROGRESS, 7));
+
+    a.update(EMPTY_PROGRESS, (d) => completeChallenge(d, 8));
+    await settle();
+    await settle();
+
+    expect(serverIds(server)?.sort()).toEqual([7, 8]);
+    expect(readStoredProgress()?.completedIds.sort()).toEqual([7, 8]);
+    expect(changes).toHaveLength(1);
+    unsubscribe();
+  });
+
+  it('pushes a reset as an overwrite so the server does not merge it away', async () => {
+    server.revision = 2;
+    server.envelope = createEnvelope(completeChallenge(EMPTY_PROGRESS, 5));
+
+    adapter().clear();
+    await settle();
+    expect(serverIds(server)).toEqual([]);
+  });
+
+  it('reports failed syncs to subscribers', async () => {
+    server.online = false;
+    const a = adapter();
+    const errors: unknown[] = [];
+    const unsubscribe = a.subscribe(() => {}, (err) => errors.push(err));
+
+    a.update(EMPTY_PROGRESS, (d) => completeChallenge(d, 3));
+    await settle();
+    expect(errors).toEqual([new TypeError('Failed to fetch')]);
+    unsubscribe();
+  });
+
+  it('reports the server reason when it refuses a write', async () => {
+    const a = adapter();
+    await a.hydrate!();
+    vi.stubGlobal('fetch', vi.fn(async () =>
+      new Response(JSON.stringify({ error: 'Progress is larger than 5 MB' }), { status: 413 })));
+    const errors: unknown[] = [];
+    const unsubscribe = a.subscribe(() => {}, (err) => errors.push(err));
+
+    a.update(EMPTY_PROGRESS, (d) => completeChallenge(d, 3));
+    await settle();
+    expect(errors).toEqual([new Error('Sync server responded 413: Progress is larger than 5 MB')]);
+    expect(hasPendingSync()).toBe(true);
+    unsubscribe();
+  });
+
+  it('ignores malformed change events from the server', async () => {
+    let onMessage: ((e: MessageEvent<string>) => void) | undefined;
+    vi.stubGlobal('EventSource', class {
+      addEventListener(_type: string, listener: (e: MessageEvent<string>) => void) {
+        onMessage = listener;
+      }
+      close() {}
+    });
+    const changes: unknown[] = [];
+    const unsubscribe = adapter().subscribe((d) => changes.push(d));
+
+    onMessage?.(new MessageEvent('message', { data: '{not json' }));
+    onMessage?.(new MessageEvent('message', { data: '{"revision":"3"}' }));
+    expect(changes).toEqual([]);
+
+    const envelope = createEnvelope(completeChallenge(EMPTY_PROGRESS, 6));
+    onMessage?.(new MessageEvent('message', { data: JSON.stringify({ revision: 3, replaced: false, envelope }) }));
+    expect(changes).toEqual([expect.objectContaining({ completedIds: [6] })]);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,201 @@
+import { EMPTY_PROGRESS } from '../progressData';
+import { createEnvelope, openEnvelope, readStoredProgress, type ProgressEnvelope } from '../progressStorage';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import type { ProgressAdapter } from './types';
+import type { ProgressData } from '@/types/progress';
+
+/** `merge` pushes are revision-checked; `replace` pushes (import, reset) overwrite the server */
+type PushMode = 'merge' | 'replace';
+
+const PENDING_KEY = 'ril-sync-pending';
+const DEFAULT_RETRY_MS = 30_000;
+
+export interface HttpAdapterOptions {
+  serverUrl: string;
+  profile: string;
+  retryMs?: number;
+}
+
+interface RemoteProgress {
+  revision: number;
+  envelope: ProgressEnvelope | null;
+}
+
+interface RemoteChange extends RemoteProgress {
+  replaced: boolean;
+}
+
+export function progressEndpoint(serverUrl: string, profile: string): string {
+  return `${serverUrl.replace(/\/+$/, '')}/progress/${encodeURIComponent(profile)}`;
+}
+
+/** True while local changes are waiting for the sync server to come back */
+export function hasPendingSync(): boolean {
+  return localStorage.getItem(PENDING_KEY) !== null;
+}
+
+function markPending(mode: PushMode) {
+  // A queued overwrite must stay an overwrite even if merges pile up behind it
+  if (mode === 'replace' || localStorage.getItem(PENDING_KEY) !== 'replace') {
+    localStorage.setItem(PENDING_KEY, mode);
+  }
+}
+
+const same = (a: ProgressData, b: ProgressData) => JSON.stringify(a) === JSON.stringify(b);
+
+function parseRemoteChange(text: string): RemoteChange | null {
+  try {
+    const change = JSON.parse(text) as Partial<RemoteChange> | null;
+    const valid = typeof change?.revision === 'number'
+      && typeof change.replaced === 'boolean'
+      && typeof change.envelope === 'object';
+    return valid ? (change as RemoteChange) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Offline-first: every write lands in localStorage synchronously, then is
+ * pushed to the sync server. Pushes carry the last revision seen; if another
+ * device got there first the server answers 409 with its copy, which is
+ * merged locally and pushed again. Unreachable servers leave the push queued
+ * until the browser comes back online.
+ */
+export function createHttpAdapter({ serverUrl, profile, retryMs = DEFAULT_RETRY_MS }: HttpAdapterOptions): ProgressAdapter {
+  const local = createLocalStorageAdapter();
+  const endpoint = progressEndpoint(serverUrl, profile);
+  const listeners = new Set<(data: ProgressData | null) => void>();
+  const errorListeners = new Set<(err: unknown) => void>();
+  let revision: number | null = null;
+  let flushing = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const notify = (data: ProgressData | null) => listeners.forEach((l) => l(data));
+  const cached = () => readStoredProgress() ?? EMPTY_PROGRESS;
+  const mergeIntoCache = (remote: ProgressData) => local.update(remote, (merged) => merged) as ProgressData;
+
+  const scheduleRetry = () => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => void flush(), retryMs);
+  };
+
+  async function pull(): Promise<ProgressData | null> {
+    const res = await fetch(endpoint);
+    if (!res.ok) throw new Error(`Sync server responded ${res.status}`);
+    const body = (await res.json()) as RemoteProgress;
+    revision = body.revision;
+    // A queued overwrite (reset, import) supersedes whatever the server holds
+    if (localStorage.getItem(PENDING_KEY) === 'replace') return null;
+    const remote = openEnvelope(body.envelope);
+    if (!remote) {
+      if (!same(cached(), EMPTY_PROGRESS)) markPending('merge');
+      return null;
+    }
+    const merged = mergeIntoCache(remote);
+    if (!same(merged, remote)) markPending('merge');
+    return merged;
+  }
+
+  async function push(mode: PushMode) {
+    const res = await fetch(endpoint, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ baseRevision: revision, force: mode === 'replace', envelope: createEnvelope(cached()) }),
+    });
+    const body = (await res.json()) as RemoteProgress & { error?: string };
+    // Error replies carry a reason rather than a revision, e.g. 413 for progress over the size limit
+    if (!res.ok && res.status !== 409) {
+      throw new Error(`Sync server responded ${res.status}${body.error ? `: ${body.error}` : ''}`);
+    }
+    revision = body.revision;
+    if (res.status === 409) {
+      const remote = openEnvelope(body.envelope);
+      if (remote) notify(mergeIntoCache(remote));
+      markPending('merge');
+    }
+  }
+
+  async function flush() {
+    if (flushing) return;
+    flushing = true;
+    let mode: PushMode | null = null;
+    try {
+      if (revision === null) {
+        const merged = await pull();
+        if (merged) notify(merged);
+      }
+      while ((mode = localStorage.getItem(PENDING_KEY) as PushMode | null)) {
+        // Cleared before sending so writes made mid-request queue another push
+        localStorage.removeItem(PENDING_KEY);
+        await push(mode);
+      }
+    } catch (err) {
+      if (mode) markPending(mode);
+      errorListeners.forEach((l) => l(err));
+      scheduleRetry();
+    } finally {
+      flushing = false;
+    }
+  }
+
+  const queue = (mode: PushMode) => {
+    markPending(mode);
+    void flush();
+  };
+
+  const handleRemoteChange = (e: MessageEvent<string>) => {
+    const change = parseRemoteChange(e.data);
+    if (!change || (revision !== null && change.revision <= revision)) return;
+    revision = change.revision;
+    const remote = openEnvelope(change.envelope);
+    if (change.replaced || !remote) {
+      local.replace(remote ?? EMPTY_PROGRESS);
+      notify(remote);
+    } else {
+      notify(mergeIntoCache(remote));
+    }
+  };
+
+  return {
+    loadInitial: local.loadInitial,
+    // An unreachable server rejects here; the local cache stays in use and flush keeps retrying
+    hydrate: async () => {
+      try {
+        return await pull();
+      } finally {
+        void flush();
+      }
+    },
+    update: (data, apply) => {
+      const next = local.update(data, apply);
+      queue('merge');
+      return next;
+    },
+    replace: (data) => {
+      local.replace(data);
+      queue('replace');
+    },
+    clear: () => {
+      local.clear();
+      queue('replace');
+    },
+    subscribe: (onChange, onError) => {
+      listeners.add(onChange);
+      if (onError) errorListeners.add(onError);
+      const unsubscribeLocal = local.subscribe(onChange);
+      const handleOnline = () => void flush();
+      window.addEventListener('online', handleOnline);
+      const events = typeof EventSource === 'undefined' ? null : new EventSource(`${endpoint}/events`);
+      events?.addEventListener('message', handleRemoteChange);
+      return () => {
+        listeners.delete(onChange);
+        if (onError) errorListeners.delete(onError);
+        unsubscribeLocal();
+        window.removeEventListener('online', handleOnline);
+        events?.close();
+        clearTimeout(retryTimer);
+      };
+    },
+  };
+}
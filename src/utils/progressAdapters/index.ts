@@ -0,0 +1,29 @@
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createHttpAdapter } from './httpAdapter';
+import type { ProgressAdapter } from './types';
+
+export type { ProgressAdapter } from './types';
+export { hasPendingSync } from './httpAdapter';
+
+export type ProgressBackend = 'local' | 'indexeddb' | 'http';
+
+export interface BackendConfig {
+  progressBackend: ProgressBackend;
+  syncServerUrl: string;
+  syncProfile: string;
+}
+
+export function createProgressAdapter(config: BackendConfig): ProgressAdapter {
+  switch (config.progressBackend) {
+    case 'indexeddb':
+      if (typeof indexedDB !== 'undefined') return createIndexedDbAdapter();
+      break;
+    case 'http':
+      if (config.syncServerUrl) {
+        return createHttpAdapter({ serverUrl: config.syncServerUrl, profile: config.syncProfile || 'default' });
+      }
+      break;
+  }
+  return createLocalStorageAdapter();
+}
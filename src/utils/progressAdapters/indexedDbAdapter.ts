@@ -0,0 +1,73 @@
+import { mergeProgress } from '../progressData';
+import { createEnvelope, openEnvelope } from '../progressStorage';
+import type { ProgressAdapter } from './types';
+import type { ProgressData } from '@/types/progress';
+
+const DB_NAME = 'react-interview-lab';
+const STORE_NAME = 'progress';
+const RECORD_KEY = 'progress';
+// IndexedDB has no cross-tab change event, so writers announce themselves
+const CHANNEL_NAME = 'ril-progress-idb';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  return promisify(request);
+}
+
+export function createIndexedDbAdapter(): ProgressAdapter {
+  let db: Promise<IDBDatabase> | null = null;
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+  /** Runs `fn` in one readwrite transaction so read-merge-write can't interleave with another tab */
+  const transact = async <T>(fn: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    db ??= openDatabase();
+    const tx = (await db).transaction(STORE_NAME, 'readwrite');
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx.objectStore(STORE_NAME));
+    await done;
+    return result;
+  };
+
+  const write = async (data: ProgressData | null) => {
+    await transact(async (store) => {
+      if (data) await promisify(store.put(createEnvelope(data), RECORD_KEY));
+      else await promisify(store.delete(RECORD_KEY));
+    });
+    channel?.postMessage(data);
+  };
+
+  return {
+    loadInitial: () => null,
+    hydrate: () => transact((store) => promisify(store.get(RECORD_KEY))).then(openEnvelope),
+    update: async (local, apply) => {
+      const next = await transact(async (store) => {
+        const latest = openEnvelope(await promisify(store.get(RECORD_KEY)));
+        const merged = apply(latest ? mergeProgress(latest, local) : local);
+        await promisify(store.put(createEnvelope(merged), RECORD_KEY));
+        return merged;
+      });
+      channel?.postMessage(next);
+      return next;
+    },
+    replace: (data) => write(data),
+    clear: () => write(null),
+    subscribe: (onChange) => {
+      if (!channel) return () => {};
+      const handleMessage = (e: MessageEvent<ProgressData | null>) => onChange(e.data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { mergeProgress } from '../progressData';
+import {
+  loadProgress,
+  saveProgress,
+  clearProgress,
+  readStoredProgress,
+  parseStoredProgress,
+  PROGRESS_KEY,
+} from '../progressStorage';
+import type { ProgressAdapter } from './types';
+
+export function createLocalStorageAdapter(): ProgressAdapter {
+  return {
+    loadInitial: loadProgress,
+    // Another tab may have written since we last read — fold its changes in
+    // before applying ours so neither tab clobbers the other
+    update: (local, apply) => {
+      const latest = readStoredProgress();
+      const next = apply(latest ? mergeProgress(latest, local) : local);
+      saveProgress(next);
+      return next;
+    },
+    replace: saveProgress,
+    clear: clearProgress,
+    subscribe: (onChange) => {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key !== PROGRESS_KEY && e.key !== null) return;
+        if (e.newValue === null) {
+          onChange(null);
+          return;
+        }
+        const incoming = parseStoredProgress(e.newValue);
+        if (incoming) onChange(incoming);
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import type { ProgressData } from '@/types/progress';
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface ProgressAdapter {
+  /** Synchronous read for the first render; async-only backends return null */
+  loadInitial: () => ProgressData | null;
+  /** Async read from the backend, merged over the initial state once it arrives */
+  hydrate?: () => Promise<ProgressData | null>;
+  /**
+   * Folds `local` into the freshest backend data, applies the change on top and
+   * persists it; resolves to what was written
+   */
+  update: (local: ProgressData, apply: (prev: ProgressData) => ProgressData) => MaybePromise<ProgressData>;
+  /** Overwrites the backend with exactly `data` (import, undo reset) */
+  replace: (data: ProgressData) => MaybePromise<void>;
+  clear: () => MaybePromise<void>;
+  /**
+   * Changes made elsewhere (other tabs, other devices); null means cleared.
+   * `onError` hears about failures in background work such as sync retries
+   */
+  subscribe: (onChange: (data: ProgressData | null) => void, onError?: (err: unknown) => void) => () => void;
+}
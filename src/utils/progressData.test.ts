@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { completeChallenge, addAttempt, mergeProgress, isProgressData, EMPTY_PROGRESS } from './progressData';
+import { createAttempt } from './attempts';
+
+describe('progressData', () => {
+  it('completeChallenge does not duplicate ids and keeps the best time', () => {
+    let data = completeChallenge(EMPTY_PROGRESS, 1, 300);
+    data = completeChallenge(data, 1, 400);
+    expect(data.completedIds).toEqual([1]);
+    expect(data.completionTimes[1]).toBe(300);
+  });
+
+  it('addAttempt completes the challenge for completed attempts only', () => {
+    const inProgress = addAttempt(EMPTY_PROGRESS, createAttempt(2));
+    expect(inProgress.completedIds).toEqual([]);
+
+    const done = addAttempt(inProgress, { ...createAttempt(2), status: 'completed', elapsedSeconds: 80 });
+    expect(done.completedIds).toEqual([2]);
+    expect(done.attempts[2]).toHaveLength(2);
+  });
+
+  describe('mergeProgress', () => {
+    it('unions completions and keeps the best time', () => {
+      const a = { completedIds: [1, 2], completionTimes: { 1: 100, 2: 50 }, attempts: {} };
+      const b = { completedIds: [2, 3], completionTimes: { 2: 40, 3: 70 }, attempts: {} };
+
+      expect(mergeProgress(a, b)).toEqual({
+        completedIds: [1, 2, 3],
+        completionTimes: { 1: 100, 2: 40, 3: 70 },
+        attempts: {},
+      });
+    });
+
+    it('unions attempts by id, preferring the further-along copy', () => {
+      const shared = createAttempt(1, 1000);
+      const a = { ...EMPTY_PROGRESS, attempts: { 1: [shared] } };
+      const b = {
+        ...EMPTY_PROGRESS,
+        attempts: { 1: [{ ...shared, status: 'completed' as const, elapsedSeconds: 90 }, createAttempt(1, 500)] },
+      };
+
+      const merged = mergeProgress(a, b).attempts[1]!;
+      expect(merged).toHaveLength(2);
+      expect(merged[0]!.startedAt).toBe(500);
+      expect(merged[1]).toMatchObject({ id: shared.id, status: 'completed' });
+    });
+
+    it('keeps the newer self-assessment when merging the same attempt', () => {
+      const done = { ...createAttempt(1, 1000), status: 'completed' as const, elapsedSeconds: 90 };
+      const assessed = { ...done, assessment: { levels: { 'req-1': 2 }, score: 100, assessedAt: 5000 } };
+      const reassessed = { ...done, assessment: { levels: { 'req-1': 1 }, score: 50, assessedAt: 6000 } };
+
+      expect(mergeProgress({ ...EMPTY_PROGRESS, attempts: { 1: [assessed] } }, { ...EMPTY_PROGRESS, attempts: { 1: [done] } })
+        .attempts[1]![0]!.assessment?.score).toBe(100);
+      expect(mergeProgress({ ...EMPTY_PROGRESS, attempts: { 1: [reassessed] } }, { ...EMPTY_PROGRESS, attempts: { 1: [assessed] } })
+        .attempts[1]![0]!.assessment?.score).toBe(50);
+    });
+  });
+
+  describe('isProgressData', () => {
+    it('accepts well-formed data', () => {
+      expect(isProgressData(EMPTY_PROGRESS)).toBe(true);
+      expect(isProgressData({ completedIds: [1], completionTimes: { 1: 20 }, attempts: { 1: [createAttempt(1)] } }))
+        .toBe(true);
+    });
+
+    it('rejects malformed data', () => {
+      expect(isProgressData(null)).toBe(false);
+      expect(isProgressData({ completedIds: ['1'], completionTimes: {}, attempts: {} })).toBe(false);
+      expect(isProgressData({ completedIds: [], completionTimes: { abc: 1 }, attempts: {} })).toBe(false);
+      expect(isProgressData({ completedIds: [], completionTimes: { 1: -5 }, attempts: {} })).toBe(false);
+      expect(isProgressData({ completedIds: [], completionTimes: {}, attempts: { 1: [{ id: 'x' }] } })).toBe(false);
+      const badCountdown = { ...createAttempt(1), countdown: { durationSeconds: '600' } };
+      expect(isProgressData({ completedIds: [], completionTimes: {}, attempts: { 1: [badCountdown] } })).toBe(false);
+      const badAssessment = { ...createAttempt(1), assessment: { levels: { a: 'x' }, score: 50, assessedAt: 1 } };
+      expect(isProgressData({ completedIds: [], completionTimes: {}, attempts: { 1: [badAssessment] } })).toBe(false);
+    });
+  });
+});
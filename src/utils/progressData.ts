@@ -0,0 +1,133 @@
+import { upsertAttempt } from './attempts';
+import type { Attempt, ProgressData } from '@/types/progress';
+
+export const EMPTY_PROGRESS: ProgressData = {
+  completedIds: [],
+  completionTimes: {},
+  attempts: {},
+};
+
+export function completeChallenge(data: ProgressData, id: number, seconds?: number): ProgressData {
+  const completedIds = data.completedIds.includes(id) ? data.completedIds : [...data.completedIds, id];
+  if (seconds === undefined) return { ...data, completedIds };
+
+  // Keep the best time rather than whichever attempt finished last
+  const previous = data.completionTimes[id];
+  const best = previous === undefined ? seconds : Math.min(previous, seconds);
+  return { ...data, completedIds, completionTimes: { ...data.completionTimes, [id]: best } };
+}
+
+export function addAttempt(data: ProgressData, attempt: Attempt): ProgressData {
+  const next = {
+    ...data,
+    attempts: { ...data.attempts, [attempt.challengeId]: upsertAttempt(data.attempts[attempt.challengeId] ?? [], attempt) },
+  };
+  return attempt.status === 'completed'
+    ? completeChallenge(next, attempt.challengeId, attempt.elapsedSeconds)
+    : next;
+}
+
+const STATUS_RANK: Record<Attempt['status'], number> = { 'in-progress': 0, abandoned: 1, completed: 2 };
+
+function furtherAlong(a: Attempt, b: Attempt): Attempt {
+  const rank = STATUS_RANK[b.status] - STATUS_RANK[a.status];
+  if (rank !== 0) return rank > 0 ? b : a;
+  return b.elapsedSeconds > a.elapsedSeconds ? b : a;
+}
+
+// When the same attempt exists on both sides, the further-along copy wins;
+// a self-assessment is added after completion, so the newer one is kept
+function pickAttempt(a: Attempt, b: Attempt): Attempt {
+  const winner = furtherAlong(a, b);
+  const assessment = (b.assessment?.assessedAt ?? 0) > (a.assessment?.assessedAt ?? 0) ? b.assessment : a.assessment;
+  return assessment === winner.assessment ? winner : { ...winner, assessment };
+}
+
+function mergeAttempts(a: Attempt[], b: Attempt[]): Attempt[] {
+  const byId = new Map(a.map((attempt) => [attempt.id, attempt]));
+  b.forEach((attempt) => {
+    const existing = byId.get(attempt.id);
+    byId.set(attempt.id, existing ? pickAttempt(existing, attempt) : attempt);
+  });
+  return [...byId.values()].sort((x, y) => x.startedAt - y.startedAt);
+}
+
+/** Union of completions and attempts, keeping the best time for each challenge */
+export function mergeProgress(a: ProgressData, b: ProgressData): ProgressData {
+  const completedIds = [...new Set([...a.completedIds, ...b.completedIds])];
+
+  const completionTimes = { ...a.completionTimes };
+  Object.entries(b.completionTimes).forEach(([id, seconds]) => {
+    const key = Number(id);
+    const existing = completionTimes[key];
+    completionTimes[key] = existing === undefined ? seconds : Math.min(existing, seconds);
+  });
+
+  const attempts: Record<number, Attempt[]> = { ...a.attempts };
+  Object.entries(b.attempts).forEach(([id, list]) => {
+    const key = Number(id);
+    attempts[key] = mergeAttempts(attempts[key] ?? [], list);
+  });
+
+  return { completedIds, completionTimes, attempts };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isId = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const isSeconds = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isIdKey = (key: string) => isId(Number(key));
+
+function isTestRun(value: unknown): boolean {
+  return isObject(value)
+    && typeof value.ranAt === 'number'
+    && isSeconds(value.passed)
+    && isSeconds(value.total)
+    && Array.isArray(value.results);
+}
+
+function isCountdown(value: unknown): boolean {
+  return isObject(value) && isSeconds(value.durationSeconds) && isSeconds(value.overrunSeconds);
+}
+
+function isAssessment(value: unknown): boolean {
+  return isObject(value)
+    && isObject(value.levels) && Object.values(value.levels).every(isSeconds)
+    && isSeconds(value.score)
+    && typeof value.assessedAt === 'number';
+}
+
+export function isAttempt(value: unknown): value is Attempt {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && isId(value.challengeId)
+    && typeof value.startedAt === 'number'
+    && (value.endedAt === undefined || typeof value.endedAt === 'number')
+    && isSeconds(value.elapsedSeconds)
+    && typeof value.hintsRevealed === 'boolean'
+    && (value.hintReveals === undefined || (Array.isArray(value.hintReveals) && value.hintReveals.every(isSeconds)))
+    && typeof value.solutionRevealed === 'boolean'
+    && (value.solutionRevealedAt === undefined || isSeconds(value.solutionRevealedAt))
+    && isSeconds(value.testsPassed)
+    && isSeconds(value.testsTotal)
+    && Array.isArray(value.testRuns) && value.testRuns.every(isTestRun)
+    && (value.countdown === undefined || isCountdown(value.countdown))
+    && (value.checkedRequirements === undefined
+      || (Array.isArray(value.checkedRequirements) && value.checkedRequirements.every(isSeconds)))
+    && (value.assessment === undefined || isAssessment(value.assessment))
+    && (value.status === 'in-progress' || value.status === 'completed' || value.status === 'abandoned');
+}
+
+export function isProgressData(value: unknown): value is ProgressData {
+  if (!isObject(value)) return false;
+  const { completedIds, completionTimes, attempts } = value;
+  return Array.isArray(completedIds) && completedIds.every(isId)
+    && isObject(completionTimes)
+    && Object.entries(completionTimes).every(([k, v]) => isIdKey(k) && isSeconds(v))
+    && isObject(attempts)
+    && Object.entries(attempts).every(([k, v]) => isIdKey(k) && Array.isArray(v) && v.every(isAttempt));
+}
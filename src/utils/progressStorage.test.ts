@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  loadProgress,
+  saveProgress,
+  loadQuarantine,
+  acknowledgeQuarantine,
+  migrate,
+  PROGRESS_KEY,
+  PROGRESS_VERSION,
+} from './progressStorage';
+import { EMPTY_PROGRESS } from './progressData';
+import { createAttempt } from './attempts';
+
+describe('progressStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns empty progress when nothing is stored', () => {
+    expect(loadProgress()).toEqual(EMPTY_PROGRESS);
+    expect(loadQuarantine()).toBeNull();
+  });
+
+  it('round-trips through a versioned envelope', () => {
+    const data = { completedIds: [3], completionTimes: { 3: 60 }, attempts: { 3: [createAttempt(3)] } };
+    saveProgress(data);
+
+    expect(JSON.parse(localStorage.getItem(PROGRESS_KEY)!).version).toBe(PROGRESS_VERSION);
+    expect(loadProgress()).toEqual(data);
+  });
+
+  it('migrates the legacy ril-* keys and removes them', () => {
+    localStorage.setItem('ril-completed', JSON.stringify([1, 2]));
+    localStorage.setItem('ril-times', JSON.stringify({ 1: 45 }));
+
+    expect(loadProgress()).toEqual({ completedIds: [1, 2], completionTimes: { 1: 45 }, attempts: {} });
+    expect(localStorage.getItem('ril-completed')).toBeNull();
+    expect(localStorage.getItem('ril-times')).toBeNull();
+    expect(JSON.parse(localStorage.getItem(PROGRESS_KEY)!).version).toBe(PROGRESS_VERSION);
+  });
+
+  it('migrate is a no-op for the current version', () => {
+    const data = { completedIds: [], completionTimes: {}, attempts: {} };
+    expect(migrate(PROGRESS_VERSION, data)).toBe(data);
+  });
+
+  it('quarantines unparseable JSON', () => {
+    localStorage.setItem(PROGRESS_KEY, '{oops');
+
+    expect(loadProgress()).toEqual(EMPTY_PROGRESS);
+    expect(localStorage.getItem(PROGRESS_KEY)).toBeNull();
+    expect(loadQuarantine()).toMatchObject({
+      raw: '{oops',
+      reason: 'Stored progress is not valid JSON',
+      acknowledged: false,
+    });
+  });
+
+  it('quarantines data that fails validation', () => {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify({ version: 1, data: { completedIds: 'nope' } }));
+
+    expect(loadProgress()).toEqual(EMPTY_PROGRESS);
+    expect(loadQuarantine()!.reason).toBe('Stored progress failed validation');
+  });
+
+  it('quarantines legacy keys with the wrong shape', () => {
+    localStorage.setItem('ril-times', JSON.stringify({ 1: 'fast' }));
+
+    expect(loadProgress()).toEqual(EMPTY_PROGRESS);
+    expect(loadQuarantine()!.raw).toContain('fast');
+    expect(localStorage.getItem('ril-times')).toBeNull();
+  });
+
+  it('refuses data written by a newer version', () => {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify({ version: PROGRESS_VERSION + 1, data: {} }));
+
+    expect(loadProgress()).toEqual(EMPTY_PROGRESS);
+    expect(loadQuarantine()!.reason).toMatch(/newer version/);
+  });
+
+  it('acknowledgeQuarantine keeps the raw data', () => {
+    localStorage.setItem(PROGRESS_KEY, '{oops');
+    loadProgress();
+    acknowledgeQuarantine();
+
+    expect(loadQuarantine()).toMatchObject({ raw: '{oops', acknowledged: true });
+  });
+});
@@ -0,0 +1,188 @@
+import { EMPTY_PROGRESS, isProgressData } from './progressData';
+import type { ProgressData } from '@/types/progress';
+
+export const PROGRESS_KEY = 'ril-progress';
+export const QUARANTINE_KEY = 'ril-progress-quarantine';
+export const PROGRESS_VERSION = 1;
+
+// Version 0 is the pre-envelope format spread across one key per field
+const LEGACY_KEYS = {
+  completed: 'ril-completed',
+  times: 'ril-times',
+  attempts: 'ril-attempts',
+} as const;
+
+export interface ProgressEnvelope {
+  version: number;
+  data: unknown;
+}
+
+export interface QuarantineRecord {
+  quarantinedAt: number;
+  reason: string;
+  raw: string;
+  acknowledged: boolean;
+}
+
+interface Migration {
+  to: number;
+  migrate: (data: unknown) => unknown;
+}
+
+function migrateLegacyKeys(data: unknown): unknown {
+  const { completed, times, attempts } = data as Record<keyof typeof LEGACY_KEYS, unknown>;
+  return {
+    completedIds: completed ?? [],
+    completionTimes: times ?? {},
+    attempts: attempts ?? {},
+  };
+}
+
+// Ordered by target version — each step receives the previous step's output
+const MIGRATIONS: Migration[] = [
+  { to: 1, migrate: migrateLegacyKeys },
+];
+
+export function migrate(version: number, data: unknown): unknown {
+  return MIGRATIONS
+    .filter((m) => m.to > version)
+    .reduce((current, m) => m.migrate(current), data);
+}
+
+interface StoredProgress {
+  raw: string;
+  parse: () => ProgressEnvelope;
+}
+
+function readStored(): StoredProgress | null {
+  const raw = localStorage.getItem(PROGRESS_KEY);
+  if (raw !== null) {
+    return { raw, parse: () => parseEnvelope(raw) };
+  }
+
+  const legacy = Object.entries(LEGACY_KEYS)
+    .map(([field, key]) => [field, localStorage.getItem(key)] as const)
+    .filter(([, value]) => value !== null);
+  if (legacy.length === 0) return null;
+
+  // Quarantine keeps the legacy values verbatim so nothing is lost if they fail to parse
+  return {
+    raw: JSON.stringify(Object.fromEntries(legacy)),
+    parse: () => ({ version: 0, data: parseLegacy(legacy) }),
+  };
+}
+
+function parseEnvelope(raw: string): ProgressEnvelope {
+  const parsed: unknown = JSON.parse(raw);
+  if (
+    typeof parsed !== 'object' || parsed === null
+    || typeof (parsed as ProgressEnvelope).version !== 'number'
+    || !('data' in parsed)
+  ) {
+    throw new Error('Unrecognised progress format');
+  }
+  return parsed as ProgressEnvelope;
+}
+
+function parseLegacy(entries: ReadonlyArray<readonly [string, string | null]>): Record<string, unknown> {
+  return Object.fromEntries(entries.map(([field, value]) => [field, JSON.parse(value!)]));
+}
+
+function removeLegacyKeys() {
+  Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+}
+
+function quarantine(raw: string, reason: string) {
+  const record: QuarantineRecord = { quarantinedAt: Date.now(), reason, raw, acknowledged: false };
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify(record));
+  localStorage.removeItem(PROGRESS_KEY);
+  removeLegacyKeys();
+}
+
+/**
+ * Reads, migrates and validates stored progress. Anything that can't be
+ * trusted is moved aside to the quarantine slot instead of crashing the app,
+ * and the user starts from empty progress.
+ */
+export function loadProgress(): ProgressData {
+  let raw = '';
+  try {
+    const stored = readStored();
+    if (!stored) return EMPTY_PROGRESS;
+    raw = stored.raw;
+
+    const { version, data } = stored.parse();
+    if (version > PROGRESS_VERSION) {
+      throw new Error(`Saved by a newer version of the app (v${version})`);
+    }
+    const migrated = migrate(version, data);
+    if (!isProgressData(migrated)) {
+      throw new Error('Stored progress failed validation');
+    }
+    if (version < PROGRESS_VERSION) {
+      saveProgress(migrated);
+      removeLegacyKeys();
+    }
+    return migrated;
+  } catch (err) {
+    quarantine(raw, err instanceof SyntaxError ? 'Stored progress is not valid JSON' : (err as Error).message);
+    return EMPTY_PROGRESS;
+  }
+}
+
+/**
+ * Side-effect-free read of a current-version value, for merging before writes
+ * and for values delivered by storage events. Returns null if it can't be trusted.
+ */
+export function parseStoredProgress(raw: string | null): ProgressData | null {
+  if (raw === null) return null;
+  try {
+    const { version, data } = parseEnvelope(raw);
+    return version === PROGRESS_VERSION && isProgressData(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readStoredProgress(): ProgressData | null {
+  return parseStoredProgress(localStorage.getItem(PROGRESS_KEY));
+}
+
+export function createEnvelope(data: ProgressData): ProgressEnvelope {
+  return { version: PROGRESS_VERSION, data };
+}
+
+/** Migrates and validates an envelope held by another backend; null if it can't be trusted */
+export function openEnvelope(value: unknown): ProgressData | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { version, data } = value as Partial<ProgressEnvelope>;
+  if (typeof version !== 'number' || version > PROGRESS_VERSION) return null;
+  const migrated = migrate(version, data);
+  return isProgressData(migrated) ? migrated : null;
+}
+
+export function saveProgress(data: ProgressData) {
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(createEnvelope(data)));
+}
+
+export function clearProgress() {
+  localStorage.removeItem(PROGRESS_KEY);
+  removeLegacyKeys();
+}
+
+export function loadQuarantine(): QuarantineRecord | null {
+  const stored = localStorage.getItem(QUARANTINE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as QuarantineRecord;
+  } catch {
+    return null;
+  }
+}
+
+export function acknowledgeQuarantine() {
+  const record = loadQuarantine();
+  if (record) {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify({ ...record, acknowledged: true }));
+  }
+}
@@ -0,0 +1,118 @@
+import { addAttempt, completeChallenge, mergeProgress, EMPTY_PROGRESS } from './progressData';
+import { loadQuarantine, acknowledgeQuarantine, type QuarantineRecord } from './progressStorage';
+import { createLocalStorageAdapter } from './progressAdapters/localStorageAdapter';
+import type { MaybePromise, ProgressAdapter } from './progressAdapters/types';
+import type { Attempt, ProgressData } from '@/types/progress';
+
+/** Unreadable progress that was set aside, or a backend that is failing to load or save */
+export type StorageIssue =
+  | ({ kind: 'quarantine' } & QuarantineRecord)
+  | { kind: 'backend'; message: string };
+
+export interface ProgressState {
+  data: ProgressData;
+  storageIssue: StorageIssue | null;
+}
+
+export interface ProgressStore {
+  getState: () => ProgressState;
+  subscribe: (listener: () => void) => () => void;
+  markComplete: (id: number, seconds?: number) => void;
+  recordAttempt: (attempt: Attempt) => void;
+  replaceProgress: (data: ProgressData) => void;
+  resetProgress: () => void;
+  dismissStorageIssue: () => void;
+  /** Hydrates from the backend and listens for outside writes; returns the disconnect function */
+  connect: () => () => void;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+export function createProgressStore(adapter: ProgressAdapter = createLocalStorageAdapter()): ProgressStore {
+  const data = adapter.loadInitial() ?? EMPTY_PROGRESS;
+  const quarantine = loadQuarantine();
+  let state: ProgressState = {
+    data,
+    storageIssue: quarantine && !quarantine.acknowledged ? { kind: 'quarantine', ...quarantine } : null,
+  };
+  const listeners = new Set<() => void>();
+  // Bumped by every overwrite, so backend results from before it are dropped
+  // instead of merging the old data back in
+  let generation = 0;
+
+  const setState = (patch: Partial<ProgressState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((l) => l());
+  };
+
+  // Set-aside data outranks a backend hiccup: its banner is where the backup is downloaded
+  const reportIssue = (context: string) => (err: unknown) => {
+    if (state.storageIssue?.kind === 'quarantine') return;
+    setState({ storageIssue: { kind: 'backend', message: `${context}: ${errorMessage(err)}` } });
+  };
+
+  const settle = <T>(result: MaybePromise<T>, onValue: (value: T) => void, failure = 'Saving progress failed') => {
+    const started = generation;
+    const onCurrent = (value: T) => {
+      if (started === generation) onValue(value);
+    };
+    if (result instanceof Promise) result.then(onCurrent, reportIssue(failure));
+    else onCurrent(result);
+  };
+
+  const overwrite = (data: ProgressData) => {
+    generation++;
+    setState({ data });
+  };
+
+  const update = (fn: (prev: ProgressData) => ProgressData) => {
+    const result = adapter.update(state.data, fn);
+    if (!(result instanceof Promise)) {
+      setState({ data: result });
+      return;
+    }
+    // Show the change straight away; the backend may resolve after later
+    // updates, so merge rather than overwrite when it does
+    setState({ data: fn(state.data) });
+    settle(result, (written) => setState({ data: mergeProgress(written, state.data) }));
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    markComplete: (id, seconds) => update((prev) => completeChallenge(prev, id, seconds)),
+    recordAttempt: (attempt) => update((prev) => addAttempt(prev, attempt)),
+    // Import and undo-reset are deliberate overwrites, so they skip the merge
+    replaceProgress: (next) => {
+      overwrite(next);
+      settle(adapter.replace(next), () => {});
+    },
+    resetProgress: () => {
+      overwrite(EMPTY_PROGRESS);
+      settle(adapter.clear(), () => {});
+    },
+    dismissStorageIssue: () => {
+      if (state.storageIssue?.kind === 'quarantine') acknowledgeQuarantine();
+      setState({ storageIssue: null });
+    },
+    connect: () => {
+      let active = true;
+      if (adapter.hydrate) {
+        settle(adapter.hydrate(), (stored) => {
+          if (active && stored) setState({ data: mergeProgress(stored, state.data) });
+        }, 'Loading progress failed');
+      }
+      const unsubscribe = adapter.subscribe(
+        (incoming) => overwrite(incoming ?? EMPTY_PROGRESS),
+        reportIssue('Progress sync failed'),
+      );
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+  };
+}
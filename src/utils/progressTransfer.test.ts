@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  serializeSnapshot,
+  parseExport,
+  previewImport,
+  combineSnapshots,
+  writeSnapshotExtras,
+  readLocalSnapshot,
+  type LabSnapshot,
+} from './progressTransfer';
+import { createAttempt } from './attempts';
+import { EMPTY_PROGRESS } from './progressData';
+import { saveDraft, loadDraft } from './drafts';
+import { saveNote, loadNote } from './notes';
+import { createSession, loadTimerSession, saveTimerSession } from './timerSession';
+import { loadLiveAttempt } from './sittings';
+
+const local: LabSnapshot = {
+  progress: { completedIds: [1, 2], completionTimes: { 1: 300, 2: 100 }, attempts: { 1: [createAttempt(1, 1)] } },
+  drafts: { '1-starter': { code: 'local', savedAt: 10 } },
+  notes: { 1: 'my note' },
+  sittings: { 1: { timer: createSession(100), attempt: createAttempt(1, 90), checked: [0] } },
+};
+
+const remote: LabSnapshot = {
+  progress: { completedIds: [1, 3], completionTimes: { 1: 200, 3: 90 }, attempts: { 3: [createAttempt(3, 2)] } },
+  drafts: { '1-starter': { code: 'remote', savedAt: 20 }, '3-starter': { code: 'new', savedAt: 5 } },
+  notes: { 1: 'their note', 3: 'remote note' },
+  sittings: { 1: { timer: createSession(200), attempt: null, checked: [] } },
+};
+
+describe('progressTransfer', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('round-trips a snapshot through the export format', () => {
+    expect(parseExport(serializeSnapshot(local))).toEqual(local);
+  });
+
+  it('rejects files that are not lab exports', () => {
+    expect(() => parseExport('nope')).toThrow('not valid JSON');
+    expect(() => parseExport('{"format":"something-else"}')).toThrow('not a React Interview Lab');
+  });
+
+  it('rejects exports with invalid progress', () => {
+    const file = JSON.parse(serializeSnapshot(local));
+    file.progress.completedIds = 'all of them';
+    expect(() => parseExport(JSON.stringify(file))).toThrow('invalid');
+  });
+
+  it('migrates pre-envelope progress in old exports', () => {
+    const file = JSON.parse(serializeSnapshot(local));
+    file.progressVersion = 0;
+    file.progress = { completed: [4], times: { 4: 60 } };
+
+    expect(parseExport(JSON.stringify(file)).progress).toEqual({
+      completedIds: [4],
+      completionTimes: { 4: 60 },
+      attempts: {},
+    });
+  });
+
+  it('previews what an import would change', () => {
+    expect(previewImport(local, remote)).toEqual({
+      newCompletions: [3],
+      fasterTimes: [1],
+      newAttempts: 1,
+      draftsAdded: 1,
+      draftsUpdated: 1,
+      notesAdded: 1,
+      removedCompletions: [2],
+    });
+  });
+
+  it('only counts a draft as updated when the file copy is newer', () => {
+    const stale = { ...remote, drafts: { '1-starter': { code: 'older', savedAt: 5 } } };
+    expect(previewImport(local, stale).draftsUpdated).toBe(0);
+  });
+
+  it('drops drafts with keys that are not challenge drafts', () => {
+    const file = JSON.parse(serializeSnapshot(local));
+    file.drafts['../settings'] = { code: 'x', savedAt: 1 };
+    file.drafts['1-answer'] = { code: 'x', savedAt: 1 };
+    expect(Object.keys(parseExport(JSON.stringify(file)).drafts)).toEqual(['1-starter']);
+  });
+
+  it('merge keeps best times, newest drafts and local notes', () => {
+    const merged = combineSnapshots(local, remote, 'merge');
+    expect(merged.progress.completedIds).toEqual([1, 2, 3]);
+    expect(merged.progress.completionTimes).toEqual({ 1: 200, 2: 100, 3: 90 });
+    expect(merged.drafts['1-starter']!.code).toBe('remote');
+    expect(merged.notes).toEqual({ 1: 'my note', 3: 'remote note' });
+    expect(merged.sittings[1]).toBe(remote.sittings[1]);
+  });
+
+  it('replace takes the incoming snapshot as-is', () => {
+    expect(combineSnapshots(local, remote, 'replace')).toBe(remote);
+  });
+
+  it('writeSnapshotExtras in replace mode clears drafts, notes and sittings not in the file', () => {
+    saveDraft(9, 'starter', 'stale');
+    saveNote(9, 'stale note');
+    saveTimerSession(9, createSession());
+
+    writeSnapshotExtras({ ...remote, progress: EMPTY_PROGRESS }, 'replace');
+    expect(loadDraft(9, 'starter')).toBeNull();
+    expect(loadNote(9)).toBe('');
+    expect(loadTimerSession(9)).toBeNull();
+    expect(readLocalSnapshot(EMPTY_PROGRESS).notes).toEqual(remote.notes);
+  });
+
+  it('restores a sitting with its live attempt from an export', () => {
+    writeSnapshotExtras(parseExport(serializeSnapshot(local)), 'merge');
+    expect(loadTimerSession(1)).toEqual(local.sittings[1]!.timer);
+    expect(loadLiveAttempt(1)).toEqual(local.sittings[1]!.attempt);
+  });
+});
@@ -0,0 +1,155 @@
+import { isProgressData, mergeProgress } from './progressData';
+import { migrate, PROGRESS_VERSION } from './progressStorage';
+import { isDraft, isDraftId, listDrafts, writeDrafts, clearAllDrafts, type Draft } from './drafts';
+import { listNotes, writeNotes, clearAllNotes } from './notes';
+import { isSitting, listSittings, writeSittings, clearAllSittings, type Sitting } from './sittings';
+import type { ProgressData } from '@/types/progress';
+
+export const EXPORT_FORMAT = 'react-interview-lab-progress';
+
+export type ImportMode = 'merge' | 'replace';
+
+/** Everything a user would lose by switching machines */
+export interface LabSnapshot {
+  progress: ProgressData;
+  drafts: Record<string, Draft>;
+  notes: Record<number, string>;
+  /** Challenges left mid-attempt, so the clock picks up where it stopped */
+  sittings: Record<number, Sitting>;
+}
+
+interface ProgressExportFile {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  progressVersion: number;
+  progress: ProgressData;
+  drafts: Record<string, Draft>;
+  notes: Record<number, string>;
+  sittings?: Record<number, Sitting>;
+}
+
+export interface ImportPreview {
+  newCompletions: number[];
+  fasterTimes: number[];
+  newAttempts: number;
+  draftsAdded: number;
+  draftsUpdated: number;
+  notesAdded: number;
+  /** Completions present locally but missing from the file — lost on replace */
+  removedCompletions: number[];
+}
+
+export function readLocalSnapshot(progress: ProgressData): LabSnapshot {
+  return { progress, drafts: listDrafts(), notes: listNotes(), sittings: listSittings() };
+}
+
+export function serializeSnapshot(snapshot: LabSnapshot, now = new Date()): string {
+  const file: ProgressExportFile = {
+    format: EXPORT_FORMAT,
+    exportedAt: now.toISOString(),
+    progressVersion: PROGRESS_VERSION,
+    ...snapshot,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function exportFilename(now = new Date()): string {
+  return `react-interview-lab-progress-${now.toISOString().slice(0, 10)}.json`;
+}
+
+/** Parses an export file, running its progress through the storage migration chain */
+export function parseExport(text: string): LabSnapshot {
+  let parsed: Partial<ProgressExportFile>;
+  try {
+    parsed = JSON.parse(text) as Partial<ProgressExportFile>;
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (parsed?.format !== EXPORT_FORMAT) {
+    throw new Error('This is not a React Interview Lab progress export.');
+  }
+
+  const version = typeof parsed.progressVersion === 'number' ? parsed.progressVersion : 0;
+  if (version > PROGRESS_VERSION) {
+    throw new Error('This export was made by a newer version of the app.');
+  }
+  const progress = migrate(version, parsed.progress);
+  if (!isProgressData(progress)) {
+    throw new Error('The progress data in this file is invalid.');
+  }
+
+  const drafts = Object.fromEntries(
+    Object.entries(parsed.drafts ?? {}).filter(([key, d]) => isDraftId(key) && isDraft(d)),
+  );
+  const notes = Object.fromEntries(
+    Object.entries(parsed.notes ?? {}).filter(([id, text]) => Number.isInteger(Number(id)) && typeof text === 'string'),
+  );
+  const sittings = Object.fromEntries(
+    Object.entries(parsed.sittings ?? {}).filter(([id, sitting]) => Number.isInteger(Number(id)) && isSitting(sitting)),
+  );
+  return { progress, drafts, notes, sittings };
+}
+
+/** Merge keeps whichever copy of a draft was saved last */
+const isNewerDraft = (incoming: Draft, existing: Draft | undefined) =>
+  !existing || incoming.savedAt > existing.savedAt;
+
+export function previewImport(current: LabSnapshot, incoming: LabSnapshot): ImportPreview {
+  const currentIds = new Set(current.progress.completedIds);
+  const incomingIds = new Set(incoming.progress.completedIds);
+  const currentAttemptIds = new Set(Object.values(current.progress.attempts).flat().map((a) => a.id));
+  const incomingDrafts = Object.entries(incoming.drafts);
+
+  return {
+    newCompletions: [...incomingIds].filter((id) => !currentIds.has(id)),
+    fasterTimes: Object.entries(incoming.progress.completionTimes)
+      .filter(([id, seconds]) => {
+        const existing = current.progress.completionTimes[Number(id)];
+        return existing !== undefined && seconds < existing;
+      })
+      .map(([id]) => Number(id)),
+    newAttempts: Object.values(incoming.progress.attempts).flat().filter((a) => !currentAttemptIds.has(a.id)).length,
+    draftsAdded: incomingDrafts.filter(([key]) => !current.drafts[key]).length,
+    draftsUpdated: incomingDrafts.filter(([key, d]) => {
+      const existing = current.drafts[key];
+      return existing !== undefined && existing.code !== d.code && isNewerDraft(d, existing);
+    }).length,
+    notesAdded: Object.keys(incoming.notes).filter((id) => !current.notes[Number(id)]).length,
+    removedCompletions: [...currentIds].filter((id) => !incomingIds.has(id)),
+  };
+}
+
+export function combineSnapshots(current: LabSnapshot, incoming: LabSnapshot, mode: ImportMode): LabSnapshot {
+  if (mode === 'replace') return incoming;
+
+  const drafts = { ...current.drafts };
+  Object.entries(incoming.drafts).forEach(([key, draft]) => {
+    if (isNewerDraft(draft, drafts[key])) drafts[key] = draft;
+  });
+
+  const sittings = { ...current.sittings };
+  Object.entries(incoming.sittings).forEach(([id, sitting]) => {
+    const existing = sittings[Number(id)];
+    if (!existing || sitting.timer.lastSeenAt > existing.timer.lastSeenAt) sittings[Number(id)] = sitting;
+  });
+
+  return {
+    progress: mergeProgress(current.progress, incoming.progress),
+    drafts,
+    // Local notes win — an import never silently overwrites what you wrote here
+    notes: { ...incoming.notes, ...current.notes },
+    sittings,
+  };
+}
+
+/** Writes everything but progress, which goes through useProgress so state stays in sync */
+export function writeSnapshotExtras(snapshot: LabSnapshot, mode: ImportMode) {
+  if (mode === 'replace') {
+    clearAllDrafts();
+    clearAllNotes();
+    clearAllSittings();
+  }
+  writeDrafts(snapshot.drafts);
+  writeNotes(snapshot.notes);
+  writeSittings(snapshot.sittings);
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { challengeRubric, latestAssessmentScore, weightedScore } from './rubric';
+import { createAttempt } from './attempts';
+import { challenge } from '@/test/fixtures';
+import type { RubricCriterion } from '@/types/challenge';
+
+const rubric: RubricCriterion[] = [
+  { id: 'tearing', label: 'Tearing detection', weight: 3, levels: ['Missing', 'Partial', 'Correct'] },
+  { id: 'ssr', label: 'SSR snapshot', levels: ['Missing', 'Correct'] },
+];
+
+describe('rubric', () => {
+  it('derives one criterion per requirement when a challenge has no rubric', () => {
+    const unrated = challenge(1, { requirements: ['Subscribe', 'Snapshot'] });
+    expect(challengeRubric(unrated)).toEqual([
+      { id: 'req-1', label: 'Subscribe', levels: ['Missing', 'Partial', 'Correct'] },
+      { id: 'req-2', label: 'Snapshot', levels: ['Missing', 'Partial', 'Correct'] },
+    ]);
+    expect(challengeRubric({ ...unrated, rubric })).toBe(rubric);
+  });
+
+  it('weights each criterion by its share of the best level', () => {
+    expect(weightedScore(rubric, {})).toBeNull();
+    expect(weightedScore(rubric, { tearing: 2, ssr: 1 })).toBe(100);
+    // 3 × ½ + 1 × 1 out of 4
+    expect(weightedScore(rubric, { tearing: 1, ssr: 1 })).toBe(63);
+    // Unscored criteria count as the lowest level
+    expect(weightedScore(rubric, { tearing: 2 })).toBe(75);
+  });
+
+  it('latestAssessmentScore picks the most recently assessed attempt', () => {
+    const older = { ...createAttempt(1, 1000), assessment: { levels: {}, score: 40, assessedAt: 3000 } };
+    const newer = { ...createAttempt(1, 500), assessment: { levels: {}, score: 80, assessedAt: 4000 } };
+
+    expect(latestAssessmentScore([newer, older, createAttempt(1)])).toBe(80);
+    expect(latestAssessmentScore([createAttempt(1)])).toBeUndefined();
+    expect(latestAssessmentScore()).toBeUndefined();
+  });
+});
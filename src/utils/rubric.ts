@@ -0,0 +1,42 @@
+import type { Challenge, RubricCriterion } from '@/types/challenge';
+import type { Attempt, RubricAssessment } from '@/types/progress';
+
+export const DEFAULT_LEVELS = ['Missing', 'Partial', 'Correct'];
+
+export function challengeRubric(challenge: Challenge): RubricCriterion[] {
+  return challenge.rubric ?? challenge.requirements.map((label, i) => ({
+    id: `req-${i + 1}`,
+    label,
+    levels: DEFAULT_LEVELS,
+  }));
+}
+
+/**
+ * Weighted share of the best possible result, 0–100. Unscored criteria count
+ * as the lowest level; null until at least one has been scored.
+ */
+export function weightedScore(rubric: RubricCriterion[], levels: Record<string, number>): number | null {
+  if (!rubric.some((c) => levels[c.id] !== undefined)) return null;
+  let earned = 0;
+  let possible = 0;
+  rubric.forEach((c) => {
+    const weight = c.weight ?? 1;
+    const top = Math.max(1, c.levels.length - 1);
+    earned += weight * (Math.min(levels[c.id] ?? 0, top) / top);
+    possible += weight;
+  });
+  return possible === 0 ? null : Math.round((earned / possible) * 100);
+}
+
+export function createAssessment(rubric: RubricCriterion[], levels: Record<string, number>, at = Date.now()): RubricAssessment {
+  return { levels, score: weightedScore(rubric, levels) ?? 0, assessedAt: at };
+}
+
+/** Score from the most recently assessed attempt */
+export function latestAssessmentScore(attempts: Attempt[] = []): number | undefined {
+  let latest: RubricAssessment | undefined;
+  attempts.forEach((a) => {
+    if (a.assessment && (!latest || a.assessment.assessedAt > latest.assessedAt)) latest = a.assessment;
+  });
+  return latest?.score;
+}
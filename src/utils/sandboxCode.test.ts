@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { consoleWrapper, exportWrapped, missingTestImports, previewFiles } from './sandboxCode';
+
+const body = (wrapped: string) => wrapped.slice(wrapped.indexOf('\n\n') + 2);
+
+describe('exportWrapped', () => {
+  it('exports every kind of top-level declaration', () => {
+    const code = [
+      'function useA() {}',
+      'async function load() {}',
+      'const useB = () => {};',
+      'let count = 0, { x, y: [z] } = obj;',
+      'class TreeNode {}',
+    ].join('\n');
+
+    expect(body(exportWrapped(code))).toBe([
+      'export function useA() {}',
+      'export async function load() {}',
+      'export const useB = () => {};',
+      'export let count = 0, { x, y: [z] } = obj;',
+      'export class TreeNode {}',
+    ].join('\n'));
+  });
+
+  it('leaves nested and already-exported declarations alone', () => {
+    const code = 'export function a() {\n  function inner() {}\n}\nfunction b() {}\nexport { b };\nexport default function App() {}';
+    expect(body(exportWrapped(code))).toBe(code);
+  });
+
+  it('merges missing hooks into an existing React import', () => {
+    const wrapped = exportWrapped("import { useState } from 'react';\nconst useRef = 1;");
+    expect(wrapped).toMatch(/^import \{ useState, useReducer, useCallback, .+ \} from 'react';\nexport const useRef = 1;$/);
+    expect(wrapped.match(/useState/g)).toHaveLength(1);
+
+    expect(exportWrapped("import React from 'react';")).toMatch(/^import React, \{ useState, .+ \} from 'react';$/);
+  });
+
+  it('imports the React default when the code uses it without importing it', () => {
+    const code = 'class Boundary extends React.Component {}';
+    expect(exportWrapped(code)).toMatch(/^import React, \{ useState, .+ \} from 'react';\n\nexport class Boundary/);
+    expect(exportWrapped("import { useState } from 'react';\n" + code)).toMatch(/^import React from 'react';\nimport \{ useState, /);
+    expect(exportWrapped("import * as React from 'react';\n" + code)).not.toMatch(/^import React /);
+    expect(exportWrapped('const Box = () => <React.Fragment />;')).toMatch(/^import React, /);
+    expect(exportWrapped('let props: React.ReactNode;')).toMatch(/^import React, /);
+  });
+
+  it('ignores React. in comments and strings', () => {
+    expect(exportWrapped("// like React.memo\nconst label = 'React.lazy';")).not.toMatch(/^import React/);
+  });
+
+  it('prepends the import when there is none and the code does not parse', () => {
+    expect(exportWrapped('function (')).toMatch(/^import \{ useState, .+ \} from 'react';\n\nfunction \($/);
+  });
+
+  it('skips hooks the unparsable code declares or imports itself', () => {
+    const code = "import { useMemo as memoize } from 'react';\nfunction useState() {}\nconst useEffect = 1;\nlet memo = (";
+    const imports = exportWrapped(code).split('\n')[0]!;
+    expect(imports).toMatch(/^import \{ useReducer, /);
+    ['useState', 'useEffect', 'memoize', ' memo,', ' memo '].forEach((name) => expect(imports).not.toContain(name));
+    expect(imports).toContain('useMemo');
+  });
+});
+
+describe('missingTestImports', () => {
+  it('lists test imports the implementation does not export', () => {
+    const tests = "import { a, b as c, d } from './implementation';\nimport { render } from '@testing-library/react';";
+    expect(missingTestImports('export const a = 1;\nfunction d() {}', tests)).toEqual(['b', 'd']);
+  });
+
+  it('finds nothing missing for the authored solutions', () => {
+    ALL_CHALLENGES.filter((c) => c.testCode).forEach((c) => {
+      expect(missingTestImports(exportWrapped(c.solutionCode), c.testCode!), c.title).toEqual([]);
+    });
+  });
+
+  it('finds nothing missing for the authored demos', () => {
+    ALL_CHALLENGES.filter((c) => c.demoEntry).forEach((c) => {
+      expect(missingTestImports(exportWrapped(c.solutionCode), c.demoEntry!), c.title).toEqual([]);
+    });
+  });
+});
+
+describe('consoleWrapper', () => {
+  it('adds a placeholder default export only when the code has none', () => {
+    expect(consoleWrapper('function Demo() {}')).toContain('export function Demo() {}');
+    expect(consoleWrapper('function Demo() {}')).toContain('export default function App()');
+    expect(consoleWrapper('export default function Widget() {}')).not.toContain('function App()');
+  });
+});
+
+describe('previewFiles', () => {
+  it('renders the demo module when the challenge has one', () => {
+    const files = previewFiles('export const a = 1;', "import { a } from './implementation';");
+    expect(files['/App.tsx']).toContain("from './Demo'");
+    expect(files['/Demo.jsx']).toContain('./implementation');
+    expect(files['/implementation.tsx']).toBe('export const a = 1;');
+  });
+
+  it('otherwise falls back to the Demo or default export', () => {
+    const files = previewFiles('export function Demo() {}');
+    expect(files['/App.tsx']).toContain('exported.Demo ?? exported.default');
+    expect(files).not.toHaveProperty('/Demo.jsx');
+  });
+});
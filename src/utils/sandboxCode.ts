@@ -0,0 +1,225 @@
+import { parse } from '@babel/parser';
+
+type Program = ReturnType<typeof parse>['program'];
+type Statement = Program['body'][number];
+type Binding = Extract<Statement, { type: 'VariableDeclaration' }>['declarations'][number]['id'];
+
+const REACT_IMPORTS = [
+  'useState', 'useReducer', 'useRef', 'useCallback', 'useMemo', 'useEffect',
+  'useLayoutEffect', 'useContext', 'createContext', 'useSyncExternalStore',
+  'useTransition', 'useDeferredValue', 'useId', 'useImperativeHandle',
+  'startTransition', 'memo', 'forwardRef',
+];
+
+/** The module test files import the user's code from */
+const IMPLEMENTATION_MODULE = './implementation';
+
+function parseModule(code: string): Program | null {
+  try {
+    return parse(code, { sourceType: 'module', plugins: ['typescript', 'jsx'] }).program;
+  } catch {
+    return null;
+  }
+}
+
+function bindingNames(id: Binding | null | undefined): string[] {
+  if (!id) return [];
+  switch (id.type) {
+    case 'Identifier':
+      return [id.name];
+    case 'ObjectPattern':
+      return id.properties.flatMap((p) =>
+        p.type === 'RestElement' ? bindingNames(p.argument as Binding) : bindingNames(p.value as Binding));
+    case 'ArrayPattern':
+      return id.elements.flatMap((el) => bindingNames(el as Binding | null));
+    case 'AssignmentPattern':
+      return bindingNames(id.left as Binding);
+    case 'RestElement':
+      return bindingNames(id.argument as Binding);
+    default:
+      return [];
+  }
+}
+
+/** Names a top-level statement declares, or null when it isn't an exportable declaration */
+function declaredNames(node: Statement): string[] | null {
+  switch (node.type) {
+    case 'FunctionDeclaration':
+    case 'ClassDeclaration':
+    case 'TSEnumDeclaration':
+    case 'TSInterfaceDeclaration':
+    case 'TSTypeAliasDeclaration':
+      return node.id ? [node.id.name] : null;
+    case 'VariableDeclaration':
+      return node.declare ? null : node.declarations.flatMap((d) => bindingNames(d.id));
+    default:
+      return null;
+  }
+}
+
+function exportedNames(program: Program): Set<string> {
+  const names = new Set<string>();
+  program.body.forEach((node) => {
+    if (node.type === 'ExportDefaultDeclaration') names.add('default');
+    if (node.type !== 'ExportNamedDeclaration') return;
+    if (node.declaration) declaredNames(node.declaration)?.forEach((name) => names.add(name));
+    node.specifiers.forEach((s) => {
+      names.add(s.exported.type === 'Identifier' ? s.exported.name : s.exported.value);
+    });
+  });
+  return names;
+}
+
+function topLevelNames(program: Program): Set<string> {
+  const names = new Set<string>();
+  program.body.forEach((node) => {
+    if (node.type === 'ImportDeclaration') node.specifiers.forEach((s) => names.add(s.local.name));
+    const declaration = node.type === 'ExportNamedDeclaration' && node.declaration ? node.declaration : node;
+    declaredNames(declaration)?.forEach((name) => names.add(name));
+  });
+  return names;
+}
+
+// Skipped while walking: position info and comments hold no expressions
+const NON_CODE_KEYS = new Set(['loc', 'extra', 'leadingComments', 'trailingComments', 'innerComments']);
+
+/** Whether the code refers to `React.` in an expression, a type or a JSX tag, ignoring comments and strings */
+function usesReactNamespace(node: unknown): boolean {
+  if (Array.isArray(node)) return node.some(usesReactNamespace);
+  if (typeof node !== 'object' || node === null) return false;
+  const { type, object, left } = node as { type?: string; object?: { name?: string }; left?: { name?: string } };
+  if ((type === 'MemberExpression' || type === 'JSXMemberExpression') && object?.name === 'React') return true;
+  if (type === 'TSQualifiedName' && left?.name === 'React') return true;
+  return Object.entries(node).some(([key, value]) => !NON_CODE_KEYS.has(key) && usesReactNamespace(value));
+}
+
+const DECLARATION = /\b(?:function\*?|const|let|var|class)\s+([A-Za-z_$][\w$]*)/g;
+const NAMED_IMPORTS = /\bimport\s+(?:[\w$]+\s*,\s*)?\{([^}]*)\}/g;
+
+/** Best-effort top-level names for code that doesn't parse, so no hook import collides with them */
+function scannedNames(code: string): Set<string> {
+  const declared = [...code.matchAll(DECLARATION)].map((match) => match[1]!);
+  const imported = [...code.matchAll(NAMED_IMPORTS)].flatMap((match) =>
+    match[1]!.split(',').map((specifier) => specifier.trim().split(/\s+as\s+/).pop()!));
+  return new Set([...declared, ...imported]);
+}
+
+const importLine = (names: string[], withDefault = false) =>
+  `import ${withDefault ? 'React, ' : ''}{ ${names.join(', ')} } from 'react';\n\n`;
+
+/**
+ * Wraps user code so every top-level declaration is exported once, making it
+ * importable by the test file, and adds any missing React imports (plus the
+ * default `React` when the code uses `React.Component` and friends bare).
+ */
+export function exportWrapped(code: string): string {
+  const program = parseModule(code);
+  // Mid-edit code that doesn't parse yet: leave it for Sandpack to report
+  if (!program) {
+    const names = scannedNames(code);
+    const hooks = REACT_IMPORTS.filter((hook) => !names.has(hook));
+    return (hooks.length > 0 ? importLine(hooks) : '') + code;
+  }
+
+  const exported = exportedNames(program);
+  const local = topLevelNames(program);
+  const insertions: Array<{ at: number; text: string }> = [];
+
+  program.body.forEach((node) => {
+    const names = declaredNames(node);
+    if (names?.length && !names.some((name) => exported.has(name))) {
+      insertions.push({ at: node.start!, text: 'export ' });
+    }
+  });
+
+  const hooks = REACT_IMPORTS.filter((hook) => !local.has(hook));
+  const needsDefault = !local.has('React') && usesReactNamespace(program.body);
+  let prefix = needsDefault ? "import React from 'react';\n" : '';
+  if (hooks.length > 0) {
+    const reactImport = program.body.find(
+      (node) => node.type === 'ImportDeclaration' && node.source.value === 'react' && node.importKind !== 'type'
+        && !node.specifiers.some((s) => s.type === 'ImportNamespaceSpecifier'),
+    );
+    const specifiers = reactImport?.type === 'ImportDeclaration' ? reactImport.specifiers : [];
+    const last = specifiers[specifiers.length - 1];
+    if (last?.type === 'ImportSpecifier') insertions.push({ at: last.end!, text: `, ${hooks.join(', ')}` });
+    else if (last) insertions.push({ at: last.end!, text: `, { ${hooks.join(', ')} }` });
+    else prefix = importLine(hooks, needsDefault);
+  }
+
+  const body = insertions
+    .sort((a, b) => b.at - a.at)
+    .reduce((result, { at, text }) => result.slice(0, at) + text + result.slice(at), code);
+  return prefix + body;
+}
+
+/** Names `testCode` imports from the implementation that `code` doesn't export */
+export function missingTestImports(code: string, testCode: string): string[] {
+  const program = parseModule(code);
+  const tests = parseModule(testCode);
+  if (!program || !tests) return [];
+
+  const exported = exportedNames(program);
+  const imported = tests.body.flatMap((node) => {
+    if (node.type !== 'ImportDeclaration' || node.source.value !== IMPLEMENTATION_MODULE) return [];
+    return node.specifiers.flatMap((s) => {
+      if (s.type === 'ImportDefaultSpecifier') return ['default'];
+      if (s.type === 'ImportSpecifier') return [s.imported.type === 'Identifier' ? s.imported.name : s.imported.value];
+      return [];
+    });
+  });
+  return [...new Set(imported)].filter((name) => !exported.has(name));
+}
+
+const PREVIEW_PLACEHOLDER = `function NoDemo() {
+  return (
+    <p style={{ padding: 24, fontFamily: 'monospace', color: '#999' }}>
+      Export a <code>Demo</code> component (or a default export) to preview it here.
+    </p>
+  );
+}`;
+
+/**
+ * Sandpack files for the live preview. The entry renders the challenge's demo
+ * module when there is one, else the code's `Demo` or default export.
+ */
+export function previewFiles(code: string, demoEntry?: string): Record<string, string> {
+  const entry = demoEntry
+    ? "export { default } from './Demo';\n"
+    : `import * as implementation from './implementation';
+
+${PREVIEW_PLACEHOLDER}
+
+const exported: Record<string, any> = implementation;
+export default exported.Demo ?? exported.default ?? NoDemo;
+`;
+  return {
+    '/implementation.tsx': code,
+    '/App.tsx': entry,
+    ...(demoEntry ? { '/Demo.jsx': demoEntry } : {}),
+  };
+}
+
+/**
+ * For console-only fallback: exports the code like `exportWrapped` so a demo
+ * can import it, plus a placeholder default export unless the code has its own.
+ */
+export function consoleWrapper(code: string): string {
+  const wrapped = exportWrapped(code);
+  const program = parseModule(code);
+  if (program && exportedNames(program).has('default')) return wrapped;
+  return `${wrapped}
+
+// Try your implementation above and check the console for output,
+// or export a Demo component to render it in the preview.
+export default function App() {
+  return (
+    <div style={{ padding: 24, fontFamily: 'monospace', color: '#999' }}>
+      <p>Use the console panel to test your implementation.</p>
+      <p style={{ fontSize: 12, color: '#666' }}>
+        Write console.log() calls above, or export a Demo component to preview it.
+      </p>
+    </div>
+  );
+}`;
+}
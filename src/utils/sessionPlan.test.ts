@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildSessionQueue, planMinutes, summarizeSession } from './sessionPlan';
+import { challenge } from '@/test/fixtures';
+
+const timed = (id: number, minutes: number) => challenge(id, { timeEstimate: { minutes } });
+
+const candidates = [timed(1, 30), timed(2, 35), timed(3, 25), timed(4, 30)];
+const none = new Set<number>();
+
+describe('buildSessionQueue', () => {
+  it('fills the budget in order with breaks between challenges', () => {
+    const items = buildSessionQueue(candidates, { budgetMinutes: 90, breakMinutes: 5, skipCompleted: true, completedIds: none });
+
+    expect(items).toEqual([
+      { kind: 'challenge', challengeId: 1, minutes: 30 },
+      { kind: 'break', minutes: 5 },
+      { kind: 'challenge', challengeId: 2, minutes: 35 },
+    ]);
+    expect(planMinutes(items)).toBe(70);
+  });
+
+  it('skips a challenge that does not fit and tries shorter ones after it', () => {
+    const items = buildSessionQueue(candidates, { budgetMinutes: 60, breakMinutes: 0, skipCompleted: true, completedIds: none });
+    expect(items.map((i) => i.kind === 'challenge' && i.challengeId)).toEqual([1, 3]);
+  });
+
+  it('leaves out completed challenges, or puts them last', () => {
+    const completedIds = new Set([1, 3]);
+    const skip = buildSessionQueue(candidates, { budgetMinutes: 200, breakMinutes: 0, skipCompleted: true, completedIds });
+    expect(skip.map((i) => i.kind === 'challenge' && i.challengeId)).toEqual([2, 4]);
+
+    const keep = buildSessionQueue(candidates, { budgetMinutes: 200, breakMinutes: 0, skipCompleted: false, completedIds });
+    expect(keep.map((i) => i.kind === 'challenge' && i.challengeId)).toEqual([2, 4, 1, 3]);
+  });
+
+  it('returns an empty queue when nothing fits', () => {
+    expect(buildSessionQueue(candidates, { budgetMinutes: 20, breakMinutes: 5, skipCompleted: true, completedIds: none })).toEqual([]);
+  });
+});
+
+describe('summarizeSession', () => {
+  it('counts completed and over-estimate laps', () => {
+    const laps = [
+      { challengeId: 1, seconds: 1500, estimateSeconds: 1800, completed: true },
+      { challengeId: 2, seconds: 2400, estimateSeconds: 2100, completed: false },
+    ];
+    expect(summarizeSession(laps, 4200, 1)).toEqual({
+      totalSeconds: 4200,
+      attempted: 2,
+      completed: 1,
+      breaksTaken: 1,
+      overEstimate: 1,
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { estimateMinutes } from './time';
+import type { Challenge } from '@/types/challenge';
+
+export type PlanItem =
+  | { kind: 'challenge'; challengeId: number; minutes: number }
+  | { kind: 'break'; minutes: number };
+
+export interface PlanOptions {
+  budgetMinutes: number;
+  /** Break between consecutive challenges; 0 runs them back-to-back */
+  breakMinutes: number;
+  skipCompleted: boolean;
+  completedIds: ReadonlySet<number>;
+}
+
+export interface SessionLap {
+  challengeId: number;
+  seconds: number;
+  estimateSeconds: number;
+  completed: boolean;
+}
+
+export interface SessionSummary {
+  totalSeconds: number;
+  attempted: number;
+  completed: number;
+  breaksTaken: number;
+  /** Laps that ran past their estimate */
+  overEstimate: number;
+}
+
+/**
+ * Greedily fills the budget in the given order, unfinished challenges first.
+ * Anything that doesn't fit (with its preceding break) is skipped so a
+ * shorter challenge later in the list can still take the slot.
+ */
+export function buildSessionQueue(candidates: Challenge[], options: PlanOptions): PlanItem[] {
+  const { budgetMinutes, breakMinutes, skipCompleted, completedIds } = options;
+  const unfinished = candidates.filter((c) => !completedIds.has(c.id));
+  const ordered = skipCompleted ? unfinished : [...unfinished, ...candidates.filter((c) => completedIds.has(c.id))];
+
+  const items: PlanItem[] = [];
+  let used = 0;
+  ordered.forEach((c) => {
+    const minutes = estimateMinutes(c.timeEstimate);
+    const gap = items.length > 0 ? breakMinutes : 0;
+    if (used + gap + minutes > budgetMinutes) return;
+    if (gap > 0) items.push({ kind: 'break', minutes: gap });
+    items.push({ kind: 'challenge', challengeId: c.id, minutes });
+    used += gap + minutes;
+  });
+  return items;
+}
+
+export function planMinutes(items: PlanItem[]): number {
+  return items.reduce((sum, item) => sum + item.minutes, 0);
+}
+
+export function summarizeSession(laps: SessionLap[], totalSeconds: number, breaksTaken: number): SessionSummary {
+  return {
+    totalSeconds,
+    attempted: laps.length,
+    completed: laps.filter((l) => l.completed).length,
+    breaksTaken,
+    overEstimate: laps.filter((l) => l.seconds > l.estimateSeconds).length,
+  };
+}
@@ -0,0 +1,73 @@
+import { isAttempt } from './progressData';
+import { clearChecklist, loadChecklist, saveChecklist } from './checklist';
+import { clearTimerSession, isTimerSession, listTimerSessions, saveTimerSession } from './timerSession';
+import type { Attempt } from '@/types/progress';
+import type { TimerSession } from '@/types/timer';
+
+const LIVE_ATTEMPT_PREFIX = 'ril-attempt-';
+
+/**
+ * A challenge's work in flight: the clock, the attempt it is timing and the
+ * ticked requirements. They are saved under separate keys but always
+ * restored, exported and cleared together so they can't disagree.
+ */
+export interface Sitting {
+  timer: TimerSession;
+  attempt: Attempt | null;
+  checked: number[];
+}
+
+export function isSitting(value: unknown): value is Sitting {
+  const sitting = value as Partial<Sitting> | null;
+  return typeof sitting === 'object' && sitting !== null
+    && isTimerSession(sitting.timer)
+    && (sitting.attempt === null || isAttempt(sitting.attempt))
+    && Array.isArray(sitting.checked) && sitting.checked.every((i) => Number.isInteger(i) && i >= 0);
+}
+
+/** The attempt a reload should resume; finished attempts aren't resumed */
+export function loadLiveAttempt(challengeId: number): Attempt | null {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(`${LIVE_ATTEMPT_PREFIX}${challengeId}`) ?? 'null');
+    return isAttempt(parsed) && parsed.challengeId === challengeId && parsed.status === 'in-progress' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLiveAttempt(attempt: Attempt) {
+  localStorage.setItem(`${LIVE_ATTEMPT_PREFIX}${attempt.challengeId}`, JSON.stringify(attempt));
+}
+
+export function clearLiveAttempt(challengeId: number) {
+  localStorage.removeItem(`${LIVE_ATTEMPT_PREFIX}${challengeId}`);
+}
+
+export function clearSitting(challengeId: number) {
+  clearTimerSession(challengeId);
+  clearLiveAttempt(challengeId);
+  clearChecklist(challengeId);
+}
+
+/** Every challenge with a stored clock, keyed by challenge id */
+export function listSittings(): Record<number, Sitting> {
+  return Object.fromEntries(Object.entries(listTimerSessions()).map(([id, timer]) => [id, {
+    timer,
+    attempt: loadLiveAttempt(Number(id)),
+    checked: loadChecklist(Number(id)),
+  }]));
+}
+
+export function writeSittings(sittings: Record<number, Sitting>) {
+  Object.entries(sittings).forEach(([key, { timer, attempt, checked }]) => {
+    const id = Number(key);
+    saveTimerSession(id, timer);
+    if (attempt) saveLiveAttempt(attempt);
+    else clearLiveAttempt(id);
+    saveChecklist(id, checked);
+  });
+}
+
+export function clearAllSittings() {
+  Object.keys(listTimerSessions()).forEach((id) => clearSitting(Number(id)));
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { solutionGate } from './solutionGate';
+
+const base = { enabled: true, minMinutes: 10, elapsedSeconds: 0, testRunCount: 0 };
+
+describe('solutionGate', () => {
+  it('stays closed until the minimum time has passed', () => {
+    expect(solutionGate({ ...base, elapsedSeconds: 420 })).toEqual({ open: false, secondsLeft: 180 });
+    expect(solutionGate({ ...base, elapsedSeconds: 600 })).toEqual({ open: true });
+  });
+
+  it('opens early once the tests have been run', () => {
+    expect(solutionGate({ ...base, testRunCount: 1 })).toEqual({ open: true });
+  });
+
+  it('is always open when gating is disabled or has no minimum', () => {
+    expect(solutionGate({ ...base, enabled: false })).toEqual({ open: true });
+    expect(solutionGate({ ...base, minMinutes: 0 })).toEqual({ open: true });
+  });
+});
@@ -0,0 +1,15 @@
+export type SolutionGate = { open: true } | { open: false; secondsLeft: number };
+
+interface GateInput {
+  enabled: boolean;
+  minMinutes: number;
+  elapsedSeconds: number;
+  testRunCount: number;
+}
+
+/** Closed until the attempt has run for `minMinutes` or run the tests at least once */
+export function solutionGate({ enabled, minMinutes, elapsedSeconds, testRunCount }: GateInput): SolutionGate {
+  const secondsLeft = minMinutes * 60 - elapsedSeconds;
+  if (!enabled || testRunCount > 0 || secondsLeft <= 0) return { open: true };
+  return { open: false, secondsLeft };
+}
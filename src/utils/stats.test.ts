@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { computeStats, completionTimeline } from './stats';
+import { addAttempt, completeChallenge, EMPTY_PROGRESS } from './progressData';
+import { createAttempt } from './attempts';
+import { challenge } from '@/test/fixtures';
+
+const challenges = [
+  challenge(1, { category: 'Hooks & State', difficulty: 'Medium' }),
+  challenge(2, { category: 'Hooks & State', difficulty: 'Expert' }),
+  challenge(3),
+];
+
+const day = (iso: string) => new Date(iso).getTime();
+
+describe('computeStats', () => {
+  it('breaks completion down by category and difficulty', () => {
+    const stats = computeStats(challenges, completeChallenge(EMPTY_PROGRESS, 1));
+
+    expect(stats.byCategory).toEqual([
+      { key: 'Hooks & State', completed: 1, total: 2 },
+      { key: 'Performance', completed: 0, total: 1 },
+    ]);
+    expect(stats.byDifficulty.map((b) => b.key)).toEqual(['Medium', 'Hard', 'Expert']);
+  });
+
+  it('compares best times against the parsed estimate', () => {
+    let data = completeChallenge(EMPTY_PROGRESS, 1, 45 * 60);
+    data = completeChallenge(data, 3, 15 * 60);
+    const stats = computeStats(challenges, data);
+
+    expect(stats.comparisons.map((c) => c.overrun)).toEqual([0.5, -0.5]);
+    expect(stats.averageOverrun).toBe(0);
+  });
+
+  it('has no average overrun without timed completions', () => {
+    expect(computeStats(challenges, completeChallenge(EMPTY_PROGRESS, 1)).averageOverrun).toBeNull();
+  });
+
+  it('reports hint and solution reveal rates across attempts', () => {
+    let data = addAttempt(EMPTY_PROGRESS, { ...createAttempt(1), hintsRevealed: true });
+    data = addAttempt(data, { ...createAttempt(2), hintsRevealed: true, solutionRevealed: true });
+    data = addAttempt(data, createAttempt(3));
+    data = addAttempt(data, createAttempt(3));
+
+    expect(computeStats(challenges, data).reveals).toEqual({ attempts: 4, hintRate: 0.5, solutionRate: 0.25 });
+  });
+
+  it('lists the latest self-assessment per challenge, weakest first', () => {
+    const assessed = (id: number, score: number, assessedAt: number) =>
+      ({ ...createAttempt(id), status: 'completed' as const, assessment: { levels: {}, score, assessedAt } });
+    let data = addAttempt(EMPTY_PROGRESS, assessed(1, 90, 1));
+    data = addAttempt(data, assessed(3, 70, 1));
+    data = addAttempt(data, assessed(3, 40, 2));
+
+    const stats = computeStats(challenges, data);
+    expect(stats.assessments.map((a) => [a.challengeId, a.score])).toEqual([[3, 40], [1, 90]]);
+    expect(stats.averageAssessment).toBe(65);
+    expect(computeStats(challenges, EMPTY_PROGRESS).averageAssessment).toBeNull();
+  });
+});
+
+describe('completionTimeline', () => {
+  it('dates each challenge by its first completed attempt and accumulates', () => {
+    let data = addAttempt(EMPTY_PROGRESS, { ...createAttempt(1), status: 'completed', endedAt: day('2026-03-02T10:00') });
+    data = addAttempt(data, { ...createAttempt(1), status: 'completed', endedAt: day('2026-03-05T10:00') });
+    data = addAttempt(data, { ...createAttempt(2), status: 'completed', endedAt: day('2026-03-02T18:00') });
+    data = addAttempt(data, { ...createAttempt(3), status: 'completed', endedAt: day('2026-03-04T09:00') });
+
+    expect(completionTimeline(data).timeline).toEqual([
+      { date: '2026-03-02', count: 2, cumulative: 2 },
+      { date: '2026-03-04', count: 1, cumulative: 3 },
+    ]);
+  });
+
+  it('counts completions without attempts as undated', () => {
+    let data = completeChallenge(EMPTY_PROGRESS, 1);
+    data = addAttempt(data, { ...createAttempt(2), status: 'completed', endedAt: day('2026-03-02T10:00') });
+
+    const { timeline, undated } = completionTimeline(data);
+    expect(undated).toBe(1);
+    expect(timeline).toEqual([{ date: '2026-03-02', count: 1, cumulative: 2 }]);
+  });
+});
@@ -0,0 +1,167 @@
+import { estimateMinutes } from './time';
+import { latestAssessmentScore } from './rubric';
+import type { Challenge, Category, Difficulty } from '@/types/challenge';
+import type { Attempt, ProgressData } from '@/types/progress';
+
+const DIFFICULTY_ORDER: Difficulty[] = ['Medium', 'Hard', 'Expert'];
+
+export interface CompletionBucket<K extends string> {
+  key: K;
+  completed: number;
+  total: number;
+}
+
+export interface EstimateComparison {
+  challengeId: number;
+  title: string;
+  actualSeconds: number;
+  estimateSeconds: number;
+  /** (actual - estimate) / estimate — 0.5 means 50% over */
+  overrun: number;
+}
+
+export interface RevealRates {
+  attempts: number;
+  hintRate: number;
+  solutionRate: number;
+}
+
+export interface AssessmentSummary {
+  challengeId: number;
+  title: string;
+  /** Latest weighted self-assessment, 0–100 */
+  score: number;
+}
+
+export interface TimelinePoint {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  count: number;
+  cumulative: number;
+}
+
+export interface ProgressStats {
+  completed: number;
+  total: number;
+  byCategory: CompletionBucket<Category>[];
+  byDifficulty: CompletionBucket<Difficulty>[];
+  comparisons: EstimateComparison[];
+  averageOverrun: number | null;
+  reveals: RevealRates;
+  /** Weakest first, so the criteria worth revisiting lead */
+  assessments: AssessmentSummary[];
+  averageAssessment: number | null;
+  timeline: TimelinePoint[];
+  /** Completions with no attempt history to date them (marked complete before attempts existed) */
+  undatedCompletions: number;
+}
+
+function bucket<K extends string>(
+  challenges: Challenge[],
+  completed: Set<number>,
+  keyOf: (c: Challenge) => K,
+  order?: K[],
+): CompletionBucket<K>[] {
+  const buckets = new Map<K, CompletionBucket<K>>(order?.map((key) => [key, { key, completed: 0, total: 0 }]));
+  challenges.forEach((c) => {
+    const key = keyOf(c);
+    const entry = buckets.get(key) ?? { key, completed: 0, total: 0 };
+    entry.total += 1;
+    if (completed.has(c.id)) entry.completed += 1;
+    buckets.set(key, entry);
+  });
+  return [...buckets.values()].filter((b) => b.total > 0);
+}
+
+export function compareToEstimates(challenges: Challenge[], data: ProgressData): EstimateComparison[] {
+  return challenges.flatMap((c) => {
+    const actualSeconds = data.completionTimes[c.id];
+    if (actualSeconds === undefined || !data.completedIds.includes(c.id)) return [];
+    const estimateSeconds = estimateMinutes(c.timeEstimate) * 60;
+    return [{
+      challengeId: c.id,
+      title: c.title,
+      actualSeconds,
+      estimateSeconds,
+      overrun: (actualSeconds - estimateSeconds) / estimateSeconds,
+    }];
+  });
+}
+
+export function averageOverrun(comparisons: EstimateComparison[]): number | null {
+  if (comparisons.length === 0) return null;
+  return comparisons.reduce((sum, c) => sum + c.overrun, 0) / comparisons.length;
+}
+
+export function revealRates(attempts: Attempt[]): RevealRates {
+  if (attempts.length === 0) return { attempts: 0, hintRate: 0, solutionRate: 0 };
+  return {
+    attempts: attempts.length,
+    hintRate: attempts.filter((a) => a.hintsRevealed).length / attempts.length,
+    solutionRate: attempts.filter((a) => a.solutionRevealed).length / attempts.length,
+  };
+}
+
+export function latestAssessments(challenges: Challenge[], data: ProgressData): AssessmentSummary[] {
+  return challenges
+    .flatMap((c) => {
+      const score = latestAssessmentScore(data.attempts[c.id]);
+      return score === undefined ? [] : [{ challengeId: c.id, title: c.title, score }];
+    })
+    .sort((a, b) => a.score - b.score);
+}
+
+function localDay(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Each challenge counts once, on the day its first completed attempt ended */
+export function completionTimeline(data: ProgressData): { timeline: TimelinePoint[]; undated: number } {
+  const counts = new Map<string, number>();
+  let undated = 0;
+
+  data.completedIds.forEach((id) => {
+    const finishedAt = (data.attempts[id] ?? [])
+      .filter((a) => a.status === 'completed')
+      .map((a) => a.endedAt ?? a.startedAt + a.elapsedSeconds * 1000);
+    if (finishedAt.length === 0) {
+      undated += 1;
+      return;
+    }
+    const day = localDay(Math.min(...finishedAt));
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  });
+
+  let cumulative = undated;
+  const timeline = [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, count]) => {
+      cumulative += count;
+      return { date, count, cumulative };
+    });
+  return { timeline, undated };
+}
+
+export function computeStats(challenges: Challenge[], data: ProgressData): ProgressStats {
+  const completed = new Set(data.completedIds.filter((id) => challenges.some((c) => c.id === id)));
+  const comparisons = compareToEstimates(challenges, data);
+  const { timeline, undated } = completionTimeline(data);
+  const assessments = latestAssessments(challenges, data);
+
+  return {
+    completed: completed.size,
+    total: challenges.length,
+    byCategory: bucket(challenges, completed, (c) => c.category),
+    byDifficulty: bucket(challenges, completed, (c) => c.difficulty, DIFFICULTY_ORDER),
+    comparisons,
+    averageOverrun: averageOverrun(comparisons),
+    reveals: revealRates(Object.values(data.attempts).flat()),
+    assessments,
+    averageAssessment: assessments.length === 0
+      ? null
+      : Math.round(assessments.reduce((sum, a) => sum + a.score, 0) / assessments.length),
+    timeline,
+    undatedCompletions: undated,
+  };
+}
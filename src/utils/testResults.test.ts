@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { flattenSpecs, createTestRun, isFullPass, type SandpackSpec } from './testResults';
+
+const spec: SandpackSpec = {
+  tests: {
+    top: { name: 'top-level', blocks: [], status: 'pass', errors: [], duration: 3 },
+  },
+  describes: {
+    store: {
+      tests: {
+        a: { name: 'notifies', blocks: ['store'], status: 'pass', errors: [], duration: 5 },
+        b: {
+          name: 'unsubscribes',
+          blocks: ['store'],
+          status: 'fail',
+          errors: [{ message: 'expected 1 to be 0' }],
+          duration: 2,
+        },
+      },
+      describes: {
+        nested: {
+          tests: {
+            c: { name: 'pending', blocks: ['store', 'nested'], status: 'running', errors: [] },
+          },
+          describes: {},
+        },
+      },
+    },
+  },
+};
+
+describe('flattenSpecs', () => {
+  it('flattens nested describes into named results', () => {
+    const results = flattenSpecs({ '/add.test.ts': spec });
+    expect(results.map((r) => r.name)).toEqual(['top-level', 'store › notifies', 'store › unsubscribes']);
+  });
+
+  it('carries status, duration and first error message', () => {
+    const failing = flattenSpecs({ '/add.test.ts': spec })[2]!;
+    expect(failing).toEqual({
+      name: 'store › unsubscribes',
+      status: 'fail',
+      durationMs: 2,
+      error: 'expected 1 to be 0',
+    });
+  });
+
+  it('reports a spec-level error as a single failure', () => {
+    const results = flattenSpecs({
+      '/add.test.ts': { tests: {}, describes: {}, error: { message: 'Cannot find module' } },
+    });
+    expect(results).toEqual([
+      { name: 'Test suite failed to run', status: 'fail', error: 'Cannot find module' },
+    ]);
+  });
+});
+
+describe('createTestRun / isFullPass', () => {
+  it('counts passing tests', () => {
+    const run = createTestRun(flattenSpecs({ '/add.test.ts': spec }), 1000);
+    expect(run).toMatchObject({ ranAt: 1000, passed: 2, total: 3 });
+    expect(isFullPass(run)).toBe(false);
+  });
+
+  it('treats an empty run as not passing', () => {
+    expect(isFullPass(createTestRun([]))).toBe(false);
+  });
+
+  it('passes when every test passes', () => {
+    expect(isFullPass(createTestRun([{ name: 'x', status: 'pass' }]))).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import type { TestResult, TestRun } from '@/types/progress';
+
+// Structural mirror of Sandpack's (unexported) Spec/Describe/Test shapes
+interface SandpackTest {
+  name: string;
+  blocks: string[];
+  status: 'idle' | 'running' | 'pass' | 'fail';
+  errors: Array<{ message: string }>;
+  duration?: number;
+}
+
+interface SandpackDescribe {
+  tests: Record<string, SandpackTest>;
+  describes: Record<string, SandpackDescribe>;
+}
+
+export interface SandpackSpec extends SandpackDescribe {
+  error?: { message: string };
+}
+
+function collectTests(block: SandpackDescribe): SandpackTest[] {
+  return [
+    ...Object.values(block.tests),
+    ...Object.values(block.describes).flatMap(collectTests),
+  ];
+}
+
+/** Stands in for the whole suite when the test file couldn't load */
+export function suiteFailure(error: string): TestResult {
+  return { name: 'Test suite failed to run', status: 'fail', error };
+}
+
+export function flattenSpecs(specs: Record<string, SandpackSpec>): TestResult[] {
+  return Object.values(specs).flatMap((spec): TestResult[] => {
+    // A spec-level error means the file never ran (syntax error, missing export…)
+    if (spec.error) {
+      return [suiteFailure(spec.error.message)];
+    }
+    return collectTests(spec)
+      .filter((t) => t.status === 'pass' || t.status === 'fail')
+      .map((t) => ({
+        name: [...t.blocks, t.name].join(' › '),
+        status: t.status as TestResult['status'],
+        durationMs: t.duration,
+        error: t.errors[0]?.message,
+      }));
+  });
+}
+
+export function createTestRun(results: TestResult[], ranAt = Date.now()): TestRun {
+  return {
+    ranAt,
+    passed: results.filter((r) => r.status === 'pass').length,
+    total: results.length,
+    results,
+  };
+}
+
+export function isFullPass(run: TestRun): boolean {
+  return run.total > 0 && run.passed === run.total;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatTime } from './time';
+import { formatTime, formatEstimate, estimateStatus, formatCountdown, activeWarning } from './time';
 
 describe('formatTime', () => {
   it('formats 0 seconds as 0:00', () => {
@@ -24,3 +24,41 @@ describe('formatTime', () => {
     expect(formatTime(609)).toBe('10:09');
   });
 });
+
+describe('formatEstimate', () => {
+  it('formats a single estimate', () => {
+    expect(formatEstimate({ minutes: 30 })).toBe('30 min');
+  });
+
+  it('formats a range', () => {
+    expect(formatEstimate({ minutes: 25, maxMinutes: 35 })).toBe('25–35 min');
+  });
+});
+
+describe('estimateStatus', () => {
+  it('is on track up to the upper bound', () => {
+    expect(estimateStatus(30 * 60, { minutes: 30 })).toBe('on-track');
+    expect(estimateStatus(34 * 60, { minutes: 25, maxMinutes: 35 })).toBe('on-track');
+  });
+
+  it('is over past the upper bound and well over at 1.5x', () => {
+    expect(estimateStatus(30 * 60 + 1, { minutes: 30 })).toBe('over');
+    expect(estimateStatus(45 * 60 + 1, { minutes: 30 })).toBe('well-over');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows remaining time, then the overrun', () => {
+    expect(formatCountdown(90)).toBe('1:30');
+    expect(formatCountdown(0)).toBe('0:00');
+    expect(formatCountdown(-75)).toBe('+1:15');
+  });
+});
+
+describe('activeWarning', () => {
+  it('returns the tightest threshold crossed', () => {
+    expect(activeWarning(400, [300, 60])).toBeNull();
+    expect(activeWarning(300, [300, 60])).toBe(300);
+    expect(activeWarning(45, [300, 60])).toBe(60);
+  });
+});
@@ -1,5 +1,39 @@
+import type { TimeEstimate } from '@/types/challenge';
+
 export function formatTime(totalSeconds: number): string {
   const m = Math.floor(totalSeconds / 60);
   const s = totalSeconds % 60;
   return `${m}:${s.toString().padStart(2, '0')}`;
 }
+
+export type EstimateStatus = 'on-track' | 'over' | 'well-over';
+
+// Past the estimate turns amber; this far past it turns red
+const WELL_OVER_FACTOR = 1.5;
+
+export function formatEstimate({ minutes, maxMinutes }: TimeEstimate): string {
+  return maxMinutes && maxMinutes > minutes ? `${minutes}–${maxMinutes} min` : `${minutes} min`;
+}
+
+/** Upper bound in minutes — the point after which you're over */
+export function estimateMinutes({ minutes, maxMinutes }: TimeEstimate): number {
+  return Math.max(minutes, maxMinutes ?? minutes);
+}
+
+export function estimateStatus(elapsedSeconds: number, estimate: TimeEstimate): EstimateStatus {
+  const limit = estimateMinutes(estimate) * 60;
+  if (elapsedSeconds > limit * WELL_OVER_FACTOR) return 'well-over';
+  if (elapsedSeconds > limit) return 'over';
+  return 'on-track';
+}
+
+/** Remaining time for a countdown; past zero it shows the overrun as +m:ss */
+export function formatCountdown(remainingSeconds: number): string {
+  return remainingSeconds >= 0 ? formatTime(remainingSeconds) : `+${formatTime(-remainingSeconds)}`;
+}
+
+/** The tightest warning threshold (seconds left) the countdown has crossed, if any */
+export function activeWarning(remainingSeconds: number, thresholds: number[]): number | null {
+  const crossed = thresholds.filter((t) => remainingSeconds <= t);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+}
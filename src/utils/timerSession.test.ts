@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSession,
+  elapsedMs,
+  pauseSession,
+  restoreSession,
+  startSession,
+  MAX_TIMER_LOG_ENTRIES,
+} from './timerSession';
+
+describe('timerSession', () => {
+  it('derives elapsed time from timestamps across run segments', () => {
+    let session = startSession(createSession(0), 1000);
+    session = pauseSession(session, 4000, 'manual');
+    session = startSession(session, 10_000);
+
+    expect(elapsedMs(session, 12_000)).toBe(5000);
+  });
+
+  it('logs start, pause and resume with reasons', () => {
+    let session = startSession(createSession(0), 0);
+    session = pauseSession(session, 1000, 'hidden');
+    session = startSession(session, 2000, 'hidden');
+
+    expect(session.log.map((e) => [e.type, e.reason])).toEqual([
+      ['start', 'manual'],
+      ['pause', 'hidden'],
+      ['resume', 'hidden'],
+    ]);
+  });
+
+  it('ignores pausing a paused session and starting a running one', () => {
+    const paused = createSession(0);
+    expect(pauseSession(paused, 10, 'manual')).toBe(paused);
+    const running = startSession(paused, 10);
+    expect(startSession(running, 20)).toBe(running);
+  });
+
+  it('does not count time while the page was closed', () => {
+    const stored = { ...startSession(createSession(0), 0), lastSeenAt: 60_000 };
+    const restored = restoreSession(stored, 3_600_000);
+
+    expect(elapsedMs(restored, 3_600_000)).toBe(60_000);
+    expect(restored.runningSince).toBe(3_600_000);
+    expect(restored.log.slice(-2).map((e) => [e.type, e.reason])).toEqual([
+      ['pause', 'closed'],
+      ['resume', 'closed'],
+    ]);
+  });
+
+  it('leaves a paused session untouched on restore', () => {
+    const paused = pauseSession(startSession(createSession(0), 0), 5000, 'manual');
+    expect(restoreSession(paused, 99_999)).toBe(paused);
+  });
+
+  it('caps the log', () => {
+    let session = createSession(0);
+    for (let i = 0; i < MAX_TIMER_LOG_ENTRIES; i++) {
+      session = pauseSession(startSession(session, i * 10), i * 10 + 5, 'manual');
+    }
+    expect(session.log).toHaveLength(MAX_TIMER_LOG_ENTRIES);
+    expect(session.log[session.log.length - 1]?.type).toBe('pause');
+  });
+});
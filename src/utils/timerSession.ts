@@ -0,0 +1,96 @@
+import type { PauseReason, TimerEvent, TimerSession } from '@/types/timer';
+
+export const MAX_TIMER_LOG_ENTRIES = 50;
+
+const TIMER_PREFIX = 'ril-timer-';
+
+export function timerKey(challengeId: number): string {
+  return `${TIMER_PREFIX}${challengeId}`;
+}
+
+export function createSession(now = Date.now()): TimerSession {
+  return { accumulatedMs: 0, runningSince: null, durationSeconds: null, pausedReason: null, log: [], lastSeenAt: now };
+}
+
+function appendEvent(log: TimerEvent[], event: TimerEvent): TimerEvent[] {
+  return [...log, event].slice(-MAX_TIMER_LOG_ENTRIES);
+}
+
+export function elapsedMs(session: TimerSession, now: number): number {
+  const running = session.runningSince === null ? 0 : Math.max(0, now - session.runningSince);
+  return session.accumulatedMs + running;
+}
+
+export function startSession(session: TimerSession, at: number, reason: PauseReason = 'manual'): TimerSession {
+  if (session.runningSince !== null) return session;
+  return {
+    ...session,
+    runningSince: at,
+    pausedReason: null,
+    lastSeenAt: at,
+    log: appendEvent(session.log, { type: session.log.length === 0 ? 'start' : 'resume', at, reason }),
+  };
+}
+
+export function pauseSession(session: TimerSession, at: number, reason: PauseReason): TimerSession {
+  if (session.runningSince === null) return session;
+  return {
+    ...session,
+    accumulatedMs: elapsedMs(session, at),
+    runningSince: null,
+    pausedReason: reason,
+    lastSeenAt: at,
+    log: appendEvent(session.log, { type: 'pause', at, reason }),
+  };
+}
+
+/**
+ * Picks a stored session back up after a reload. A running timer is treated
+ * as paused at the last heartbeat and resumed now, so time spent with the
+ * tab closed doesn't count.
+ */
+export function restoreSession(session: TimerSession, now: number): TimerSession {
+  if (session.runningSince === null) return session;
+  const pausedAt = Math.max(session.runningSince, session.lastSeenAt);
+  return startSession(pauseSession(session, pausedAt, 'closed'), now, 'closed');
+}
+
+export function isTimerSession(value: unknown): value is TimerSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Partial<TimerSession>;
+  return typeof s.accumulatedMs === 'number'
+    && (s.runningSince === null || typeof s.runningSince === 'number')
+    && (s.durationSeconds === null || typeof s.durationSeconds === 'number')
+    && typeof s.lastSeenAt === 'number'
+    && Array.isArray(s.log);
+}
+
+export function loadTimerSession(challengeId: number): TimerSession | null {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(timerKey(challengeId)) ?? 'null');
+    return isTimerSession(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTimerSession(challengeId: number, session: TimerSession) {
+  localStorage.setItem(timerKey(challengeId), JSON.stringify(session));
+}
+
+export function clearTimerSession(challengeId: number) {
+  localStorage.removeItem(timerKey(challengeId));
+}
+
+/** Every stored session, keyed by challenge id */
+export function listTimerSessions(): Record<number, TimerSession> {
+  const sessions: Record<number, TimerSession> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(TIMER_PREFIX)) continue;
+    const id = Number(key.slice(TIMER_PREFIX.length));
+    const session = Number.isInteger(id) ? loadTimerSession(id) : null;
+    if (session) sessions[id] = session;
+  }
+  return sessions;
+}
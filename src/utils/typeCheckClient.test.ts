@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTypeCheckClient } from './typeCheckClient';
+import type { TypeCheckRequest, TypeCheckResponse } from '@/types/typecheck';
+
+/** Answers each request with whatever `reply` returns, or nothing when it returns null */
+class FakeWorker extends EventTarget {
+  static reply: (request: TypeCheckRequest) => TypeCheckResponse | null = () => null;
+  static last: FakeWorker;
+
+  constructor() {
+    super();
+    FakeWorker.last = this;
+  }
+
+  postMessage(request: TypeCheckRequest) {
+    const response = FakeWorker.reply(request);
+    if (response) queueMicrotask(() => this.dispatchEvent(new MessageEvent('message', { data: response })));
+  }
+
+  terminate() {}
+}
+
+describe('createTypeCheckClient', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves with the worker answer', async () => {
+    FakeWorker.reply = ({ id }) => ({ type: 'check', id, diagnostics: [] });
+    await expect(createTypeCheckClient().check({ code: '' })).resolves.toEqual([]);
+  });
+
+  it('rejects when the worker reports an error', async () => {
+    FakeWorker.reply = ({ id }) => ({ type: 'error', id, message: 'lib.d.ts failed to load' });
+    await expect(createTypeCheckClient().hover({ code: '' }, 0)).rejects.toThrow('lib.d.ts failed to load');
+  });
+
+  it('rejects pending and later requests once the worker fails', async () => {
+    FakeWorker.reply = () => null;
+    const client = createTypeCheckClient();
+    const pending = client.check({ code: '' });
+    FakeWorker.last.dispatchEvent(new ErrorEvent('error', { message: 'Failed to load worker script' }));
+
+    await expect(pending).rejects.toThrow('Failed to load worker script');
+    await expect(client.check({ code: '' })).rejects.toThrow('Failed to load worker script');
+  });
+
+  it('rejects pending requests when disposed', async () => {
+    FakeWorker.reply = () => null;
+    const client = createTypeCheckClient();
+    const pending = client.check({ code: '' });
+    client.dispose();
+    await expect(pending).rejects.toThrow('stopped');
+  });
+});
@@ -0,0 +1,61 @@
+import type { TypeCheckInput, TypeCheckRequest, TypeCheckResponse, TypeDiagnostic } from '@/types/typecheck';
+
+export interface TypeCheckClient {
+  check: (input: TypeCheckInput) => Promise<TypeDiagnostic[]>;
+  hover: (input: TypeCheckInput, pos: number) => Promise<string | null>;
+  dispose: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: TypeCheckResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/** Talks to the TypeScript worker, which loads the compiler and lib files when it starts */
+export function createTypeCheckClient(): TypeCheckClient {
+  const worker = new Worker(new URL('../typecheck/worker.ts', import.meta.url), { type: 'module' });
+  let nextId = 1;
+  // Set once the worker can no longer answer, so later requests fail straight away
+  let failure: Error | null = null;
+  const pending = new Map<number, PendingRequest>();
+
+  const fail = (error: Error) => {
+    failure = error;
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<TypeCheckResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  });
+
+  worker.addEventListener('error', (event: ErrorEvent) => {
+    fail(new Error(event.message || 'The type checker failed to start'));
+  });
+
+  const send = (request: TypeCheckRequest) =>
+    new Promise<TypeCheckResponse>((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      pending.set(request.id, { resolve, reject });
+      worker.postMessage(request);
+    });
+
+  return {
+    check: (input) => send({ type: 'check', id: nextId++, ...input })
+      .then((response) => (response.type === 'check' ? response.diagnostics : [])),
+    hover: (input, pos) => send({ type: 'hover', id: nextId++, pos, ...input })
+      .then((response) => (response.type === 'hover' ? response.text : null)),
+    dispose: () => {
+      worker.terminate();
+      fail(new Error('The type checker has been stopped'));
+    },
+  };
+}
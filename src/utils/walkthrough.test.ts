@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { ALL_CHALLENGES } from '@/data/challenges';
+import { invalidSteps, stepRange } from './walkthrough';
+
+const code = 'a\nb\nc\nd';
+const step = (startLine: number, endLine: number) => ({ title: '', explanation: '', startLine, endLine });
+
+describe('walkthrough', () => {
+  it('clamps a step to the lines of the code', () => {
+    expect(stepRange(step(2, 3), code)).toEqual({ start: 2, end: 3 });
+    expect(stepRange(step(0, 9), code)).toEqual({ start: 1, end: 4 });
+    expect(stepRange(step(3, 1), code)).toEqual({ start: 3, end: 3 });
+  });
+
+  it('flags reversed and out-of-range steps', () => {
+    expect(invalidSteps([step(1, 4), step(3, 2), step(4, 5), step(0, 1)], code)).toEqual([1, 2, 3]);
+  });
+
+  it('authored walkthroughs point inside their solutions', () => {
+    ALL_CHALLENGES.filter((c) => c.walkthrough).forEach((c) => {
+      expect(invalidSteps(c.walkthrough!, c.solutionCode), c.title).toEqual([]);
+    });
+  });
+});
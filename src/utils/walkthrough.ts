@@ -0,0 +1,23 @@
+import type { WalkthroughStep } from '@/types/challenge';
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export const lineCount = (code: string) => code.split('\n').length;
+
+/** A step's lines clamped to the code, so an out-of-date step never highlights past the end */
+export function stepRange(step: WalkthroughStep, code: string): LineRange {
+  const last = lineCount(code);
+  const start = Math.min(Math.max(1, step.startLine), last);
+  return { start, end: Math.min(Math.max(start, step.endLine), last) };
+}
+
+/** Indices of steps whose range is empty, reversed or outside the code */
+export function invalidSteps(steps: WalkthroughStep[], code: string): number[] {
+  const last = lineCount(code);
+  return steps.flatMap((step, i) =>
+    step.startLine >= 1 && step.startLine <= step.endLine && step.endLine <= last ? [] : [i],
+  );
+}
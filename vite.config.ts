@@ -10,6 +10,19 @@ export default defineConfig({
     // SPA fallback — all routes serve index.html so React Router handles them
     historyApiFallback: true,
   },
+  build: {
+    rollupOptions: {
+      // runner.html hosts the offline test engine the sandbox loads in a hidden iframe
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        runner: path.resolve(__dirname, 'runner.html'),
+      },
+    },
+  },
+  // The test worker lazy-loads TypeScript, which needs a code-split (ES module) worker
+  worker: {
+    format: 'es',
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),